@@ -0,0 +1,311 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { repairPlaylist } from './schema';
+import { isExportFormat, serializePlaylist } from './formats/export';
+import type { ExportFormat } from './formats/export';
+import { isImportFormat } from './formats/import';
+import type { ImportFormat } from './formats/import';
+import { createOpenApiDocument } from './openapi';
+import type { StoreResult } from './storage';
+import type { Playlist } from './types';
+
+// Scripting access to the library over HTTP. It's off unless the user turns
+// it on, only listens on the loopback interface and wants the access token
+// from the plugin menu on every request except the OpenAPI description.
+
+export const DEFAULT_API_PORT = 26540;
+
+export const createApiToken = (): string => randomBytes(32).toString('hex');
+
+// What the API works on, provided by the backend so requests always go to
+// the library that's open at the time
+export interface ApiLibrary {
+  // Smart playlists with their songs filled in
+  list(): Playlist[];
+  // As stored, smart playlists without their songs
+  get(id: string): Playlist | null;
+  isReadOnly(id: string): boolean;
+  save(playlist: Playlist, force: boolean): StoreResult;
+  remove(id: string): StoreResult;
+  // needsMapping when the columns of a CSV file can't be told apart
+  importContent(content: string, format: ImportFormat, fallbackName: string): { success: boolean; message: string; playlist?: Playlist; needsMapping?: boolean };
+  // Starts playback in the app window
+  play(playlist: Playlist, shuffle: boolean): void;
+}
+
+export interface ApiServerOptions {
+  // 0 picks a free port, see port() once started
+  port: number;
+  token: string;
+  maxBodyBytes?: number;
+}
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  m3u: 'audio/x-mpegurl',
+  m3u8: 'application/vnd.apple.mpegurl',
+  txt: 'text/plain',
+  pls: 'audio/x-scpls',
+  xspf: 'application/xspf+xml',
+};
+
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+  // Plain text bodies (exports) instead of JSON
+  contentType?: string;
+  headers?: Record<string, string>;
+}
+
+const json = (status: number, body: unknown): ApiResponse => ({ status, body });
+
+// Store results become the response body as they are, failures get the
+// status that fits them best
+const fromResult = (result: StoreResult, successStatus: number = 200): ApiResponse => {
+  if (result.success) return json(successStatus, result);
+  return json(result.conflict ? 409 : 400, result);
+};
+
+const readBody = (request: http.IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // The rest is read and dropped, so the client gets the 413 rather
+      // than a reset connection
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new ApiError(413, 'Request body is too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    request.on('error', reject);
+  });
+
+const readJson = async (request: http.IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const body = await readBody(request, maxBytes);
+  if (!body.trim()) return {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new ApiError(400, 'Request body is not valid JSON');
+  }
+};
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ApiError(400, 'Malformed URL');
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Constant time, so the token can't be guessed one character at a time
+const tokenMatches = (given: string, token: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const createApiServer = (library: ApiLibrary, options: ApiServerOptions) => {
+  const maxBodyBytes = options.maxBodyBytes ?? MAX_BODY_BYTES;
+  let server: http.Server | null = null;
+  let port = options.port;
+
+  const findPlaylist = (id: string): Playlist => {
+    const playlist = library.list().find(p => p.id === id);
+    if (!playlist) throw new ApiError(404, 'Playlist not found');
+    return playlist;
+  };
+
+  const checkWritable = (id: string) => {
+    if (library.isReadOnly(id)) {
+      throw new ApiError(403, 'This playlist is in a read-only folder. Copy it to your library to edit it.');
+    }
+  };
+
+  const createPlaylist = async (request: http.IncomingMessage) => {
+    const repaired = repairPlaylist(await readJson(request, maxBodyBytes), 'New Playlist');
+    if (!repaired) throw new ApiError(400, 'Request body is not a playlist');
+
+    const now = new Date().toISOString();
+    const { source, ...playlist } = repaired.playlist;
+    return fromResult(library.save({
+      ...playlist,
+      id: '',
+      songs: playlist.songs.map(song => ({ ...song, addedAt: song.addedAt || now })),
+    }, true), 201);
+  };
+
+  // Fields left out of the body stay as they are. Sending the modified
+  // time the playlist was read with turns on the same conflict check the
+  // app uses, without it the update always wins.
+  const updatePlaylist = async (request: http.IncomingMessage, id: string) => {
+    const existing = library.get(id);
+    if (!existing) throw new ApiError(404, 'Playlist not found');
+    checkWritable(id);
+
+    const changes = await readJson(request, maxBodyBytes);
+    if (!isObject(changes)) throw new ApiError(400, 'Request body is not a playlist');
+
+    const { source, ...current } = existing;
+    const repaired = repairPlaylist({ ...current, ...changes, id, created: existing.created }, existing.name);
+    if (!repaired) throw new ApiError(400, 'Request body is not a playlist');
+
+    const modified = typeof changes.modified === 'string' ? changes.modified : existing.modified;
+    return fromResult(library.save({ ...repaired.playlist, modified }, typeof changes.modified !== 'string'));
+  };
+
+  const importPlaylist = async (request: http.IncomingMessage, query: URLSearchParams) => {
+    const format = query.get('format') ?? '';
+    if (!isImportFormat(format)) throw new ApiError(400, `Unsupported format "${format}"`);
+
+    const content = await readBody(request, maxBodyBytes);
+    let result;
+    try {
+      result = library.importContent(content, format, query.get('name') || 'Imported Playlist');
+    } catch (error) {
+      throw new ApiError(400, error.message);
+    }
+
+    if (result.needsMapping) throw new ApiError(422, result.message);
+    return json(result.success ? 201 : 400, { success: result.success, message: result.message, playlist: result.playlist });
+  };
+
+  const exportPlaylist = (id: string, query: URLSearchParams): ApiResponse => {
+    const playlist = findPlaylist(id);
+    const format = query.get('format') ?? 'json';
+    if (!isExportFormat(format)) throw new ApiError(400, `Unsupported format "${format}"`);
+
+    const fileName = `${playlist.name}.${format}`;
+    return {
+      status: 200,
+      body: serializePlaylist(playlist, format),
+      contentType: `${CONTENT_TYPES[format]}; charset=utf-8`,
+      headers: { 'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}` },
+    };
+  };
+
+  const playPlaylist = async (request: http.IncomingMessage, id: string) => {
+    const playlist = findPlaylist(id);
+    if (playlist.songs.length === 0) throw new ApiError(400, 'Playlist is empty');
+
+    const body = await readJson(request, maxBodyBytes);
+    library.play(playlist, isObject(body) && body.shuffle === true);
+    // Adding to the queue happens in the app window and takes a while
+    return json(202, { success: true, message: `Playing "${playlist.name}"` });
+  };
+
+  const route = async (request: http.IncomingMessage, url: URL): Promise<ApiResponse> => {
+    const method = request.method ?? 'GET';
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+
+    if (method === 'GET' && url.pathname === '/openapi.json') {
+      return json(200, createOpenApiDocument(port));
+    }
+
+    const auth = request.headers.authorization ?? '';
+    if (!auth.startsWith('Bearer ') || !tokenMatches(auth.slice('Bearer '.length).trim(), options.token)) {
+      return { ...json(401, { success: false, message: 'Missing or wrong access token' }), headers: { 'WWW-Authenticate': 'Bearer' } };
+    }
+
+    if (parts[0] !== 'playlists') throw new ApiError(404, 'Not found');
+    const [, id, action] = parts;
+
+    if (parts.length === 1) {
+      if (method === 'GET') return json(200, library.list());
+      if (method === 'POST') return createPlaylist(request);
+    } else if (parts.length === 2 && id === 'import') {
+      if (method === 'POST') return importPlaylist(request, url.searchParams);
+    } else if (parts.length === 2) {
+      if (method === 'GET') return json(200, findPlaylist(id));
+      if (method === 'PATCH') return updatePlaylist(request, id);
+      if (method === 'DELETE') {
+        if (!library.get(id)) throw new ApiError(404, 'Playlist not found');
+        checkWritable(id);
+        return fromResult(library.remove(id));
+      }
+    } else if (parts.length === 3 && action === 'export') {
+      if (method === 'GET') return exportPlaylist(id, url.searchParams);
+    } else if (parts.length === 3 && action === 'play') {
+      if (method === 'POST') return playPlaylist(request, id);
+    } else {
+      throw new ApiError(404, 'Not found');
+    }
+
+    throw new ApiError(405, `${method} is not supported here`);
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    let result: ApiResponse;
+    try {
+      // Refuse requests a web page made look local through DNS rebinding
+      const host = request.headers.host ?? '';
+      if (host !== `127.0.0.1:${port}` && host !== `localhost:${port}`) {
+        throw new ApiError(403, 'Requests must be made to localhost');
+      }
+      result = await route(request, new URL(request.url ?? '/', `http://${host}`));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        result = json(error.status, { success: false, message: error.message });
+      } else {
+        console.error('Local Playlists: API request failed:', error);
+        result = json(500, { success: false, message: error.message });
+      }
+    }
+
+    const body = result.contentType ? String(result.body) : JSON.stringify(result.body, null, 2);
+    response.writeHead(result.status, {
+      'Content-Type': result.contentType ?? 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      ...result.headers,
+    });
+    response.end(body);
+  };
+
+  const start = (): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const opened = http.createServer((request, response) => {
+        handle(request, response);
+      });
+      opened.once('error', reject);
+      opened.listen(options.port, '127.0.0.1', () => {
+        opened.off('error', reject);
+        server = opened;
+        port = (opened.address() as AddressInfo).port;
+        console.log(`Local Playlists: API listening on http://127.0.0.1:${port}`);
+        resolve();
+      });
+    });
+
+  const stop = (): Promise<void> =>
+    new Promise(resolve => {
+      if (!server) {
+        resolve();
+        return;
+      }
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+      server = null;
+    });
+
+  return { start, stop, port: () => port };
+};
+
+export type ApiServer = ReturnType<typeof createApiServer>;
@@ -0,0 +1,45 @@
+import { isVideoId } from './formats/urls';
+import type { Song } from './types';
+
+// What the renderer needs to draw a playlist cover, as data URLs so they
+// work without network access
+export interface PlaylistCover {
+  // Image the user picked for the playlist
+  custom?: string;
+  // Thumbnails of the first tracks, a mosaic when there are four
+  tiles: string[];
+}
+
+// Hosts YouTube Music serves artwork from. Anything else is not fetched.
+const ARTWORK_HOSTS = [/(^|\.)ytimg\.com$/, /(^|\.)ggpht\.com$/, /(^|\.)googleusercontent\.com$/];
+
+export const isArtworkUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && ARTWORK_HOSTS.some(host => host.test(url.hostname));
+  } catch {
+    return false;
+  }
+};
+
+// The captured artwork when there is one, otherwise the video's own
+// thumbnail, which every video has
+export const songThumbnailUrl = (song: Pick<Song, 'videoId' | 'thumbnail'>): string | null => {
+  if (isArtworkUrl(song.thumbnail)) return song.thumbnail;
+  return isVideoId(song.videoId) ? `https://i.ytimg.com/vi/${song.videoId}/mqdefault.jpg` : null;
+};
+
+// Songs whose artwork makes up a playlist's mosaic: the first four with
+// different videos
+export const coverSongs = (songs: Song[]): Song[] => {
+  const seen = new Set<string>();
+  const result: Song[] = [];
+  for (const song of songs) {
+    if (!isVideoId(song.videoId) || seen.has(song.videoId)) continue;
+    seen.add(song.videoId);
+    result.push(song);
+    if (result.length === 4) break;
+  }
+  return result;
+};
@@ -0,0 +1,121 @@
+import { textSimilarity } from './matcher';
+import type { Playlist, Song, SongAvailability } from './types';
+
+export interface VideoStatus {
+  playable: boolean;
+  // Blocked where the user is, rather than gone for good
+  regionLocked?: boolean;
+  // What the video is now, when known
+  title?: string;
+  artist?: string;
+  // Why it can't be played, as the lookup reported it
+  reason?: string;
+}
+
+// Anything that can tell whether a video ID still plays. The renderer asks
+// YouTube Music's player endpoint; tests and offline tools can use
+// createFixtureLookup.
+export interface AvailabilityLookup {
+  lookup(videoId: string): Promise<VideoStatus>;
+}
+
+export interface AvailabilityResult {
+  index: number;
+  song: Song;
+  availability: SongAvailability;
+  reason?: string;
+}
+
+// Below this the video's current title is treated as a different song. Low
+// on purpose, re-uploads often change "(Official Audio)" and the like.
+const SAME_SONG_SCORE = 0.5;
+
+export const availabilityOf = (song: Song, status: VideoStatus): SongAvailability => {
+  if (!status.playable) return status.regionLocked ? 'region-locked' : 'unavailable';
+  if (status.title && textSimilarity(song.title, status.title) < SAME_SONG_SCORE) return 'changed';
+  return 'available';
+};
+
+export const describeAvailability = (availability: SongAvailability | undefined): string => {
+  switch (availability) {
+    case 'unavailable':
+      return 'No longer available';
+    case 'region-locked':
+      return 'Not available in your region';
+    case 'changed':
+      return 'The video is now a different song';
+    default:
+      return '';
+  }
+};
+
+export const createAvailabilityChecker = (lookup: AvailabilityLookup) => {
+  const checkSong = async (song: Song, index: number = 0): Promise<AvailabilityResult> => {
+    const status = await lookup.lookup(song.videoId);
+    return { index, song, availability: availabilityOf(song, status), reason: status.reason };
+  };
+
+  // Every song with a video ID, one lookup at a time. Songs whose lookup
+  // fails are left out rather than marked, a network hiccup says nothing
+  // about the video.
+  const checkPlaylist = async (
+    playlist: Playlist,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<AvailabilityResult[]> => {
+    const songs = playlist.songs
+      .map((song, index) => ({ song, index }))
+      .filter(({ song }) => song.videoId);
+
+    const results: AvailabilityResult[] = [];
+    onProgress?.(0, songs.length);
+
+    for (const [done, { song, index }] of songs.entries()) {
+      try {
+        results.push(await checkSong(song, index));
+      } catch (error) {
+        console.error('Local Playlists: Availability check failed for', song.videoId, error);
+      }
+      onProgress?.(done + 1, songs.length);
+    }
+
+    return results;
+  };
+
+  return { checkSong, checkPlaylist };
+};
+
+export type AvailabilityChecker = ReturnType<typeof createAvailabilityChecker>;
+
+// Record the results on the songs. A song whose video ID changed since it
+// was checked keeps what it had.
+export const applyAvailability = (
+  playlist: Playlist,
+  results: AvailabilityResult[],
+  checkedAt: string = new Date().toISOString()
+): Playlist => {
+  const byIndex = new Map(results.map(result => [result.index, result]));
+  return {
+    ...playlist,
+    songs: playlist.songs.map((song, index) => {
+      const result = byIndex.get(index);
+      if (!result || result.song.videoId !== song.videoId) return song;
+      return { ...song, availability: result.availability, checkedAt };
+    }),
+  };
+};
+
+// A new video for a song, dropping the old video's check result
+export const replaceVideo = (song: Song, videoId: string): Song => {
+  const replaced = { ...song, videoId };
+  delete replaced.availability;
+  delete replaced.checkedAt;
+  return replaced;
+};
+
+// Fixed answers by video ID, for tests and offline checks. Unknown IDs are
+// unavailable.
+export const createFixtureLookup = (videos: Record<string, VideoStatus>): AvailabilityLookup => ({
+  async lookup(videoId: string) {
+    return videos[videoId] ?? { playable: false, reason: 'Video unavailable' };
+  },
+});
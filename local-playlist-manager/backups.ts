@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Playlist } from './types';
+
+export interface PlaylistVersion {
+  versionId: string;
+  savedAt: string;
+  name: string;
+  songCount: number;
+}
+
+export interface TrashedPlaylist {
+  id: string;
+  name: string;
+  songCount: number;
+  deletedAt: string;
+}
+
+interface TrashEntry {
+  deletedAt: string;
+  playlist: Playlist;
+}
+
+const HISTORY_DIR = '.history';
+const TRASH_DIR = '.trash';
+const DEFAULT_MAX_VERSIONS = 20;
+
+// Write to a temp file next to the target and rename it into place, so a
+// crash or full disk mid-write never leaves a truncated playlist behind
+export const writeFileAtomic = (filePath: string, content: string | Buffer) => {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+
+  try {
+    fs.writeFileSync(fd, content, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+// Timestamps double as version IDs, made safe for file names and still
+// sortable as strings
+const toVersionId = (date: Date) => date.toISOString().replace(/[:.]/g, '-');
+
+const fromVersionId = (versionId: string) =>
+  versionId.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z.*$/, '$1:$2:$3.$4Z');
+
+const isSafeSegment = (value: string) => !!value && !/[\\/]|\.\./.test(value);
+
+// Previous versions live in <playlistsDir>/.history/<id>/<timestamp>.json and
+// deleted playlists in <playlistsDir>/.trash/<id>.json
+export const createBackupStore = (playlistsDir: string, maxVersions: number = DEFAULT_MAX_VERSIONS) => {
+  const historyDir = (id: string) => path.join(playlistsDir, HISTORY_DIR, id);
+  const trashDir = path.join(playlistsDir, TRASH_DIR);
+
+  const readJson = <T>(filePath: string): T | null => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+
+  const prune = (id: string) => {
+    const files = fs.readdirSync(historyDir(id)).filter(file => file.endsWith('.json')).sort();
+    for (const file of files.slice(0, Math.max(0, files.length - maxVersions))) {
+      fs.rmSync(path.join(historyDir(id), file), { force: true });
+    }
+  };
+
+  // Keep a copy of the file as it is right now, before it gets overwritten
+  const snapshot = (id: string, currentPath: string) => {
+    if (!isSafeSegment(id) || !fs.existsSync(currentPath)) return;
+
+    fs.mkdirSync(historyDir(id), { recursive: true });
+
+    let versionId = toVersionId(new Date());
+    // Two saves within the same millisecond
+    while (fs.existsSync(path.join(historyDir(id), `${versionId}.json`))) {
+      versionId += '_';
+    }
+
+    fs.copyFileSync(currentPath, path.join(historyDir(id), `${versionId}.json`));
+    prune(id);
+  };
+
+  const listVersions = (id: string): PlaylistVersion[] => {
+    if (!isSafeSegment(id) || !fs.existsSync(historyDir(id))) return [];
+
+    return fs.readdirSync(historyDir(id))
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .reverse()
+      .map(file => {
+        const versionId = file.slice(0, -'.json'.length);
+        const playlist = readJson<Playlist>(path.join(historyDir(id), file));
+        return {
+          versionId,
+          savedAt: fromVersionId(versionId),
+          name: playlist?.name ?? '(unreadable)',
+          songCount: playlist?.songs?.length ?? 0,
+        };
+      });
+  };
+
+  const getVersion = (id: string, versionId: string): Playlist | null => {
+    if (!isSafeSegment(id) || !isSafeSegment(versionId)) return null;
+    return readJson<Playlist>(path.join(historyDir(id), `${versionId}.json`));
+  };
+
+  const moveToTrash = (playlist: Playlist) => {
+    fs.mkdirSync(trashDir, { recursive: true });
+    const entry: TrashEntry = { deletedAt: new Date().toISOString(), playlist };
+    writeFileAtomic(path.join(trashDir, `${playlist.id}.json`), JSON.stringify(entry, null, 2));
+  };
+
+  const listTrash = (): TrashedPlaylist[] => {
+    if (!fs.existsSync(trashDir)) return [];
+
+    return fs.readdirSync(trashDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<TrashEntry>(path.join(trashDir, file)))
+      .filter((entry): entry is TrashEntry => !!entry?.playlist)
+      .map(entry => ({
+        id: entry.playlist.id,
+        name: entry.playlist.name,
+        songCount: entry.playlist.songs?.length ?? 0,
+        deletedAt: entry.deletedAt,
+      }))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  };
+
+  // Returns the trashed playlist and removes it from the trash
+  const takeFromTrash = (id: string): Playlist | null => {
+    if (!isSafeSegment(id)) return null;
+
+    const filePath = path.join(trashDir, `${id}.json`);
+    const entry = readJson<TrashEntry>(filePath);
+    if (!entry?.playlist) return null;
+
+    fs.rmSync(filePath, { force: true });
+    return entry.playlist;
+  };
+
+  // Permanently delete one trashed playlist (and its history), or all of them
+  const purgeTrash = (id?: string) => {
+    const ids = id ? [id] : listTrash().map(entry => entry.id);
+
+    for (const trashedId of ids) {
+      if (!isSafeSegment(trashedId)) continue;
+      fs.rmSync(path.join(trashDir, `${trashedId}.json`), { force: true });
+      fs.rmSync(historyDir(trashedId), { recursive: true, force: true });
+    }
+  };
+
+  return {
+    snapshot,
+    listVersions,
+    getVersion,
+    moveToTrash,
+    listTrash,
+    takeFromTrash,
+    purgeTrash,
+  };
+};
+
+export type BackupStore = ReturnType<typeof createBackupStore>;
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createBackupStore } from './backups';
+import { fileBaseName, readLibraryFolder, readPlaylistFile, writePlaylistFiles } from './converter';
+import type { ParsedPlaylists } from './converter';
+import { isExportFormat, serializePlaylist } from './formats/export';
+import type { ExportFormat } from './formats/export';
+import { createHistoryStore } from './history';
+import { evaluateSmartPlaylists } from './smart-playlists';
+import { createPlaylistStore } from './storage';
+import type { Playlist } from './types';
+
+// Playlist conversion without the app. Runs with any TypeScript runner,
+// e.g. `npx tsx cli.ts convert "Road Trip.csv" "Road Trip.m3u8"`. Writing
+// into the library folder while the app is open is fine, it picks the new
+// files up like any other change.
+
+const USAGE = `Usage:
+  cli.ts convert <input file> <output> [--format <format>] [--guess-csv]
+      Convert a playlist file. The format comes from the output file name
+      unless given. A CSV file holding several playlists needs an output
+      folder and --format.
+
+  cli.ts import <file or folder>... --library <folder> [--guess-csv]
+      Add playlist files to a library. Folders are read as a whole export
+      (Google Takeout, Spotify account data, a folder of playlist files),
+      subfolders included.
+
+  cli.ts export --library <folder> --out <folder> [--format <format>]
+              [--history <file>]
+      Write every playlist of a library to its own file (default m3u8).
+      Smart playlists with play count or last played rules need the app's
+      local-playlists-history.jsonl, otherwise every song counts as unplayed.
+
+Formats: json, csv, m3u, m3u8, txt, pls, xspf. Import also reads Exportify
+CSV, Spotify account data JSON, Takeout CSV and Apple Music library XML.
+--guess-csv imports CSV files whose columns can't be detected for sure with
+the best guess, instead of skipping them.`;
+
+interface Arguments {
+  positional: string[];
+  options: Map<string, string | true>;
+}
+
+const FLAGS = ['guess-csv', 'help'];
+
+const parseArguments = (args: string[]): Arguments => {
+  const positional: string[] = [];
+  const options = new Map<string, string | true>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (FLAGS.includes(name)) {
+      options.set(name, true);
+    } else if (i + 1 < args.length) {
+      options.set(name, args[++i]);
+    } else {
+      throw new Error(`--${name} needs a value`);
+    }
+  }
+
+  return { positional, options };
+};
+
+const stringOption = (args: Arguments, name: string): string | undefined => {
+  const value = args.options.get(name);
+  return typeof value === 'string' ? value : undefined;
+};
+
+const requireOption = (args: Arguments, name: string): string => {
+  const value = stringOption(args, name);
+  if (!value) throw new Error(`--${name} is required`);
+  return value;
+};
+
+const formatOption = (value: string | undefined, fallback?: ExportFormat): ExportFormat => {
+  const format = value ?? fallback;
+  if (!format || !isExportFormat(format)) {
+    throw new Error(`Unknown format "${format ?? ''}"`);
+  }
+  return format;
+};
+
+const readInput = (filePath: string, args: Arguments): ParsedPlaylists => readPlaylistFile(filePath, {
+  guessCsvColumns: args.options.has('guess-csv'),
+});
+
+const MAPPING_HINT = 'could not tell which CSV columns to use, rerun with --guess-csv';
+
+const convert = (args: Arguments) => {
+  const [input, output] = args.positional;
+  if (!input || !output) throw new Error('convert needs an input file and an output');
+
+  const parsed = readInput(input, args);
+  if ('needsMapping' in parsed) throw new Error(`${input}: ${MAPPING_HINT}`);
+
+  const outputIsFolder = parsed.playlists.length > 1 ||
+    (fs.existsSync(output) && fs.statSync(output).isDirectory());
+
+  if (outputIsFolder) {
+    if (!stringOption(args, 'format')) {
+      throw new Error(`${input} holds ${parsed.playlists.length} playlists, give an output folder and --format`);
+    }
+    const format = formatOption(stringOption(args, 'format'));
+    for (const file of writePlaylistFiles(parsed.playlists, output, format)) {
+      console.log(`Wrote ${file}`);
+    }
+    return;
+  }
+
+  const format = formatOption(stringOption(args, 'format') ?? path.extname(output).slice(1).toLowerCase());
+  fs.writeFileSync(output, serializePlaylist(parsed.playlists[0], format), 'utf-8');
+  console.log(`Wrote ${output} (${parsed.playlists[0].songs.length} songs)`);
+};
+
+const importFiles = (args: Arguments) => {
+  const libraryDir = requireOption(args, 'library');
+  if (args.positional.length === 0) throw new Error('import needs at least one file or folder');
+
+  fs.mkdirSync(libraryDir, { recursive: true });
+  const store = createPlaylistStore(libraryDir, { backups: createBackupStore(libraryDir) });
+
+  let imported = 0;
+  let failedPlaylists = 0;
+  let failedInputs = 0;
+  // One bad playlist in a folder or library export doesn't stop the rest
+  const add = (source: string, playlists: Playlist[]) => {
+    for (const playlist of playlists) {
+      const name = playlist.name;
+      const result = store.importPlaylist(playlist);
+      if (result.success) {
+        console.log(`${source}: ${result.message}`);
+        imported++;
+      } else {
+        console.error(`${source}: "${name}" failed, ${result.message}`);
+        failedPlaylists++;
+      }
+    }
+  };
+
+  for (const input of args.positional) {
+    try {
+      if (fs.statSync(input).isDirectory()) {
+        const { playlists, skipped } = readLibraryFolder(input, { guessCsvColumns: args.options.has('guess-csv') });
+        skipped.forEach(({ file, message }) => console.error(`${path.join(input, file)}: skipped, ${message}`));
+        add(path.basename(input), playlists);
+        continue;
+      }
+
+      const parsed = readInput(input, args);
+      if ('needsMapping' in parsed) throw new Error(MAPPING_HINT);
+      add(fileBaseName(input), parsed.playlists);
+    } catch (error) {
+      failedInputs++;
+      console.error(`${input}: ${error.message}`);
+    }
+  }
+
+  console.log(`Imported ${imported} playlists` +
+    (failedPlaylists > 0 ? `, ${failedPlaylists} playlists failed` : '') +
+    (failedInputs > 0 ? `, ${failedInputs} inputs failed` : ''));
+  if (failedPlaylists > 0 || failedInputs > 0) process.exitCode = 1;
+};
+
+const exportAll = (args: Arguments) => {
+  const libraryDir = requireOption(args, 'library');
+  const outDir = requireOption(args, 'out');
+  const format = formatOption(stringOption(args, 'format'), 'm3u8');
+
+  const historyFile = stringOption(args, 'history');
+
+  const store = createPlaylistStore(libraryDir);
+  const playStats = historyFile ? createHistoryStore(historyFile).getSongStats() : {};
+  const written = writePlaylistFiles(evaluateSmartPlaylists(store.list(), playStats), outDir, format);
+  console.log(`Exported ${written.length} playlists to ${outDir}`);
+};
+
+const COMMANDS: Record<string, (args: Arguments) => void> = {
+  convert,
+  import: importFiles,
+  export: exportAll,
+};
+
+const main = (argv: string[]) => {
+  const [command, ...rest] = argv;
+  const run = command ? COMMANDS[command] : undefined;
+  if (!run || rest.includes('--help')) {
+    console.log(USAGE);
+    if (!run && command !== '--help') process.exitCode = 1;
+    return;
+  }
+
+  try {
+    run(parseArguments(rest));
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exitCode = 1;
+  }
+};
+
+main(process.argv.slice(2));
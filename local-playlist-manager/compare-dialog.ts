@@ -0,0 +1,98 @@
+import { createElement } from './dom';
+import { renderSideBySide } from './diff-view';
+import { combineSongs } from './playlist-sets';
+import type { SetOperation } from './playlist-sets';
+import type { Playlist } from './types';
+
+export interface CompareRequest {
+  playlist: Playlist;
+  playlists: Playlist[];
+  // Preselected playlist to compare with
+  otherId?: string;
+}
+
+export interface CompareChoice {
+  operation: SetOperation;
+  first: Playlist;
+  second: Playlist;
+}
+
+// Compare a playlist with another one side by side, and offer to build a
+// new playlist out of the two. Resolves with the chosen operation, or null
+// when closed.
+export const showCompareDialog = (request: CompareRequest): Promise<CompareChoice | null> =>
+  new Promise(resolve => {
+    const { playlist } = request;
+    const others = request.playlists
+      .filter(other => other.id !== playlist.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog compare-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Compare playlists');
+
+    const select = createElement('select', 'library-select');
+    select.setAttribute('aria-label', 'Compare with');
+    for (const other of others) {
+      const option = createElement('option', undefined, other.name);
+      option.value = other.id;
+      select.append(option);
+    }
+    if (request.otherId) {
+      select.value = request.otherId;
+    }
+
+    const picker = createElement('label', 'compare-picker', `Compare "${playlist.name}" with `);
+    picker.append(select);
+
+    const preview = createElement('div', 'compare-preview');
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const closeBtn = createElement('button', 'action-btn', 'Close');
+    const operationButtons = createElement('div', 'compare-operations');
+    actions.append(operationButtons, closeBtn);
+
+    dialog.append(
+      createElement('h2', undefined, 'Compare playlists'),
+      createElement('p', 'lpm-dialog-hint', others.length === 0
+        ? 'There are no other playlists to compare with.'
+        : 'The buttons below save the result as a new playlist and leave both playlists as they are.')
+    );
+    if (others.length > 0) {
+      dialog.append(picker, preview);
+    }
+    dialog.append(actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (result: CompareChoice | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    const render = () => {
+      const other = others.find(p => p.id === select.value);
+      if (!other) return;
+
+      preview.replaceChildren(renderSideBySide(playlist.name, playlist.songs, other.name, other.songs));
+
+      const options: { label: string; choice: CompareChoice }[] = [
+        { label: 'Merge', choice: { operation: 'merge', first: playlist, second: other } },
+        { label: 'Songs in both', choice: { operation: 'intersect', first: playlist, second: other } },
+        { label: `Only in "${playlist.name}"`, choice: { operation: 'subtract', first: playlist, second: other } },
+        { label: `Only in "${other.name}"`, choice: { operation: 'subtract', first: other, second: playlist } },
+      ];
+      operationButtons.replaceChildren(...options.map(({ label, choice }) => {
+        const count = combineSongs(choice.operation, choice.first.songs, choice.second.songs).length;
+        const button = createElement('button', 'action-btn', `${label} (${count})`);
+        button.title = 'Create a new playlist with these songs';
+        button.disabled = count === 0;
+        button.addEventListener('click', () => close(choice));
+        return button;
+      }));
+    };
+
+    select.addEventListener('change', render);
+    closeBtn.addEventListener('click', () => close(null));
+    render();
+  });
@@ -0,0 +1,60 @@
+import { createElement } from './dom';
+import { diffPlaylists } from './playlist-diff';
+import type { Playlist } from './types';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+// A playlist changed on disk while the user was editing it. Show what differs
+// and let them keep their version or take the one from disk. Resolves with
+// null when cancelled.
+export const showConflictDialog = (mine: Playlist, theirs: Playlist): Promise<ConflictChoice | null> =>
+  new Promise(resolve => {
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog conflict-dialog');
+    dialog.setAttribute('role', 'alertdialog');
+    dialog.setAttribute('aria-label', 'Playlist changed outside the app');
+
+    dialog.append(
+      createElement('h2', undefined, 'Playlist changed outside the app'),
+      createElement('p', 'lpm-dialog-hint',
+        `"${theirs.name}" was modified on disk (${new Date(theirs.modified).toLocaleString()}) ` +
+        'while you were editing it. Saving your version will replace those changes.')
+    );
+
+    const diff = diffPlaylists(theirs, mine);
+    const details = createElement('ul', 'conflict-details');
+    if (diff.nameChanged) {
+      details.append(createElement('li', undefined, `Name: "${theirs.name}" on disk, "${mine.name}" in your version`));
+    }
+    if (diff.added.length > 0) {
+      details.append(createElement('li', undefined, `${diff.added.length} songs only in your version`));
+    }
+    if (diff.removed.length > 0) {
+      details.append(createElement('li', undefined, `${diff.removed.length} songs only on disk`));
+    }
+    if (diff.reordered) {
+      details.append(createElement('li', undefined, 'Songs are in a different order'));
+    }
+    if (details.childElementCount === 0) {
+      details.append(createElement('li', undefined, 'Same songs, other details differ'));
+    }
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const theirsBtn = createElement('button', 'action-btn', 'Use version on disk');
+    const mineBtn = createElement('button', 'action-btn primary', 'Keep my version');
+    actions.append(cancelBtn, theirsBtn, mineBtn);
+
+    dialog.append(details, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (choice: ConflictChoice | null) => {
+      overlay.remove();
+      resolve(choice);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    theirsBtn.addEventListener('click', () => close('theirs'));
+    mineBtn.addEventListener('click', () => close('mine'));
+  });
@@ -0,0 +1,150 @@
+import { isArtworkUrl } from './artwork';
+import { html, setHtml } from './dom';
+import type { Song } from './types';
+
+// Elements YouTube Music opens a song menu for. The menu itself is a shared
+// popup rendered elsewhere in the DOM, so we remember which item the user
+// opened it from and read the song off that item.
+const SONG_ITEM_SELECTOR = [
+  'ytmusic-responsive-list-item-renderer',
+  'ytmusic-player-queue-item',
+  'ytmusic-two-row-item-renderer',
+  'ytmusic-player-bar',
+].join(', ');
+
+const MENU_ITEM_CLASS = 'local-playlist-menu-item';
+
+// Ignore menus opened more than this long after the last click on a song item
+const SOURCE_TIMEOUT_MS = 3000;
+
+const getVideoIdFromHref = (href: string | null | undefined): string => {
+  if (!href) return '';
+  try {
+    return new URL(href, location.origin).searchParams.get('v') || '';
+  } catch {
+    return '';
+  }
+};
+
+export const extractSongFromElement = (item: Element): Song | null => {
+  const isPlayerBar = item.tagName.toLowerCase() === 'ytmusic-player-bar';
+
+  const videoId = item.getAttribute('video-id') ||
+    item.querySelector('[video-id]')?.getAttribute('video-id') ||
+    getVideoIdFromHref(item.querySelector('a[href*="watch?v="]')?.getAttribute('href')) ||
+    (isPlayerBar ? getVideoIdFromHref(location.href) : '');
+
+  const titleEl = item.querySelector('.song-title, .title');
+  const bylineEl = item.querySelector('.byline, .secondary-flex-columns, .subtitle');
+  const title = titleEl?.textContent?.trim() || '';
+
+  if (!title) return null;
+
+  const thumbnail = item.querySelector('img')?.src;
+
+  return {
+    videoId,
+    title,
+    artist: bylineEl?.textContent?.trim().split('•')[0]?.trim() || 'Unknown',
+    ...(isArtworkUrl(thumbnail) ? { thumbnail } : {}),
+  };
+};
+
+export const createAddToPlaylistMenu = (onAdd: (song: Song) => void) => {
+  let sourceSong: Song | null = null;
+  let sourceTime = 0;
+  let observer: MutationObserver | null = null;
+  let pending = false;
+
+  const rememberSource = (e: Event) => {
+    const target = e.target as Element | null;
+    const item = target?.closest?.(SONG_ITEM_SELECTOR);
+
+    if (!item || target?.closest(`.${MENU_ITEM_CLASS}`)) return;
+
+    // Only menu buttons and right clicks open the song menu
+    if (e.type === 'click' && !target!.closest('ytmusic-menu-renderer, yt-button-shape, tp-yt-paper-icon-button')) {
+      return;
+    }
+
+    sourceSong = extractSongFromElement(item);
+    sourceTime = Date.now();
+  };
+
+  const createMenuItem = (popup: Element) => {
+    const menuItem = document.createElement('div');
+    menuItem.className = MENU_ITEM_CLASS;
+    menuItem.setAttribute('role', 'menuitem');
+    menuItem.setAttribute('tabindex', '0');
+    setHtml(menuItem, html`
+      <svg viewBox="0 0 24 24" width="24" height="24" fill="currentColor">
+        <path d="M14 10H3v2h11v-2zm0-4H3v2h11V6zm4 8v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zM3 16h7v-2H3v2z"/>
+      </svg>
+      <span>Add to local playlist</span>
+    `);
+
+    menuItem.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const song = sourceSong;
+      const dropdown = popup.closest('tp-yt-iron-dropdown') as (Element & { close?: () => void }) | null;
+      dropdown?.close?.();
+
+      if (song) {
+        onAdd(song);
+      }
+    });
+
+    return menuItem;
+  };
+
+  const injectMenuItem = () => {
+    pending = false;
+
+    const listbox = document.querySelector('ytmusic-popup-container ytmusic-menu-popup-renderer tp-yt-paper-listbox');
+    if (!listbox) return;
+
+    const existing = listbox.querySelector(`.${MENU_ITEM_CLASS}`);
+    const hasSource = sourceSong && Date.now() - sourceTime < SOURCE_TIMEOUT_MS;
+
+    if (!hasSource) {
+      existing?.remove();
+      return;
+    }
+
+    if (!existing) {
+      listbox.appendChild(createMenuItem(listbox));
+    }
+  };
+
+  const start = () => {
+    document.addEventListener('click', rememberSource, true);
+    document.addEventListener('contextmenu', rememberSource, true);
+
+    const popupContainer = document.querySelector('ytmusic-popup-container');
+    if (!popupContainer) {
+      console.warn('Local Playlists: Popup container not found, context menu entry disabled');
+      return;
+    }
+
+    // The popup re-renders its items every time it opens, batch those
+    // mutations into a single check per frame
+    observer = new MutationObserver(() => {
+      if (pending) return;
+      pending = true;
+      requestAnimationFrame(injectMenuItem);
+    });
+    observer.observe(popupContainer, { childList: true, subtree: true });
+  };
+
+  const stop = () => {
+    document.removeEventListener('click', rememberSource, true);
+    document.removeEventListener('contextmenu', rememberSource, true);
+    observer?.disconnect();
+    observer = null;
+    document.querySelectorAll(`.${MENU_ITEM_CLASS}`).forEach(el => el.remove());
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { repairPlaylist } from './schema';
+import { csvRowsToPlaylists, detectCsvColumns, parseCsv } from './formats/csv';
+import type { CsvColumnMapping } from './formats/csv';
+import { serializePlaylist } from './formats/export';
+import type { ExportFormat } from './formats/export';
+import { importFormatOf, parsePlaylistText } from './formats/import';
+import type { ImportFormat } from './formats/import';
+import { isItunesLibrary, parseItunesLibrary } from './formats/itunes';
+import { isExportifyCsv, isSpotifyAccountData, parseExportifyCsv, parseSpotifyAccountData } from './formats/spotify';
+import {
+  isTakeoutLibrarySongs,
+  isTakeoutPlaylistList,
+  parseTakeoutLibrary,
+  parseTakeoutLibrarySongs,
+  parseTakeoutPlaylist,
+  takeoutPlaylistStart,
+} from './formats/takeout';
+import type { Playlist, Song } from './types';
+
+// Reading and writing playlist files without any UI. The app, the scripting
+// API and the command line all go through here.
+
+export type ParsedPlaylists =
+  | { playlists: Playlist[]; fixes: string[] }
+  // A CSV file whose columns couldn't be told apart, with what's needed to
+  // ask which column is which
+  | { needsMapping: true; rows: string[][]; mapping: CsvColumnMapping };
+
+export interface ParseOptions {
+  // Columns chosen by the user for a CSV file
+  csvMapping?: CsvColumnMapping;
+  // Import a CSV file with the detected columns even when they're a guess
+  guessCsvColumns?: boolean;
+  // Song details by video ID, for exports that only list the IDs
+  knownSongs?: Map<string, Song>;
+}
+
+// Playlists in one file. Throws when the file can't be read as a playlist.
+export const parsePlaylistContent = (
+  content: string,
+  format: ImportFormat,
+  fallbackName: string,
+  options: ParseOptions = {}
+): ParsedPlaylists => {
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    if (isSpotifyAccountData(data)) {
+      const playlists = parseSpotifyAccountData(data, fallbackName);
+      if (playlists.length === 0) {
+        throw new Error('File does not contain a playlist');
+      }
+      return { playlists, fixes: [] };
+    }
+
+    const repaired = repairPlaylist(data, fallbackName);
+    if (!repaired) {
+      throw new Error('File does not contain a playlist');
+    }
+    return { playlists: [repaired.playlist], fixes: repaired.fixes };
+  }
+
+  if (format === 'xml') {
+    if (!isItunesLibrary(content)) {
+      throw new Error('Only Apple Music and iTunes library files can be imported from XML');
+    }
+    return { playlists: parseItunesLibrary(content), fixes: [] };
+  }
+
+  if (format === 'csv') {
+    const rows = parseCsv(content);
+    if (rows.length === 0) {
+      throw new Error('Empty CSV file');
+    }
+
+    // Other services' exports have fixed columns, no need to detect them
+    if (!options.csvMapping) {
+      if (isExportifyCsv(rows[0])) {
+        return { playlists: [parseExportifyCsv(rows, fallbackName)], fixes: [] };
+      }
+      if (isTakeoutLibrarySongs(rows[0])) {
+        return { playlists: [parseTakeoutLibrary(rows)], fixes: [] };
+      }
+      if (takeoutPlaylistStart(rows) >= 0) {
+        return { playlists: [parseTakeoutPlaylist(rows, fallbackName, options.knownSongs)], fixes: [] };
+      }
+      if (isTakeoutPlaylistList(rows[0])) {
+        throw new Error('This is Takeout\'s list of playlists, import the playlist files next to it');
+      }
+    }
+
+    let mapping = options.csvMapping;
+    if (!mapping) {
+      const detected = detectCsvColumns(rows[0]);
+      if (!detected.confident && !options.guessCsvColumns) {
+        return { needsMapping: true, rows, mapping: detected.mapping };
+      }
+      mapping = detected.mapping;
+    }
+
+    const playlists = csvRowsToPlaylists(rows, mapping, fallbackName);
+    if (playlists.every(playlist => playlist.songs.length === 0)) {
+      throw new Error('No songs found in CSV file');
+    }
+    return { playlists, fixes: [] };
+  }
+
+  return { playlists: [parsePlaylistText(content, format, fallbackName)], fixes: [] };
+};
+
+// "Road Trip.m3u8" -> "Road Trip"
+export const fileBaseName = (filePath: string) => path.basename(filePath, path.extname(filePath));
+
+export const readPlaylistFile = (filePath: string, options: ParseOptions = {}): ParsedPlaylists => {
+  const format = importFormatOf(filePath);
+  if (!format) {
+    throw new Error('Unsupported file format');
+  }
+  return parsePlaylistContent(fs.readFileSync(filePath, 'utf-8'), format, fileBaseName(filePath), options);
+};
+
+// Playlist files in a folder, sorted by name, and in its subfolders down to
+// the given depth. Hidden files and folders are skipped, which keeps the
+// library's own backups, caches and quarantine out.
+export const listPlaylistFiles = (dir: string, depth: number = 0): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return depth > 0 ? listPlaylistFiles(entryPath, depth - 1) : [];
+      return entry.isFile() && importFormatOf(entry.name) ? [entryPath] : [];
+    });
+
+// Deep enough for an unpacked Takeout archive:
+// Takeout/YouTube and YouTube Music/playlists/<name>.csv
+const LIBRARY_FOLDER_DEPTH = 4;
+
+export interface LibraryFolder {
+  playlists: Playlist[];
+  // Files that aren't playlists, with the reason
+  skipped: { file: string; message: string }[];
+}
+
+// Every playlist in an export folder: a Takeout archive, a folder of
+// Exportify files or Spotify account data, or any mix of playlist files.
+// Files that can't be read are skipped rather than failing the whole import.
+export const readLibraryFolder = (dir: string, options: ParseOptions = {}): LibraryFolder => {
+  const files = listPlaylistFiles(dir, LIBRARY_FOLDER_DEPTH).map(file => ({
+    file,
+    content: fs.readFileSync(file, 'utf-8'),
+  }));
+
+  // Takeout playlists only list video IDs, the titles and artists are in
+  // the library songs file, wherever it is in the archive
+  const knownSongs = new Map(options.knownSongs);
+  for (const { file, content } of files) {
+    if (importFormatOf(file) !== 'csv') continue;
+    const [header = []] = parseCsv(content.slice(0, content.indexOf('\n') + 1 || undefined));
+    if (isTakeoutLibrarySongs(header)) {
+      parseTakeoutLibrarySongs(parseCsv(content)).forEach(song => knownSongs.set(song.videoId, song));
+    }
+  }
+
+  const playlists: Playlist[] = [];
+  const skipped: LibraryFolder['skipped'] = [];
+  for (const { file, content } of files) {
+    const relative = path.relative(dir, file);
+    try {
+      const parsed = parsePlaylistContent(content, importFormatOf(file)!, fileBaseName(file), { ...options, knownSongs });
+      if ('needsMapping' in parsed) {
+        skipped.push({ file: relative, message: 'Could not tell which CSV columns to use' });
+      } else {
+        playlists.push(...parsed.playlists);
+      }
+    } catch (error) {
+      skipped.push({ file: relative, message: error.message });
+    }
+  }
+
+  return { playlists, skipped };
+};
+
+// Playlist names can hold anything, file names can't
+export const toFileName = (name: string): string =>
+  name
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/g, '_')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, 120) || 'Playlist';
+
+// One file per playlist, named after it. Names that clash (on a
+// case-insensitive file system too) get a counter. Returns the files written.
+export const writePlaylistFiles = (playlists: Playlist[], outDir: string, format: ExportFormat): string[] => {
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const taken = new Set<string>();
+  return playlists.map(playlist => {
+    const base = toFileName(playlist.name);
+    let fileName = `${base}.${format}`;
+    for (let counter = 2; taken.has(fileName.toLowerCase()); counter++) {
+      fileName = `${base} (${counter}).${format}`;
+    }
+    taken.add(fileName.toLowerCase());
+
+    const filePath = path.join(outDir, fileName);
+    fs.writeFileSync(filePath, serializePlaylist(playlist, format), 'utf-8');
+    return filePath;
+  });
+};
@@ -0,0 +1,106 @@
+import { CSV_FIELDS } from './formats/csv';
+import type { CsvColumnMapping, CsvField } from './formats/csv';
+import { createElement } from './dom';
+import { showToast } from './dialogs';
+
+export interface CsvMappingRequest {
+  headers: string[];
+  preview: string[][];
+  mapping: CsvColumnMapping;
+  // Shown when several files are imported at once
+  fileName?: string;
+}
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  videoId: 'Video ID',
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  duration: 'Duration',
+  playlistName: 'Playlist name',
+};
+
+// Ask the user which column holds which song field. Resolves with null when
+// the import is cancelled.
+export const showCsvMappingDialog = (request: CsvMappingRequest): Promise<CsvColumnMapping | null> =>
+  new Promise(resolve => {
+    const mapping: CsvColumnMapping = { ...request.mapping };
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog csv-mapping-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Map CSV columns');
+
+    dialog.append(
+      createElement('h2', undefined, 'Map CSV columns'),
+      createElement('p', 'lpm-dialog-hint', request.fileName
+        ? `We couldn't tell which columns of ${request.fileName} to use. Pick a column for each field.`
+        : 'We couldn\'t tell which columns to use. Pick a column for each field.')
+    );
+
+    const fields = createElement('div', 'csv-mapping-fields');
+    for (const field of CSV_FIELDS) {
+      const label = createElement('label', 'csv-mapping-field');
+      label.append(createElement('span', undefined, FIELD_LABELS[field]));
+
+      const select = createElement('select');
+      select.append(new Option('(none)', '-1'));
+      request.headers.forEach((header, index) => {
+        select.append(new Option(header || `Column ${index + 1}`, String(index)));
+      });
+      select.value = String(mapping[field]);
+      select.addEventListener('change', () => {
+        mapping[field] = parseInt(select.value);
+      });
+
+      label.append(select);
+      fields.append(label);
+    }
+
+    const headerToggle = createElement('label', 'csv-mapping-header-toggle');
+    const headerCheckbox = createElement('input');
+    headerCheckbox.type = 'checkbox';
+    headerCheckbox.checked = mapping.hasHeader;
+    headerCheckbox.addEventListener('change', () => {
+      mapping.hasHeader = headerCheckbox.checked;
+    });
+    headerToggle.append(headerCheckbox, ' First row contains column names');
+
+    const table = createElement('table', 'csv-mapping-preview');
+    for (const row of request.preview) {
+      const tr = createElement('tr');
+      for (let i = 0; i < request.headers.length; i++) {
+        tr.append(createElement('td', undefined, row[i] ?? ''));
+      }
+      table.append(tr);
+    }
+
+    const previewWrapper = createElement('div', 'csv-mapping-preview-wrapper');
+    previewWrapper.append(table);
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const importBtn = createElement('button', 'action-btn primary', 'Import');
+    actions.append(cancelBtn, importBtn);
+
+    dialog.append(fields, headerToggle, previewWrapper, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (result: CsvColumnMapping | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    importBtn.addEventListener('click', () => {
+      if (mapping.title < 0 && mapping.videoId < 0) {
+        showToast('Choose at least a title or video ID column', { type: 'error' });
+        return;
+      }
+      close(mapping);
+    });
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close(null);
+    });
+  });
@@ -0,0 +1,378 @@
+import { createElement } from './dom';
+import { EXPORT_FORMATS, serializePlaylist } from './formats/export';
+import type { ExportFormat } from './formats/export';
+import type { Shortcut } from './keyboard';
+import type { Playlist } from './types';
+
+// In-app replacements for alert, prompt and confirm. Those block the whole
+// renderer, player included, and look nothing like YouTube Music.
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+export interface ToastOptions {
+  type?: ToastType;
+  // Shown as a button next to the message, e.g. to undo what was just done
+  action?: ToastAction;
+}
+
+const TOAST_MS = 4000;
+// Long enough to reach for the button
+const ACTION_TOAST_MS = 8000;
+const MAX_TOASTS = 3;
+
+const getToastContainer = () => {
+  const existing = document.getElementById('lpm-toasts');
+  if (existing) return existing;
+
+  const container = createElement('div', 'lpm-toasts');
+  container.id = 'lpm-toasts';
+  container.setAttribute('role', 'status');
+  container.setAttribute('aria-live', 'polite');
+  document.body.append(container);
+  return container;
+};
+
+export const showToast = (message: string, options: ToastOptions = {}) => {
+  const container = getToastContainer();
+  const toast = createElement('div', `lpm-toast ${options.type ?? 'info'}`);
+  toast.append(createElement('span', 'lpm-toast-message', message));
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const dismiss = () => {
+    if (timer) clearTimeout(timer);
+    toast.remove();
+  };
+
+  if (options.action) {
+    const { label, run } = options.action;
+    const button = createElement('button', 'lpm-toast-action', label);
+    button.addEventListener('click', () => {
+      dismiss();
+      run();
+    });
+    toast.append(button);
+  }
+
+  const closeBtn = createElement('button', 'lpm-toast-close', '✕');
+  closeBtn.title = 'Dismiss';
+  closeBtn.addEventListener('click', dismiss);
+  toast.append(closeBtn);
+
+  container.append(toast);
+  while (container.children.length > MAX_TOASTS) {
+    container.firstElementChild?.remove();
+  }
+
+  // Hovering keeps the toast up, so it can't vanish while being read
+  const schedule = () => {
+    timer = setTimeout(dismiss, options.action ? ACTION_TOAST_MS : TOAST_MS);
+  };
+  toast.addEventListener('mouseenter', () => {
+    if (timer) clearTimeout(timer);
+  });
+  toast.addEventListener('mouseleave', schedule);
+  schedule();
+};
+
+// Toast for the { success, message } every IPC handler returns. Nothing is
+// shown when the user cancelled a file dialog themselves.
+export const showResult = (result: { success: boolean; message: string; cancelled?: boolean }, action?: ToastAction) => {
+  if (result.cancelled) return;
+  showToast(result.message, { type: result.success ? 'success' : 'error', action: result.success ? action : undefined });
+};
+
+// Overlay shared by the dialogs below. Escape and clicking outside cancel.
+// Focus goes back to where it was when the dialog closes.
+const openModal = (label: string, className: string, onCancel: () => void) => {
+  const returnFocus = document.activeElement as HTMLElement | null;
+  const overlay = createElement('div', 'lpm-overlay');
+  const dialog = createElement('div', `lpm-dialog ${className}`);
+  dialog.setAttribute('role', 'dialog');
+  dialog.setAttribute('aria-modal', 'true');
+  dialog.setAttribute('aria-label', label);
+
+  overlay.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+    }
+  });
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) onCancel();
+  });
+
+  overlay.append(dialog);
+  document.body.append(overlay);
+  return {
+    dialog,
+    remove: () => {
+      overlay.remove();
+      if (returnFocus?.isConnected) returnFocus.focus();
+    },
+  };
+};
+
+export interface ConfirmRequest {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  // Styles the confirm button for actions that destroy something
+  danger?: boolean;
+}
+
+export const showConfirmDialog = (request: ConfirmRequest): Promise<boolean> =>
+  new Promise(resolve => {
+    const close = (confirmed: boolean) => {
+      modal.remove();
+      resolve(confirmed);
+    };
+    const modal = openModal(request.title, 'confirm-dialog', () => close(false));
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const confirmBtn = createElement('button', `action-btn ${request.danger ? 'danger' : 'primary'}`, request.confirmLabel ?? 'OK');
+    actions.append(cancelBtn, confirmBtn);
+
+    modal.dialog.append(
+      createElement('h2', undefined, request.title),
+      createElement('p', 'lpm-dialog-hint', request.message),
+      actions
+    );
+    confirmBtn.focus();
+
+    cancelBtn.addEventListener('click', () => close(false));
+    confirmBtn.addEventListener('click', () => close(true));
+  });
+
+export interface NameRequest {
+  title: string;
+  hint?: string;
+  label?: string;
+  initial?: string;
+  placeholder?: string;
+  confirmLabel?: string;
+  // Names already in use. Matching one (ignoring case) blocks saving,
+  // except for the initial name, which is the item's own.
+  existingNames?: string[];
+  // Extra rules: an error blocks saving, a warning is only shown
+  validate?: (name: string) => { error?: string; warning?: string } | null;
+}
+
+// Ask for a name. Resolves with the trimmed name, or null when cancelled.
+export const showNameDialog = (request: NameRequest): Promise<string | null> =>
+  new Promise(resolve => {
+    const close = (name: string | null) => {
+      modal.remove();
+      resolve(name);
+    };
+    const modal = openModal(request.title, 'name-dialog', () => close(null));
+
+    const field = createElement('label', 'name-dialog-field');
+    const input = createElement('input');
+    input.type = 'text';
+    input.value = request.initial ?? '';
+    input.placeholder = request.placeholder ?? '';
+    input.setAttribute('aria-describedby', 'lpm-name-message');
+    field.append(createElement('span', undefined, request.label ?? 'Name'), input);
+
+    const message = createElement('p', 'name-dialog-message');
+    message.id = 'lpm-name-message';
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const saveBtn = createElement('button', 'action-btn primary', request.confirmLabel ?? 'Save');
+    actions.append(cancelBtn, saveBtn);
+
+    modal.dialog.append(createElement('h2', undefined, request.title));
+    if (request.hint) {
+      modal.dialog.append(createElement('p', 'lpm-dialog-hint', request.hint));
+    }
+    modal.dialog.append(field, message, actions);
+
+    const initial = (request.initial ?? '').trim().toLowerCase();
+    const taken = new Set((request.existingNames ?? [])
+      .map(name => name.trim().toLowerCase())
+      .filter(name => name !== initial));
+
+    const check = (): { error?: string; warning?: string } => {
+      const name = input.value.trim();
+      if (!name) return { error: 'Enter a name' };
+      if (taken.has(name.toLowerCase())) return { error: `"${name}" is already taken, pick another name` };
+      return request.validate?.(name) ?? {};
+    };
+
+    const update = () => {
+      const { error, warning } = check();
+      // Nothing typed yet isn't worth an error message
+      message.textContent = input.value.trim() ? error ?? warning ?? '' : '';
+      message.classList.toggle('error', !!error);
+      input.setAttribute('aria-invalid', String(!!error));
+      saveBtn.disabled = !!error;
+    };
+
+    const save = () => {
+      if (!check().error) close(input.value.trim());
+    };
+
+    input.addEventListener('input', update);
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') save();
+    });
+    cancelBtn.addEventListener('click', () => close(null));
+    saveBtn.addEventListener('click', save);
+
+    update();
+    input.focus();
+    input.select();
+  });
+
+export interface PlaylistPickerRequest {
+  title: string;
+  playlists: Playlist[];
+}
+
+// Pick one playlist from a filterable list
+export const showPlaylistPicker = (request: PlaylistPickerRequest): Promise<Playlist | null> =>
+  new Promise(resolve => {
+    const close = (playlist: Playlist | null) => {
+      modal.remove();
+      resolve(playlist);
+    };
+    const modal = openModal(request.title, 'playlist-picker', () => close(null));
+
+    const search = createElement('input');
+    search.type = 'text';
+    search.placeholder = 'Filter playlists';
+    const list = createElement('div', 'playlist-picker-list');
+    list.setAttribute('role', 'listbox');
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    actions.append(cancelBtn);
+
+    const render = () => {
+      const query = search.value.trim().toLowerCase();
+      const matching = request.playlists.filter(playlist => playlist.name.toLowerCase().includes(query));
+
+      list.replaceChildren(...matching.map(playlist => {
+        const option = createElement('button', 'playlist-picker-item');
+        option.setAttribute('role', 'option');
+        option.append(
+          createElement('span', 'playlist-picker-name', playlist.name),
+          createElement('span', 'playlist-picker-count', `${playlist.songs.length} songs`)
+        );
+        option.addEventListener('click', () => close(playlist));
+        return option;
+      }));
+
+      if (matching.length === 0) {
+        list.append(createElement('p', 'lpm-dialog-hint', 'No playlists match'));
+      }
+    };
+
+    search.addEventListener('input', render);
+    search.addEventListener('keydown', (e) => {
+      const first = list.querySelector<HTMLButtonElement>('.playlist-picker-item');
+      if (e.key === 'Enter' && first) first.click();
+    });
+    cancelBtn.addEventListener('click', () => close(null));
+
+    modal.dialog.append(createElement('h2', undefined, request.title), search, list, actions);
+    render();
+    search.focus();
+  });
+
+// Songs shown in the export preview, enough to see what the file looks like
+const PREVIEW_SONGS = 5;
+
+// Choose an export format while looking at the start of the file it makes
+export const showExportFormatDialog = (playlist: Playlist): Promise<ExportFormat | null> =>
+  new Promise(resolve => {
+    const close = (format: ExportFormat | null) => {
+      modal.remove();
+      resolve(format);
+    };
+    const modal = openModal(`Export ${playlist.name}`, 'export-dialog', () => close(null));
+
+    let selected: ExportFormat = EXPORT_FORMATS[0].format;
+    const sample: Playlist = { ...playlist, songs: playlist.songs.slice(0, PREVIEW_SONGS) };
+
+    const formats = createElement('div', 'export-formats');
+    formats.setAttribute('role', 'radiogroup');
+    const preview = createElement('pre', 'export-preview');
+    const previewNote = createElement('p', 'lpm-dialog-hint');
+
+    const select = (format: ExportFormat) => {
+      selected = format;
+      formats.querySelectorAll<HTMLButtonElement>('.export-format').forEach(option => {
+        const active = option.dataset.format === format;
+        option.classList.toggle('active', active);
+        option.setAttribute('aria-checked', String(active));
+      });
+      preview.textContent = serializePlaylist(sample, format);
+    };
+
+    for (const info of EXPORT_FORMATS) {
+      const option = createElement('button', 'export-format');
+      option.dataset.format = info.format;
+      option.setAttribute('role', 'radio');
+      option.append(
+        createElement('span', 'export-format-label', info.label),
+        createElement('span', 'export-format-description', info.description)
+      );
+      option.addEventListener('click', () => select(info.format));
+      option.addEventListener('dblclick', () => close(info.format));
+      formats.append(option);
+    }
+
+    previewNote.textContent = playlist.songs.length > PREVIEW_SONGS
+      ? `Preview of the first ${PREVIEW_SONGS} of ${playlist.songs.length} songs`
+      : 'Preview';
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const exportBtn = createElement('button', 'action-btn primary', 'Export…');
+    actions.append(cancelBtn, exportBtn);
+
+    cancelBtn.addEventListener('click', () => close(null));
+    exportBtn.addEventListener('click', () => close(selected));
+
+    modal.dialog.append(
+      createElement('h2', undefined, `Export "${playlist.name}"`),
+      formats,
+      previewNote,
+      preview,
+      actions
+    );
+    select(selected);
+    exportBtn.focus();
+  });
+
+export const showShortcutsDialog = (shortcuts: Shortcut[]): Promise<void> =>
+  new Promise(resolve => {
+    const close = () => {
+      modal.remove();
+      resolve();
+    };
+    const modal = openModal('Keyboard shortcuts', 'shortcuts-dialog', close);
+
+    const list = createElement('dl', 'shortcut-list');
+    for (const shortcut of shortcuts) {
+      const keys = createElement('dt');
+      shortcut.keys.split(' ').forEach(key => keys.append(createElement('kbd', undefined, key)));
+      list.append(keys, createElement('dd', undefined, shortcut.description));
+    }
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const closeBtn = createElement('button', 'action-btn primary', 'Close');
+    actions.append(closeBtn);
+    closeBtn.addEventListener('click', close);
+
+    modal.dialog.append(createElement('h2', undefined, 'Keyboard shortcuts'), list, actions);
+    closeBtn.focus();
+  });
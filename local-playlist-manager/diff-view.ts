@@ -0,0 +1,53 @@
+import { createElement } from './dom';
+import { alignPlaylists } from './playlist-diff';
+import type { DiffCell } from './playlist-diff';
+import type { Song } from './types';
+
+const STATUS_LABELS: Record<DiffCell['status'], string> = {
+  same: 'In both',
+  removed: 'Only on the left',
+  added: 'Only on the right',
+  moved: 'In both, at a different position',
+};
+
+const renderCell = (cell?: DiffCell) => {
+  if (!cell) return createElement('div', 'diff-cell empty');
+
+  const element = createElement('div', `diff-cell ${cell.status}`);
+  element.title = STATUS_LABELS[cell.status];
+  element.append(
+    createElement('span', 'diff-number', String(cell.index + 1)),
+    createElement('span', 'diff-song', `${cell.song.artist} - ${cell.song.title}`)
+  );
+  return element;
+};
+
+// Two song lists next to each other, lined up on the songs they share
+export const renderSideBySide = (leftLabel: string, left: Song[], rightLabel: string, right: Song[]) => {
+  const rows = alignPlaylists(left, right);
+  const container = createElement('div', 'diff-view');
+
+  const countLeft = (status: DiffCell['status']) => rows.filter(row => row.left?.status === status).length;
+  const same = countLeft('same');
+  const moved = countLeft('moved');
+  const onlyLeft = countLeft('removed');
+  const onlyRight = rows.filter(row => row.right?.status === 'added').length;
+
+  const summary = [`${same} songs in the same place`];
+  if (moved > 0) summary.push(`${moved} moved`);
+  summary.push(`${onlyLeft} only on the left`, `${onlyRight} only on the right`);
+  container.append(createElement('p', 'version-diff-line', summary.join(', ')));
+
+  if (rows.length === 0) return container;
+
+  const grid = createElement('div', 'diff-grid');
+  grid.append(
+    createElement('div', 'diff-heading', leftLabel),
+    createElement('div', 'diff-heading', rightLabel)
+  );
+  for (const row of rows) {
+    grid.append(renderCell(row.left), renderCell(row.right));
+  }
+  container.append(grid);
+  return container;
+};
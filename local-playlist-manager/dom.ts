@@ -0,0 +1,53 @@
+// Small helper for building dialog markup without innerHTML, so text coming
+// from playlist files is always inserted as text
+export const createElement = <K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string) => {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+// Markup for the pages, which are too big to build element by element.
+// Everything interpolated into html`` is escaped, only other html``
+// templates (or arrays of them) go in as markup. Playlist files are user
+// input, and script running in the renderer could reach the IPC handlers.
+export interface SafeHtml {
+  readonly html: string;
+}
+
+const trusted = new WeakSet<SafeHtml>();
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => ESCAPES[char]);
+
+const isSafeHtml = (value: unknown): value is SafeHtml =>
+  typeof value === 'object' && value !== null && trusted.has(value as SafeHtml);
+
+const toHtml = (value: unknown): string => {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(toHtml).join('');
+  if (isSafeHtml(value)) return value.html;
+  return escapeHtml(String(value));
+};
+
+export const html = (strings: TemplateStringsArray, ...values: unknown[]): SafeHtml => {
+  let result = strings[0];
+  values.forEach((value, i) => {
+    result += toHtml(value) + strings[i + 1];
+  });
+
+  const safe = { html: result };
+  trusted.add(safe);
+  return safe;
+};
+
+export const setHtml = (element: Element, content: SafeHtml | SafeHtml[]) => {
+  element.innerHTML = toHtml(content);
+};
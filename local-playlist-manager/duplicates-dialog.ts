@@ -0,0 +1,186 @@
+import { createElement } from './dom';
+import type { DuplicateGroup, LibraryDuplicateReport } from './duplicates';
+import type { Song } from './types';
+
+export type LibraryDuplicateAction =
+  | { type: 'review'; playlistId: string }
+  | { type: 'compare'; firstId: string; secondId: string };
+
+// Beyond this the list stops being useful to scroll through
+const MAX_SHARED_SONGS = 100;
+
+const describeSong = (song: Song) => `${song.artist} - ${song.title}`;
+
+// Pick which copies of duplicated songs to remove. Extra copies of exact
+// duplicates start out selected, similar ones are left for the user to
+// decide. Resolves with the indexes to remove, or null when cancelled.
+export const showDuplicatesDialog = (songs: Song[], groups: DuplicateGroup[]): Promise<number[] | null> =>
+  new Promise(resolve => {
+    const selected = new Set<number>();
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog duplicates-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Duplicate songs');
+
+    const exact = groups.filter(group => group.kind === 'exact').length;
+    dialog.append(
+      createElement('h2', undefined, 'Duplicate songs'),
+      createElement('p', 'lpm-dialog-hint', groups.length === 0
+        ? 'This playlist has no duplicate songs.'
+        : `${exact} ${exact === 1 ? 'song is' : 'songs are'} listed more than once, and ${groups.length - exact} more look like the same song in a different version. Checked copies will be removed.`)
+    );
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', groups.length === 0 ? 'Close' : 'Cancel');
+    const removeBtn = createElement('button', 'action-btn danger', '');
+    actions.append(cancelBtn);
+
+    const updateRemoveButton = () => {
+      removeBtn.textContent = `Remove ${selected.size} ${selected.size === 1 ? 'song' : 'songs'}`;
+      removeBtn.disabled = selected.size === 0;
+    };
+
+    if (groups.length > 0) {
+      const list = createElement('div', 'duplicate-groups');
+      for (const group of groups) {
+        const section = createElement('div', `duplicate-group ${group.kind}`);
+        section.append(createElement('div', 'duplicate-group-title',
+          group.kind === 'exact' ? `Listed ${group.indexes.length} times` : 'Possibly the same song'));
+
+        group.indexes.forEach((index, position) => {
+          const row = createElement('label', 'duplicate-row');
+          const checkbox = createElement('input');
+          checkbox.type = 'checkbox';
+          // Keep the first copy unless the user says otherwise
+          checkbox.checked = position > 0 && group.kind === 'exact';
+          if (checkbox.checked) selected.add(index);
+
+          checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+              selected.add(index);
+            } else {
+              selected.delete(index);
+            }
+            updateRemoveButton();
+          });
+
+          row.append(
+            checkbox,
+            createElement('span', 'song-number', String(index + 1)),
+            createElement('span', 'duplicate-song', describeSong(songs[index]))
+          );
+          section.append(row);
+        });
+        list.append(section);
+      }
+      dialog.append(list);
+      actions.append(removeBtn);
+      updateRemoveButton();
+    }
+
+    dialog.append(actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (result: number[] | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    removeBtn.addEventListener('click', () => close([...selected]));
+  });
+
+// Duplicates across the whole library: playlists with repeated songs, songs
+// kept in several playlists and playlists that are nearly the same.
+// Resolves with what the user wants to look at next, or null when closed.
+export const showLibraryDuplicatesDialog = (report: LibraryDuplicateReport): Promise<LibraryDuplicateAction | null> =>
+  new Promise(resolve => {
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog duplicates-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Duplicates in the library');
+
+    const close = (result: LibraryDuplicateAction | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    const addItem = (list: HTMLElement, title: string, detail: string, label?: string, action?: LibraryDuplicateAction) => {
+      const row = createElement('div', 'trash-item');
+      const info = createElement('div', 'trash-item-info');
+      info.append(
+        createElement('span', 'trash-item-name', title),
+        createElement('span', 'trash-item-detail', detail)
+      );
+      row.append(info);
+      if (label && action) {
+        const button = createElement('button', 'action-btn', label);
+        button.addEventListener('click', () => close(action));
+        row.append(button);
+      }
+      list.append(row);
+    };
+
+    const { withinPlaylists, acrossPlaylists, similar } = report;
+    dialog.append(
+      createElement('h2', undefined, 'Duplicates in the library'),
+      createElement('p', 'lpm-dialog-hint', withinPlaylists.length + acrossPlaylists.length + similar.length === 0
+        ? 'No duplicate songs or similar playlists found.'
+        : 'Songs count as the same when they have the same video, or the same artist and title once versions like "Remastered" are ignored.')
+    );
+
+    if (similar.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const pair of similar) {
+        addItem(
+          list,
+          `${pair.a.name} and ${pair.b.name}`,
+          `${Math.round(pair.similarity * 100)}% the same, ${pair.shared} shared songs`,
+          'Compare',
+          { type: 'compare', firstId: pair.a.id, secondId: pair.b.id }
+        );
+      }
+      dialog.append(createElement('h3', 'health-section', 'Similar playlists'), list);
+    }
+
+    if (withinPlaylists.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const { playlist, groups } of withinPlaylists) {
+        const copies = groups.reduce((total, group) => total + group.indexes.length - 1, 0);
+        addItem(
+          list,
+          playlist.name,
+          `${copies} extra ${copies === 1 ? 'copy' : 'copies'} of ${groups.length} ${groups.length === 1 ? 'song' : 'songs'}`,
+          'Review',
+          { type: 'review', playlistId: playlist.id }
+        );
+      }
+      dialog.append(createElement('h3', 'health-section', 'Playlists with duplicate songs'), list);
+    }
+
+    if (acrossPlaylists.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const duplicate of acrossPlaylists.slice(0, MAX_SHARED_SONGS)) {
+        addItem(
+          list,
+          describeSong(duplicate.song),
+          `In ${duplicate.playlists.map(p => p.count > 1 ? `${p.name} (${p.count}×)` : p.name).join(', ')}`
+        );
+      }
+      if (acrossPlaylists.length > MAX_SHARED_SONGS) {
+        list.append(createElement('p', 'trash-status', `and ${acrossPlaylists.length - MAX_SHARED_SONGS} more`));
+      }
+      dialog.append(createElement('h3', 'health-section', `Songs in more than one playlist (${acrossPlaylists.length})`), list);
+    }
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const closeBtn = createElement('button', 'action-btn', 'Close');
+    closeBtn.addEventListener('click', () => close(null));
+    actions.append(closeBtn);
+
+    dialog.append(actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+  });
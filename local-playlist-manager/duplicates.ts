@@ -0,0 +1,182 @@
+import { normalizeForMatching } from './matcher';
+import { songKey } from './smart-playlists';
+import type { Playlist, Song } from './types';
+
+// 'exact' copies share a video ID (or, without one, the same artist and
+// title). 'similar' ones only match once titles are normalised, which can
+// also be a live version or a different upload.
+export type DuplicateKind = 'exact' | 'similar';
+
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  // Positions in the playlist, in order. The first one is the copy to keep.
+  indexes: number[];
+}
+
+export interface LibraryDuplicate {
+  song: Song;
+  // Every playlist the song is in
+  playlists: { id: string; name: string; count: number }[];
+}
+
+export interface SimilarPlaylists {
+  a: Playlist;
+  b: Playlist;
+  shared: number;
+  // Shared songs as a share of all songs in either playlist, 0 to 1
+  similarity: number;
+}
+
+export interface LibraryDuplicateReport {
+  // Writable playlists that list the same song more than once
+  withinPlaylists: { playlist: Playlist; groups: DuplicateGroup[] }[];
+  acrossPlaylists: LibraryDuplicate[];
+  similar: SimilarPlaylists[];
+}
+
+// Artist and title without the decorations that differ between uploads
+export const fuzzySongKey = (song: Song): string => {
+  const artist = normalizeForMatching(song.artist || '');
+  const title = normalizeForMatching(song.title || '');
+  return title ? `${artist}\u0000${title}` : '';
+};
+
+// Answers "is this song already in the list", by video ID or fuzzy key
+export const createSongLookup = (songs: Song[] = []) => {
+  const ids = new Set<string>();
+  const keys = new Set<string>();
+
+  const add = (song: Song) => {
+    if (song.videoId) ids.add(song.videoId);
+    const key = fuzzySongKey(song);
+    if (key) keys.add(key);
+  };
+
+  const has = (song: Song) => {
+    if (song.videoId && ids.has(song.videoId)) return true;
+    const key = fuzzySongKey(song);
+    return !!key && keys.has(key);
+  };
+
+  songs.forEach(add);
+  return { add, has };
+};
+
+// Which songs are the same track: songs sharing a video ID or a fuzzy key
+// end up with the same group number, even when linked only through a third
+// song. Returns one group number per song.
+const groupSongs = (songs: Song[]): number[] => {
+  const parent = songs.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const firstByKey = new Map<string, number>();
+  const link = (key: string, index: number) => {
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, index);
+    } else {
+      parent[find(index)] = find(first);
+    }
+  };
+
+  songs.forEach((song, index) => {
+    if (song.videoId) link(`id:${song.videoId}`, index);
+    const key = fuzzySongKey(song);
+    if (key) link(`song:${key}`, index);
+  });
+
+  return songs.map((_, index) => find(index));
+};
+
+const collectGroups = (groupIds: number[]): number[][] => {
+  const groups = new Map<number, number[]>();
+  groupIds.forEach((groupId, index) => {
+    const group = groups.get(groupId);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(groupId, [index]);
+    }
+  });
+  return [...groups.values()].filter(indexes => indexes.length > 1);
+};
+
+export const findDuplicates = (songs: Song[]): DuplicateGroup[] =>
+  collectGroups(groupSongs(songs))
+    .map(indexes => {
+      const key = songKey(songs[indexes[0]]);
+      return {
+        kind: indexes.every(index => songKey(songs[index]) === key) ? 'exact' as const : 'similar' as const,
+        indexes,
+      };
+    })
+    .sort((a, b) => a.indexes[0] - b.indexes[0]);
+
+// Smart playlists are left out: they repeat songs from other playlists by
+// design.
+export const findLibraryDuplicates = (playlists: Playlist[], minSimilarity: number = 0.8): LibraryDuplicateReport => {
+  const regular = playlists.filter(playlist => !playlist.smart && playlist.songs.length > 0);
+
+  const withinPlaylists = regular
+    .filter(playlist => !playlist.source?.readOnly)
+    .map(playlist => ({ playlist, groups: findDuplicates(playlist.songs) }))
+    .filter(entry => entry.groups.length > 0);
+
+  // Group every song in the library at once so the same track gets the same
+  // group number in every playlist
+  const entries = regular.flatMap(playlist => playlist.songs.map(song => ({ playlist, song })));
+  const groupIds = groupSongs(entries.map(entry => entry.song));
+
+  const acrossPlaylists: LibraryDuplicate[] = [];
+  for (const indexes of collectGroups(groupIds)) {
+    const counts = new Map<Playlist, number>();
+    for (const index of indexes) {
+      counts.set(entries[index].playlist, (counts.get(entries[index].playlist) ?? 0) + 1);
+    }
+    if (counts.size < 2) continue;
+
+    acrossPlaylists.push({
+      song: entries[indexes[0]].song,
+      playlists: [...counts].map(([playlist, count]) => ({ id: playlist.id, name: playlist.name, count })),
+    });
+  }
+  acrossPlaylists.sort((a, b) => b.playlists.length - a.playlists.length
+    || a.song.artist.localeCompare(b.song.artist)
+    || a.song.title.localeCompare(b.song.title));
+
+  const tracks = new Map<Playlist, Set<number>>();
+  entries.forEach((entry, index) => {
+    const set = tracks.get(entry.playlist) ?? new Set<number>();
+    set.add(groupIds[index]);
+    tracks.set(entry.playlist, set);
+  });
+
+  const similar: SimilarPlaylists[] = [];
+  const sets = [...tracks];
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      const [a, aTracks] = sets[i];
+      const [b, bTracks] = sets[j];
+      // Can't reach the threshold when one is much bigger than the other
+      if (Math.min(aTracks.size, bTracks.size) / Math.max(aTracks.size, bTracks.size) < minSimilarity) continue;
+
+      let shared = 0;
+      aTracks.forEach(track => {
+        if (bTracks.has(track)) shared++;
+      });
+      const similarity = shared / (aTracks.size + bTracks.size - shared);
+      if (similarity >= minSimilarity) {
+        similar.push({ a, b, shared, similarity });
+      }
+    }
+  }
+  similar.sort((x, y) => y.similarity - x.similarity);
+
+  return { withinPlaylists, acrossPlaylists, similar };
+};
@@ -0,0 +1,9 @@
+// Song durations are stored as whole seconds in a string
+export const formatDuration = (duration?: string): string => {
+  if (!duration) return '--:--';
+  const seconds = parseInt(duration);
+  if (isNaN(seconds)) return '--:--';
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,229 @@
+import type { Playlist, Song } from '../types';
+
+export type CsvField = 'videoId' | 'title' | 'artist' | 'album' | 'duration' | 'playlistName';
+
+// Column index for each song field, -1 when the file has no such column
+export type CsvColumnMapping = Record<CsvField, number> & {
+  hasHeader: boolean;
+};
+
+export interface CsvColumnDetection {
+  mapping: CsvColumnMapping;
+  // False when a field could only be guessed, or several columns claim it
+  confident: boolean;
+}
+
+export const CSV_FIELDS: CsvField[] = ['videoId', 'title', 'artist', 'album', 'duration', 'playlistName'];
+
+// Normalized header names for each field. Every field is checked for an
+// exact match before any is matched by substring (which is how the original
+// importer matched them).
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  videoId: ['mediaid', 'videoid', 'video', 'id', 'youtubeid'],
+  title: ['title', 'songtitle', 'song', 'trackname', 'track', 'name'],
+  artist: ['artists', 'artist', 'artistname', 'artistnames', 'channel'],
+  album: ['album', 'albumtitle', 'albumname'],
+  duration: ['duration', 'durationseconds', 'durationms', 'length', 'time'],
+  playlistName: ['playlistname', 'playlist', 'playlisttitle'],
+};
+
+// Too generic to find inside other headers: "Time Added", "Track Number"
+const EXACT_ONLY_ALIASES = new Set(['id', 'video', 'song', 'track', 'name', 'time', 'length', 'playlist']);
+
+// Dates and timestamps are never song fields, whatever else the header says
+const isTimestampHeader = (header: string) => /added|date|stamp|created/.test(header);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// RFC 4180 reader: quoted fields may contain commas, escaped quotes ("") and
+// line breaks. Accepts CRLF, LF or CR line endings and a leading BOM.
+export const parseCsv = (content: string): string[][] => {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    // Skip blank lines rather than producing [''] rows
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+const escapeCsvField = (value: string): string => {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+export const stringifyCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(value => escapeCsvField(value ?? '')).join(',')).join('\r\n') + '\r\n';
+
+export const detectCsvColumns = (header: string[]): CsvColumnDetection => {
+  const normalized = header.map(normalizeHeader);
+  const mapping = { hasHeader: true } as CsvColumnMapping;
+  const claimed = new Map<number, CsvField>();
+  let confident = true;
+
+  const claim = (field: CsvField, index: number) => {
+    mapping[field] = index;
+    if (index >= 0) claimed.set(index, field);
+  };
+
+  for (const field of CSV_FIELDS) {
+    let index = -1;
+    for (const alias of HEADER_ALIASES[field]) {
+      index = normalized.findIndex((h, i) => h === alias && !claimed.has(i));
+      if (index >= 0) break;
+    }
+    claim(field, index);
+  }
+
+  for (const field of CSV_FIELDS) {
+    if (mapping[field] >= 0) continue;
+
+    const aliases = HEADER_ALIASES[field].filter(alias => !EXACT_ONLY_ALIASES.has(alias));
+    const index = normalized.findIndex((h, i) =>
+      !claimed.has(i) && !isTimestampHeader(h) && aliases.some(alias => h.includes(alias)));
+    // A substring match is a guess, only trust it for optional columns
+    if (index >= 0 && (field === 'title' || field === 'artist')) {
+      confident = false;
+    }
+    claim(field, index);
+  }
+
+  // No recognizable header at all: the first row is probably data
+  if (claimed.size === 0) {
+    mapping.hasHeader = false;
+    confident = false;
+  }
+
+  if (mapping.title < 0 || mapping.artist < 0) {
+    confident = false;
+  }
+
+  return { mapping, confident };
+};
+
+// Durations show up as seconds, milliseconds or m:ss / h:mm:ss. Song.duration
+// is always stored as whole seconds.
+export const normalizeDuration = (value: string | undefined, inMilliseconds: boolean = false): string | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  if (trimmed.includes(':')) {
+    const parts = trimmed.split(':').map(part => parseInt(part, 10));
+    if (parts.some(part => isNaN(part))) return undefined;
+    return String(parts.reduce((total, part) => total * 60 + part, 0));
+  }
+
+  const number = parseFloat(trimmed);
+  if (isNaN(number) || number < 0) return undefined;
+  return String(Math.round(inMilliseconds ? number / 1000 : number));
+};
+
+// Turn parsed rows into one playlist per distinct PlaylistName (or a single
+// playlist named after the file when there is no such column)
+export const csvRowsToPlaylists = (rows: string[][], mapping: CsvColumnMapping, fallbackName: string): Playlist[] => {
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const durationInMs = mapping.hasHeader && mapping.duration >= 0 &&
+    /ms|millis/i.test(rows[0][mapping.duration] || '');
+
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() || '' : '');
+  const groups = new Map<string, Song[]>();
+
+  for (const row of dataRows) {
+    const title = cell(row, mapping.title);
+    const videoId = cell(row, mapping.videoId);
+    if (!title && !videoId) continue;
+
+    const song: Song = {
+      videoId,
+      title: title || videoId,
+      artist: cell(row, mapping.artist) || 'Unknown',
+    };
+
+    const album = cell(row, mapping.album);
+    if (album) song.album = album;
+
+    const duration = normalizeDuration(cell(row, mapping.duration), durationInMs);
+    if (duration) song.duration = duration;
+
+    const name = cell(row, mapping.playlistName) || fallbackName;
+    if (!groups.has(name)) {
+      groups.set(name, []);
+    }
+    groups.get(name)!.push(song);
+  }
+
+  const now = new Date().toISOString();
+  return [...groups.entries()].map(([name, songs]) => ({
+    id: '',
+    name,
+    songs,
+    created: now,
+    modified: now,
+  }));
+};
+
+export const playlistToCsv = (playlist: Playlist): string => stringifyCsv([
+  ['PlaylistName', 'MediaId', 'Title', 'Artists', 'Album', 'Duration'],
+  ...playlist.songs.map(song => [
+    playlist.name,
+    song.videoId,
+    song.title,
+    song.artist,
+    song.album || '',
+    song.duration || '',
+  ]),
+]);
@@ -0,0 +1,44 @@
+import type { Playlist } from '../types';
+import { playlistToCsv } from './csv';
+import { playlistToM3u } from './m3u';
+import { playlistToPls } from './pls';
+import { playlistToText } from './text';
+import { playlistToXspf } from './xspf';
+
+export type ExportFormat = 'm3u8' | 'json' | 'csv' | 'txt' | 'xspf' | 'pls' | 'm3u';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  description: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'm3u8', label: 'M3U8', description: 'Opens in most music players' },
+  { format: 'json', label: 'JSON', description: 'Everything this plugin stores, for backups' },
+  { format: 'csv', label: 'CSV', description: 'For spreadsheets' },
+  { format: 'txt', label: 'Text', description: 'One "Artist - Title" per line' },
+  { format: 'xspf', label: 'XSPF', description: 'XML playlist for VLC and others' },
+  { format: 'pls', label: 'PLS', description: 'Older players like Winamp' },
+];
+
+export const isExportFormat = (value: string): value is ExportFormat =>
+  ['m3u8', 'json', 'csv', 'txt', 'xspf', 'pls', 'm3u'].includes(value);
+
+export const serializePlaylist = (playlist: Playlist, format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(playlist, null, 2);
+    case 'csv':
+      return playlistToCsv(playlist);
+    case 'm3u':
+    case 'm3u8':
+      return playlistToM3u(playlist);
+    case 'txt':
+      return playlistToText(playlist);
+    case 'pls':
+      return playlistToPls(playlist);
+    case 'xspf':
+      return playlistToXspf(playlist);
+  }
+};
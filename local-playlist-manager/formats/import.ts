@@ -0,0 +1,35 @@
+import type { Playlist } from '../types';
+import { parseM3u } from './m3u';
+import { parsePls } from './pls';
+import { parseTextPlaylist } from './text';
+import { parseXspf } from './xspf';
+
+// JSON and CSV need more than a parser (repairs, column mapping, other
+// services' exports) and XML is a whole Apple Music library, the converter
+// handles those itself
+export type ImportFormat = 'json' | 'csv' | 'm3u' | 'm3u8' | 'txt' | 'pls' | 'xspf' | 'xml';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['json', 'csv', 'm3u', 'm3u8', 'txt', 'pls', 'xspf', 'xml'];
+
+export const isImportFormat = (value: string): value is ImportFormat =>
+  (IMPORT_FORMATS as string[]).includes(value);
+
+// ".M3U8" -> "m3u8"
+export const importFormatOf = (filePath: string): ImportFormat | null => {
+  const ext = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+  return filePath.includes('.') && isImportFormat(ext) ? ext : null;
+};
+
+export const parsePlaylistText = (content: string, format: Exclude<ImportFormat, 'json' | 'csv' | 'xml'>, fallbackName: string): Playlist => {
+  switch (format) {
+    case 'm3u':
+    case 'm3u8':
+      return parseM3u(content, fallbackName);
+    case 'txt':
+      return parseTextPlaylist(content, fallbackName);
+    case 'pls':
+      return parsePls(content, fallbackName);
+    case 'xspf':
+      return parseXspf(content, fallbackName);
+  }
+};
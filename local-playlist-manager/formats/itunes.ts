@@ -0,0 +1,175 @@
+import type { Playlist, Song } from '../types';
+import { decodeXml } from './xspf';
+
+// The "Library.xml" Apple Music and iTunes export through File > Library >
+// Export Library. It's a property list holding every track once, and
+// playlists that refer to tracks by ID. Playlist folders become library
+// folders.
+
+type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+const PLIST_TAG = /<(\/?)(dict|array|key|string|integer|real|date|data|true|false)\b[^>]*?(\/?)>/g;
+
+// Just enough of a property list reader for library files, which can run to
+// tens of megabytes, so no DOM
+export const parsePlist = (xml: string): PlistValue | undefined => {
+  const containers: (PlistValue[] | { [key: string]: PlistValue })[] = [];
+  // Key waiting for its value, one per open dict
+  const keys: (string | null)[] = [];
+  let root: PlistValue | undefined;
+  let textFrom = 0;
+
+  const add = (value: PlistValue) => {
+    const parent = containers[containers.length - 1];
+    if (!parent) {
+      root = value;
+    } else if (Array.isArray(parent)) {
+      parent.push(value);
+    } else {
+      const key = keys[keys.length - 1];
+      if (key !== null) parent[key] = value;
+      keys[keys.length - 1] = null;
+    }
+  };
+
+  const scalar = (tag: string, text: string): PlistValue =>
+    tag === 'integer' || tag === 'real' ? Number(text) : decodeXml(text);
+
+  for (const match of xml.matchAll(PLIST_TAG)) {
+    const [tagText, closing, tag, selfClosing] = match;
+    const start = match.index ?? 0;
+
+    if (tag === 'true' || tag === 'false') {
+      if (!closing) add(tag === 'true');
+    } else if (tag === 'dict' || tag === 'array') {
+      const empty = tag === 'dict' ? {} : [];
+      if (selfClosing) {
+        add(empty);
+      } else if (!closing) {
+        containers.push(empty);
+        keys.push(null);
+      } else if (containers.length > 0) {
+        keys.pop();
+        add(containers.pop()!);
+      }
+    } else if (selfClosing) {
+      if (tag === 'key') {
+        keys[keys.length - 1] = '';
+      } else {
+        add(scalar(tag, ''));
+      }
+    } else if (!closing) {
+      textFrom = start + tagText.length;
+    } else if (tag === 'key') {
+      keys[keys.length - 1] = decodeXml(xml.slice(textFrom, start));
+    } else {
+      add(scalar(tag, xml.slice(textFrom, start)));
+    }
+  }
+
+  return root;
+};
+
+export const isItunesLibrary = (content: string): boolean =>
+  /<plist\b/.test(content) && /<key>Tracks<\/key>/.test(content);
+
+type PlistDict = { [key: string]: PlistValue };
+
+const isDict = (value: PlistValue | undefined): value is PlistDict =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (dict: PlistDict, key: string): string | undefined => {
+  const value = dict[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+export const APPLE_LIBRARY_NAME = 'Apple Music Library';
+
+// Films, TV shows, podcasts and audiobooks share the library with the music
+const isMusic = (track: PlistDict) =>
+  !track['Movie'] && !track['TV Show'] && !track['Podcast'] && !track['Music Video'] &&
+  !/audiobook/i.test(text(track, 'Kind') ?? '');
+
+const toSong = (track: PlistDict): Song | null => {
+  const title = text(track, 'Name');
+  if (!title || !isMusic(track)) return null;
+
+  const song: Song = { videoId: '', title, artist: text(track, 'Artist') || text(track, 'Album Artist') || 'Unknown' };
+
+  const album = text(track, 'Album');
+  if (album) song.album = album;
+
+  const ms = track['Total Time'];
+  if (typeof ms === 'number' && ms > 0) song.duration = String(Math.round(ms / 1000));
+
+  if (track['Explicit'] === true) song.explicit = true;
+
+  const added = Date.parse(text(track, 'Date Added') ?? '');
+  if (!isNaN(added)) song.addedAt = new Date(added).toISOString();
+
+  return song;
+};
+
+// The whole library as one playlist, followed by the user's own playlists.
+// Built-in lists (Music, Purchased, ...) are left out, smart playlists are
+// imported with the songs they held at export time.
+export const parseItunesLibrary = (content: string): Playlist[] => {
+  const library = parsePlist(content.replace(/^﻿/, ''));
+  if (!isDict(library) || !isDict(library['Tracks'])) {
+    throw new Error('File is not an Apple Music or iTunes library');
+  }
+
+  const songs = new Map<string, Song>();
+  for (const [id, track] of Object.entries(library['Tracks'])) {
+    const song = isDict(track) ? toSong(track) : null;
+    if (song) songs.set(id, song);
+  }
+
+  const now = new Date().toISOString();
+  const playlistOf = (name: string, playlistSongs: Song[], folder?: string): Playlist => ({
+    id: '',
+    name,
+    songs: playlistSongs,
+    created: now,
+    modified: now,
+    ...(folder ? { folder } : {}),
+  });
+
+  const entries = (Array.isArray(library['Playlists']) ? library['Playlists'] : []).filter(isDict);
+
+  // Folders are playlists too, their children point at them by persistent ID
+  const byPersistentId = new Map(entries
+    .filter(entry => text(entry, 'Playlist Persistent ID'))
+    .map(entry => [text(entry, 'Playlist Persistent ID')!, entry]));
+  const folderOf = (entry: PlistDict): string => {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let parentId = text(entry, 'Parent Persistent ID');
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = byPersistentId.get(parentId);
+      if (!parent) break;
+      // "/" separates nested folders in the library
+      names.unshift((text(parent, 'Name') ?? 'Folder').replace(/\//g, '-'));
+      parentId = text(parent, 'Parent Persistent ID');
+    }
+    return names.join('/');
+  };
+
+  const playlists = [playlistOf(APPLE_LIBRARY_NAME, [...songs.values()])];
+
+  for (const entry of entries) {
+    const builtIn = entry['Master'] === true || entry['Visible'] === false || entry['Distinguished Kind'] !== undefined;
+    if (builtIn || entry['Folder'] === true) continue;
+
+    const items = Array.isArray(entry['Playlist Items']) ? entry['Playlist Items'] : [];
+    const playlistSongs = items
+      .filter(isDict)
+      .map(item => songs.get(String(item['Track ID'])))
+      .filter((song): song is Song => !!song);
+
+    playlists.push(playlistOf(text(entry, 'Name') ?? 'Apple Music Playlist', playlistSongs, folderOf(entry)));
+  }
+
+  return playlists;
+};
@@ -0,0 +1,128 @@
+import type { Playlist, Song } from '../types';
+import { extractVideoId, joinArtistTitle, splitArtistTitle, toWatchUrl } from './urls';
+
+interface EntryInfo {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: string;
+}
+
+// Plain text exports write "Artist - Title [videoId]"
+const BRACKETED_ID_PATTERN = /^(.*?)\s*\[([A-Za-z0-9_-]{11})\]$/;
+
+const oneLine = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const looksLikePath = (line: string) => /[\\/]/.test(line) || /\.[a-z0-9]{2,4}$/i.test(line);
+
+// file:// URLs are percent-encoded, plain paths can hold a literal "%"
+// ("100% Pure Love.mp3") that isn't an escape
+const decodeName = (name: string) => {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+const baseName = (line: string) => {
+  const name = line.split(/[\\/]/).pop() || line;
+  return decodeName(name.replace(/\.[a-z0-9]{2,4}$/i, ''));
+};
+
+const parseExtInf = (line: string): EntryInfo => {
+  // #EXTINF:<seconds> [key="value" ...],<Artist - Title>
+  const match = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+  if (!match) return {};
+
+  const info: EntryInfo = {};
+  const seconds = Math.round(parseFloat(match[1]));
+  if (seconds > 0) {
+    info.duration = String(seconds);
+  }
+
+  const text = match[2].trim();
+  if (text) {
+    Object.assign(info, splitArtistTitle(text));
+  }
+  return info;
+};
+
+const entryToSong = (line: string, info: EntryInfo): Song => {
+  const bracketed = line.match(BRACKETED_ID_PATTERN);
+  let videoId = '';
+  let fromLine: { artist: string; title: string } | null = null;
+
+  if (bracketed) {
+    videoId = bracketed[2];
+    fromLine = splitArtistTitle(bracketed[1]);
+  } else {
+    videoId = extractVideoId(line);
+    if (!videoId && !info.title) {
+      fromLine = splitArtistTitle(looksLikePath(line) && !/^https?:/i.test(line) ? baseName(line) : line);
+    }
+  }
+
+  const song: Song = {
+    videoId,
+    title: info.title || fromLine?.title || videoId || line,
+    artist: info.artist || fromLine?.artist || 'Unknown',
+  };
+
+  if (info.album) song.album = info.album;
+  if (info.duration) song.duration = info.duration;
+  return song;
+};
+
+// Reads extended M3U/M3U8 as well as plain lists of URLs, video IDs or
+// "Artist - Title" lines (which is all a .txt playlist is)
+export const parseM3u = (content: string, fallbackName: string): Playlist => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const songs: Song[] = [];
+  let name = fallbackName;
+  let info: EntryInfo = {};
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      if (/^#EXTINF:/i.test(line)) {
+        info = { ...info, ...parseExtInf(line) };
+      } else if (/^#PLAYLIST:/i.test(line)) {
+        name = line.slice('#PLAYLIST:'.length).trim() || name;
+      } else if (/^#EXTALB:/i.test(line)) {
+        info.album = line.slice('#EXTALB:'.length).trim();
+      } else if (/^#EXTART:/i.test(line)) {
+        info.artist = line.slice('#EXTART:'.length).trim();
+      }
+      continue;
+    }
+
+    songs.push(entryToSong(line, info));
+    info = {};
+  }
+
+  const now = new Date().toISOString();
+  return { id: '', name, songs, created: now, modified: now };
+};
+
+// Songs without a video ID get a search URL so other players still have a
+// location line and our importer keeps the #EXTINF metadata on the way back
+export const songLocation = (song: Song): string => song.videoId
+  ? toWatchUrl(song.videoId)
+  : `https://music.youtube.com/search?q=${encodeURIComponent(`${song.artist} ${song.title}`)}`;
+
+export const playlistToM3u = (playlist: Playlist): string => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${oneLine(playlist.name)}`];
+
+  for (const song of playlist.songs) {
+    lines.push(`#EXTINF:${song.duration || '-1'},${oneLine(joinArtistTitle(song.artist, song.title))}`);
+    if (song.album) {
+      lines.push(`#EXTALB:${oneLine(song.album)}`);
+    }
+    lines.push(songLocation(song));
+  }
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,61 @@
+import type { Playlist, Song } from '../types';
+import { extractVideoId, joinArtistTitle, splitArtistTitle } from './urls';
+import { songLocation } from './m3u';
+
+const oneLine = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+// PLS is an INI file: File<n>, Title<n> and Length<n> keys per entry
+export const parsePls = (content: string, fallbackName: string): Playlist => {
+  const entries = new Map<number, { file?: string; title?: string; length?: string }>();
+  let name = fallbackName;
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const line = rawLine.trim();
+    const match = line.match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+
+    if (match) {
+      const index = parseInt(match[2], 10);
+      const entry = entries.get(index) ?? {};
+      const key = match[1].toLowerCase() as 'file' | 'title' | 'length';
+      entry[key] = match[3].trim();
+      entries.set(index, entry);
+    } else if (/^X-Name\s*=/i.test(line)) {
+      name = line.slice(line.indexOf('=') + 1).trim() || name;
+    }
+  }
+
+  const songs: Song[] = [...entries.keys()]
+    .sort((a, b) => a - b)
+    .map(index => entries.get(index)!)
+    .filter(entry => entry.file || entry.title)
+    .map(entry => {
+      const videoId = extractVideoId(entry.file);
+      const { artist, title } = splitArtistTitle(entry.title || entry.file || '');
+      const song: Song = { videoId, title: title || videoId, artist };
+
+      const seconds = parseInt(entry.length || '', 10);
+      if (seconds > 0) {
+        song.duration = String(seconds);
+      }
+      return song;
+    });
+
+  const now = new Date().toISOString();
+  return { id: '', name, songs, created: now, modified: now };
+};
+
+export const playlistToPls = (playlist: Playlist): string => {
+  const lines = ['[playlist]', `X-Name=${oneLine(playlist.name)}`];
+
+  playlist.songs.forEach((song, i) => {
+    const n = i + 1;
+    lines.push(
+      `File${n}=${songLocation(song)}`,
+      `Title${n}=${oneLine(joinArtistTitle(song.artist, song.title))}`,
+      `Length${n}=${song.duration || '-1'}`
+    );
+  });
+
+  lines.push(`NumberOfEntries=${playlist.songs.length}`, 'Version=2');
+  return lines.join('\n') + '\n';
+};
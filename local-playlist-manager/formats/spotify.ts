@@ -0,0 +1,121 @@
+import type { Playlist, Song } from '../types';
+import { normalizeDuration } from './csv';
+
+// Spotify playlists as they leave Spotify: Exportify's CSV files (one per
+// playlist) and the JSON files of Spotify's account data download. Neither
+// has anything YouTube Music can play, every song needs matching.
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Exportify has renamed its ID column over the years
+export const isExportifyCsv = (header: string[]): boolean => {
+  const names = header.map(normalizeHeader);
+  return names.includes('trackname') && (names.includes('trackuri') || names.includes('spotifyid'));
+};
+
+// Exportify joins several artists with commas and escapes commas that are
+// part of a name: "Crosby\, Stills & Nash,Neil Young"
+const splitArtists = (value: string): string[] =>
+  value.split(/(?<!\\),/).map(name => name.replace(/\\,/g, ',').trim()).filter(Boolean);
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+const playlistOf = (name: string, songs: Song[]): Playlist => {
+  const now = new Date().toISOString();
+  return { id: '', name, songs, created: now, modified: now };
+};
+
+export const parseExportifyCsv = (rows: string[][], fallbackName: string): Playlist => {
+  const names = rows[0].map(normalizeHeader);
+  const column = (...candidates: string[]) => names.findIndex(name => candidates.includes(name));
+  const columns = {
+    title: column('trackname'),
+    artists: column('artistnames', 'artistname'),
+    album: column('albumname'),
+    duration: column('durationms', 'trackdurationms'),
+    explicit: column('explicit'),
+    addedAt: column('addedat'),
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() || '' : '');
+
+  const songs = rows.slice(1).flatMap((row): Song[] => {
+    const title = cell(row, columns.title);
+    // Podcast episodes and local files come through without a name
+    if (!title) return [];
+
+    const artists = splitArtists(cell(row, columns.artists));
+    const song: Song = {
+      videoId: '',
+      title,
+      artist: artists.join(', ') || 'Unknown',
+    };
+    if (artists.length > 1) song.artists = artists;
+
+    const album = cell(row, columns.album);
+    if (album) song.album = album;
+
+    const duration = normalizeDuration(cell(row, columns.duration), true);
+    if (duration && duration !== '0') song.duration = duration;
+
+    if (cell(row, columns.explicit).toLowerCase() === 'true') song.explicit = true;
+
+    const addedAt = toIsoDate(cell(row, columns.addedAt));
+    if (addedAt) song.addedAt = addedAt;
+
+    return [song];
+  });
+
+  return playlistOf(fallbackName, songs);
+};
+
+interface SpotifyPlaylistItem {
+  track?: { trackName?: string; artistName?: string; albumName?: string } | null;
+  addedDate?: string;
+}
+
+interface SpotifyAccountData {
+  // Playlist1.json, Playlist2.json, ...
+  playlists?: { name?: string; items?: SpotifyPlaylistItem[] }[];
+  // YourLibrary.json, the liked songs
+  tracks?: { artist?: string; album?: string; track?: string }[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isSpotifyAccountData = (data: unknown): data is SpotifyAccountData =>
+  isObject(data) && (Array.isArray(data.playlists) || Array.isArray(data.tracks)) && !Array.isArray(data.songs);
+
+const spotifySong = (title: string | undefined, artist: string | undefined, album: string | undefined, addedAt?: string): Song[] => {
+  if (!title?.trim()) return [];
+
+  const song: Song = { videoId: '', title: title.trim(), artist: artist?.trim() || 'Unknown' };
+  if (album?.trim()) song.album = album.trim();
+  const added = toIsoDate(addedAt);
+  if (added) song.addedAt = added;
+  return [song];
+};
+
+export const LIKED_SONGS_NAME = 'Spotify Liked Songs';
+
+// Everything in one account data file: its playlists, or the liked songs
+export const parseSpotifyAccountData = (data: SpotifyAccountData, fallbackName: string): Playlist[] => {
+  const playlists = (data.playlists ?? []).map((playlist, index) => playlistOf(
+    playlist.name?.trim() || `${fallbackName} ${index + 1}`,
+    // Episodes, audiobooks and local files have no track
+    (playlist.items ?? []).flatMap(item =>
+      spotifySong(item.track?.trackName, item.track?.artistName, item.track?.albumName, item.addedDate))
+  ));
+
+  if (data.tracks && data.tracks.length > 0) {
+    playlists.push(playlistOf(
+      LIKED_SONGS_NAME,
+      data.tracks.flatMap(track => spotifySong(track.track, track.artist, track.album))
+    ));
+  }
+
+  return playlists;
+};
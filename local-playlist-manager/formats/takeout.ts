@@ -0,0 +1,103 @@
+import type { Playlist, Song } from '../types';
+
+// Google Takeout's YouTube and YouTube Music export. The library songs file
+// ("music library songs.csv") has the details of every saved song, while
+// each playlist CSV only lists video IDs. Older exports start playlist files
+// with a block of playlist metadata before the video list.
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const TAKEOUT_LIBRARY_NAME = 'YouTube Music Library';
+
+export const isTakeoutLibrarySongs = (header: string[]): boolean => {
+  const names = header.map(normalizeHeader);
+  return names.includes('videoid') && names.includes('songtitle');
+};
+
+export const parseTakeoutLibrarySongs = (rows: string[][]): Song[] => {
+  const names = rows[0].map(normalizeHeader);
+  const videoId = names.indexOf('videoid');
+  const title = names.indexOf('songtitle');
+  const album = names.indexOf('albumtitle');
+  // "Artist Name 1", "Artist Name 2", ... one column per artist
+  const artistColumns = names
+    .map((name, index) => (/^artistnames?\d*$/.test(name) ? index : -1))
+    .filter(index => index >= 0);
+
+  return rows.slice(1).flatMap((row): Song[] => {
+    const id = row[videoId]?.trim();
+    if (!id) return [];
+
+    const artists = artistColumns.map(index => row[index]?.trim()).filter((name): name is string => !!name);
+    const song: Song = {
+      videoId: id,
+      title: row[title]?.trim() || id,
+      artist: artists.join(', ') || 'Unknown',
+    };
+    if (artists.length > 1) song.artists = artists;
+    if (album >= 0 && row[album]?.trim()) song.album = row[album].trim();
+    return [song];
+  });
+};
+
+export const parseTakeoutLibrary = (rows: string[][]): Playlist => {
+  const now = new Date().toISOString();
+  return { id: '', name: TAKEOUT_LIBRARY_NAME, songs: parseTakeoutLibrarySongs(rows), created: now, modified: now };
+};
+
+// Row holding the header of the video list, -1 when this isn't a Takeout
+// playlist
+export const takeoutPlaylistStart = (rows: string[][]): number =>
+  rows.findIndex(row => {
+    const names = row.map(normalizeHeader);
+    return names[0] === 'videoid' &&
+      (names.includes('timeadded') || names.includes('playlistvideocreationtimestamp'));
+  });
+
+// playlists.csv in newer exports lists the playlists themselves, their
+// songs are in a file per playlist
+export const isTakeoutPlaylistList = (header: string[]): boolean => {
+  const names = header.map(normalizeHeader);
+  return names.includes('playlistid') && !names.includes('videoid');
+};
+
+// "Road Trip-videos" -> "Road Trip"
+const takeoutName = (fallbackName: string) => fallbackName.replace(/[-\s]videos$/i, '').trim() || fallbackName;
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// Songs missing from knownSongs keep their video ID as the title until the
+// app fills in the details on first play
+export const parseTakeoutPlaylist = (
+  rows: string[][],
+  fallbackName: string,
+  knownSongs: Map<string, Song> = new Map()
+): Playlist => {
+  const start = takeoutPlaylistStart(rows);
+  const header = rows[start].map(normalizeHeader);
+  const addedAt = header.findIndex(name => name === 'timeadded' || name === 'playlistvideocreationtimestamp');
+
+  // Older exports: "Playlist Id,...,Title,..." and its values above the list
+  let name = takeoutName(fallbackName);
+  if (start >= 2) {
+    const titleColumn = rows[0].map(normalizeHeader).indexOf('title');
+    name = rows[1][titleColumn]?.trim() || name;
+  }
+
+  const songs = rows.slice(start + 1).flatMap((row): Song[] => {
+    const videoId = row[0]?.trim();
+    if (!videoId) return [];
+
+    const known = knownSongs.get(videoId);
+    const song: Song = known ? { ...known } : { videoId, title: videoId, artist: 'Unknown' };
+    const added = toIsoDate(row[addedAt]);
+    if (added) song.addedAt = added;
+    return [song];
+  });
+
+  const now = new Date().toISOString();
+  return { id: '', name, songs, created: now, modified: now };
+};
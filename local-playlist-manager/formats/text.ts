@@ -0,0 +1,12 @@
+import type { Playlist } from '../types';
+import { parseM3u } from './m3u';
+import { joinArtistTitle } from './urls';
+
+// A text playlist is an M3U without directives, so the M3U reader handles
+// "Artist - Title", "Artist - Title [videoId]", bare IDs and URLs
+export const parseTextPlaylist = (content: string, fallbackName: string): Playlist =>
+  parseM3u(content, fallbackName);
+
+export const playlistToText = (playlist: Playlist): string => playlist.songs
+  .map(song => `${joinArtistTitle(song.artist, song.title)}${song.videoId ? ` [${song.videoId}]` : ''}`)
+  .join('\n') + '\n';
@@ -0,0 +1,54 @@
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+const YOUTUBE_HOSTS = ['music.youtube.com', 'youtube.com', 'www.youtube.com', 'm.youtube.com'];
+
+// The one check for video IDs, shared by imports, artwork and the image cache
+export const isVideoId = (value: unknown): value is string =>
+  typeof value === 'string' && VIDEO_ID_PATTERN.test(value);
+
+// Accepts a bare video ID or any of the YouTube / YouTube Music URL shapes
+// people paste around: watch?v=, youtu.be/, /shorts/, /embed/ and /v/
+export const extractVideoId = (value: string | undefined | null): string => {
+  const trimmed = value?.trim();
+  if (!trimmed) return '';
+  if (isVideoId(trimmed)) return trimmed;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return '';
+  }
+
+  const host = url.hostname.toLowerCase();
+  let candidate: string | null = null;
+
+  if (host === 'youtu.be') {
+    candidate = url.pathname.split('/')[1];
+  } else if (YOUTUBE_HOSTS.includes(host)) {
+    candidate = url.searchParams.get('v');
+    if (!candidate) {
+      const match = url.pathname.match(/^\/(?:shorts|embed|v|live)\/([^/?#]+)/);
+      candidate = match ? match[1] : null;
+    }
+  }
+
+  return candidate && isVideoId(candidate) ? candidate : '';
+};
+
+export const toWatchUrl = (videoId: string): string => `https://music.youtube.com/watch?v=${videoId}`;
+
+// "Artist - Title" as used by #EXTINF, PLS titles and plain text exports
+export const splitArtistTitle = (text: string): { artist: string; title: string } => {
+  const separator = text.indexOf(' - ');
+  if (separator < 0) {
+    return { artist: 'Unknown', title: text.trim() };
+  }
+  return {
+    artist: text.slice(0, separator).trim() || 'Unknown',
+    title: text.slice(separator + 3).trim(),
+  };
+};
+
+export const joinArtistTitle = (artist: string, title: string): string =>
+  artist && artist !== 'Unknown' ? `${artist} - ${title}` : title;
@@ -0,0 +1,104 @@
+import type { Playlist, Song } from '../types';
+import { extractVideoId, toWatchUrl } from './urls';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+};
+
+export const decodeXml = (value: string): string => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      if (isNaN(point)) return entity;
+      // Beyond Unicode. One broken reference shouldn't fail the whole file.
+      return point <= 0x10ffff ? String.fromCodePoint(point) : '\ufffd';
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  })
+  .trim();
+
+export const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// XSPF is small and flat enough that reading the few elements we need with
+// patterns is simpler than pulling an XML parser into the main process
+const readElement = (xml: string, tag: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXml(match[1]) : undefined;
+};
+
+const readElements = (xml: string, tag: string): string[] =>
+  [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi'))].map(match => decodeXml(match[1]));
+
+export const parseXspf = (content: string, fallbackName: string): Playlist => {
+  const trackList = readElement(content.replace(/^\uFEFF/, ''), 'trackList') ?? '';
+  const header = content.split(/<trackList/i)[0];
+
+  const songs: Song[] = [...trackList.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi)].map(([, track]) => {
+    const videoId = [...readElements(track, 'location'), ...readElements(track, 'identifier')]
+      .map(extractVideoId)
+      .find(Boolean) || '';
+
+    const song: Song = {
+      videoId,
+      title: readElement(track, 'title') || videoId,
+      artist: readElement(track, 'creator') || 'Unknown',
+    };
+
+    const album = readElement(track, 'album');
+    if (album) song.album = album;
+
+    // XSPF durations are in milliseconds
+    const ms = parseInt(readElement(track, 'duration') || '', 10);
+    if (ms > 0) song.duration = String(Math.round(ms / 1000));
+
+    return song;
+  });
+
+  const now = new Date().toISOString();
+  return {
+    id: '',
+    name: readElement(header, 'title') || fallbackName,
+    songs,
+    created: now,
+    modified: now,
+  };
+};
+
+export const playlistToXspf = (playlist: Playlist): string => {
+  const tracks = playlist.songs.map(song => {
+    const fields = [
+      song.videoId ? `      <location>${escapeXml(toWatchUrl(song.videoId))}</location>` : '',
+      song.videoId ? `      <identifier>${escapeXml(song.videoId)}</identifier>` : '',
+      `      <title>${escapeXml(song.title)}</title>`,
+      `      <creator>${escapeXml(song.artist)}</creator>`,
+      song.album ? `      <album>${escapeXml(song.album)}</album>` : '',
+      song.duration && parseInt(song.duration) > 0
+        ? `      <duration>${parseInt(song.duration) * 1000}</duration>`
+        : '',
+    ].filter(Boolean);
+
+    return `    <track>\n${fields.join('\n')}\n    </track>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.name)}</title>`,
+    `  <date>${escapeXml(playlist.modified || new Date().toISOString())}</date>`,
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,167 @@
+import { createElement } from './dom';
+import { showConfirmDialog } from './dialogs';
+import type { PlaylistIssues, QuarantinedFile, SyncConflict, SyncConflictResolution } from './storage';
+
+type ActionResult = { success: boolean; message: string };
+
+export interface LibraryHealth {
+  quarantined: QuarantinedFile[];
+  issues: PlaylistIssues[];
+  conflicts: SyncConflict[];
+}
+
+export interface HealthDialogRequest {
+  health: LibraryHealth;
+  repairPlaylist: (id: string) => Promise<ActionResult>;
+  repairFile: (file: string) => Promise<ActionResult>;
+  deleteFile: (file: string) => Promise<ActionResult>;
+  resolveConflict: (file: string, resolution: SyncConflictResolution) => Promise<ActionResult>;
+}
+
+export const describeHealth = (health: LibraryHealth): string => {
+  const parts: string[] = [];
+  if (health.quarantined.length > 0) {
+    parts.push(`${health.quarantined.length} playlist ${health.quarantined.length === 1 ? 'file' : 'files'} could not be loaded and ${health.quarantined.length === 1 ? 'was' : 'were'} set aside`);
+  }
+  if (health.issues.length > 0) {
+    parts.push(`${health.issues.length} ${health.issues.length === 1 ? 'playlist has' : 'playlists have'} problems that can be repaired`);
+  }
+  if (health.conflicts.length > 0) {
+    parts.push(`${health.conflicts.length} ${health.conflicts.length === 1 ? 'playlist has a conflicting copy' : 'playlists have conflicting copies'} from a sync service`);
+  }
+  return parts.join(', ');
+};
+
+// List broken files, playlists with fixable problems and sync conflict
+// copies, with actions to sort each out. Resolves with true when anything changed.
+export const showHealthDialog = (request: HealthDialogRequest): Promise<boolean> =>
+  new Promise(resolve => {
+    const { health } = request;
+    let changed = false;
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog health-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Playlist problems');
+
+    const status = createElement('p', 'trash-status');
+    status.setAttribute('role', 'status');
+
+    const addRow = (
+      list: HTMLElement,
+      title: string,
+      problems: string[],
+      actions: { label: string; className: string; run: () => Promise<ActionResult>; confirmText?: string }[]
+    ) => {
+      const row = createElement('div', 'trash-item health-item');
+      const info = createElement('div', 'trash-item-info');
+      info.append(createElement('span', 'trash-item-name', title));
+
+      const details = createElement('ul', 'health-problems');
+      for (const problem of problems.slice(0, 5)) {
+        details.append(createElement('li', undefined, problem));
+      }
+      if (problems.length > 5) {
+        details.append(createElement('li', undefined, `and ${problems.length - 5} more`));
+      }
+      info.append(details);
+      row.append(info);
+
+      const buttons = actions.map(action => {
+        const button = createElement('button', action.className, action.label);
+        button.addEventListener('click', async () => {
+          if (action.confirmText && !await showConfirmDialog({
+            title: action.label,
+            message: action.confirmText,
+            confirmLabel: action.label,
+            danger: action.className.includes('danger'),
+          })) return;
+
+          buttons.forEach(other => other.disabled = true);
+          const result = await action.run();
+          status.textContent = result.message;
+
+          if (result.success) {
+            changed = true;
+            row.remove();
+          } else {
+            buttons.forEach(other => other.disabled = false);
+          }
+        });
+        return button;
+      });
+      row.append(...buttons);
+      list.append(row);
+    };
+
+    dialog.append(
+      createElement('h2', undefined, 'Playlist problems'),
+      createElement('p', 'lpm-dialog-hint', describeHealth(health) || 'No problems found.')
+    );
+
+    if (health.quarantined.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const entry of health.quarantined) {
+        addRow(list, entry.file, entry.errors, [
+          { label: 'Repair', className: 'action-btn', run: () => request.repairFile(entry.file) },
+          {
+            label: 'Delete',
+            className: 'action-btn danger',
+            run: () => request.deleteFile(entry.file),
+            confirmText: `Permanently delete ${entry.file}? This cannot be undone.`,
+          },
+        ]);
+      }
+      dialog.append(createElement('h3', 'health-section', 'Files that could not be loaded'), list);
+    }
+
+    if (health.issues.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const entry of health.issues) {
+        addRow(list, entry.name, entry.warnings, [
+          { label: 'Repair', className: 'action-btn', run: () => request.repairPlaylist(entry.id) },
+        ]);
+      }
+      dialog.append(createElement('h3', 'health-section', 'Playlists with problems'), list);
+    }
+
+    if (health.conflicts.length > 0) {
+      const list = createElement('div', 'trash-list');
+      for (const entry of health.conflicts) {
+        const problems = [
+          entry.originalName
+            ? `Conflicts with "${entry.originalName}"`
+            : 'The playlist it was copied from is no longer in the library',
+          `${entry.songCount} songs, changed ${new Date(entry.modified).toLocaleString()}`,
+          ...entry.errors,
+        ];
+        // Without the original there is nothing to replace or discard against
+        addRow(list, entry.file, problems, [
+          { label: 'Keep both', className: 'action-btn', run: () => request.resolveConflict(entry.file, 'keep-both') },
+          ...(entry.originalId ? [
+            { label: 'Use this copy', className: 'action-btn', run: () => request.resolveConflict(entry.file, 'use-copy') },
+            {
+              label: 'Discard copy',
+              className: 'action-btn danger',
+              run: () => request.resolveConflict(entry.file, 'discard'),
+              confirmText: `Discard ${entry.file}? It will still be available in the history of "${entry.originalName}".`,
+            },
+          ] : []),
+        ]);
+      }
+      dialog.append(createElement('h3', 'health-section', 'Sync conflicts'), list);
+    }
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const closeBtn = createElement('button', 'action-btn', 'Close');
+    actions.append(closeBtn);
+
+    dialog.append(status, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    closeBtn.addEventListener('click', () => {
+      overlay.remove();
+      resolve(changed);
+    });
+  });
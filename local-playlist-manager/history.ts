@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import { stringifyCsv } from './formats/csv';
+
+export type PlayStatus = 'played' | 'skipped';
+
+export interface HistoryEntry {
+  videoId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  startedAt: string;
+  endedAt: string;
+  playedSeconds: number;
+  status: PlayStatus;
+  // Local playlist the song was queued from, if any
+  playlistId?: string;
+  // Artwork shown by the player while the song played
+  thumbnail?: string;
+}
+
+export interface SongPlayStats {
+  plays: number;
+  skips: number;
+  lastPlayed: string;
+}
+
+export type StatsPeriod = 'week' | 'month' | 'year' | 'all';
+
+export interface HistoryStats {
+  period: StatsPeriod;
+  totalPlays: number;
+  totalSeconds: number;
+  topTracks: { videoId: string; title: string; artist: string; plays: number }[];
+  topArtists: { artist: string; plays: number }[];
+}
+
+const PERIOD_DAYS: Record<StatsPeriod, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+  all: Infinity,
+};
+
+const TOP_LIMIT = 25;
+
+// Listening history is an append-only JSON Lines file, one entry per play,
+// so recording never has to rewrite what's already there
+export const createHistoryStore = (filePath: string) => {
+  const record = (entry: HistoryEntry) => {
+    fs.appendFileSync(filePath, JSON.stringify(entry) + '\n', 'utf-8');
+  };
+
+  const list = (since?: number): HistoryEntry[] => {
+    if (!fs.existsSync(filePath)) return [];
+
+    const entries: HistoryEntry[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: HistoryEntry = JSON.parse(line);
+        if (!since || Date.parse(entry.startedAt) >= since) {
+          entries.push(entry);
+        }
+      } catch {
+        // A partially written last line shouldn't hide the rest of the history
+      }
+    }
+    return entries;
+  };
+
+  const getSongStats = (): Record<string, SongPlayStats> => {
+    const stats: Record<string, SongPlayStats> = {};
+
+    for (const entry of list()) {
+      const song = stats[entry.videoId] ?? { plays: 0, skips: 0, lastPlayed: entry.startedAt };
+      if (entry.status === 'played') {
+        song.plays++;
+      } else {
+        song.skips++;
+      }
+      if (entry.startedAt > song.lastPlayed) {
+        song.lastPlayed = entry.startedAt;
+      }
+      stats[entry.videoId] = song;
+    }
+
+    return stats;
+  };
+
+  const getStats = (period: StatsPeriod = 'month'): HistoryStats => {
+    const days = PERIOD_DAYS[period] ?? PERIOD_DAYS.month;
+    const since = days === Infinity ? undefined : Date.now() - days * 24 * 60 * 60 * 1000;
+    const played = list(since).filter(entry => entry.status === 'played');
+
+    const tracks = new Map<string, HistoryStats['topTracks'][number]>();
+    const artists = new Map<string, number>();
+    let totalSeconds = 0;
+
+    for (const entry of played) {
+      totalSeconds += entry.playedSeconds;
+
+      const track = tracks.get(entry.videoId) ?? { videoId: entry.videoId, title: entry.title, artist: entry.artist, plays: 0 };
+      track.plays++;
+      tracks.set(entry.videoId, track);
+
+      artists.set(entry.artist, (artists.get(entry.artist) ?? 0) + 1);
+    }
+
+    return {
+      period,
+      totalPlays: played.length,
+      totalSeconds: Math.round(totalSeconds),
+      topTracks: [...tracks.values()].sort((a, b) => b.plays - a.plays).slice(0, TOP_LIMIT),
+      topArtists: [...artists.entries()]
+        .map(([artist, plays]) => ({ artist, plays }))
+        .sort((a, b) => b.plays - a.plays)
+        .slice(0, TOP_LIMIT),
+    };
+  };
+
+  const serialize = (format: 'json' | 'csv'): string => {
+    const entries = list();
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+    return stringifyCsv([
+      ['StartedAt', 'EndedAt', 'MediaId', 'Title', 'Artists', 'Album', 'PlayedSeconds', 'Status', 'PlaylistId'],
+      ...entries.map(entry => [
+        entry.startedAt,
+        entry.endedAt,
+        entry.videoId,
+        entry.title,
+        entry.artist,
+        entry.album || '',
+        String(Math.round(entry.playedSeconds)),
+        entry.status,
+        entry.playlistId || '',
+      ]),
+    ]);
+  };
+
+  return { record, list, getSongStats, getStats, serialize };
+};
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
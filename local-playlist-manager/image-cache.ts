@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './backups';
+import { songThumbnailUrl } from './artwork';
+import { isVideoId } from './formats/urls';
+import type { Song } from './types';
+
+const THUMBNAILS_DIR = '.thumbnails';
+const COVERS_DIR = '.covers';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export const COVER_EXTENSIONS = Object.keys(MIME_TYPES).map(ext => ext.slice(1));
+
+// Covers are shown small, anything bigger than this is a mistake
+const MAX_COVER_BYTES = 10 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+
+const toDataUrl = (filePath: string): string | null => {
+  const mime = MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mime || !fs.existsSync(filePath)) return null;
+  return `data:${mime};base64,${fs.readFileSync(filePath).toString('base64')}`;
+};
+
+// Artwork kept next to the playlists, so covers still show offline and move
+// along with the library folder. Song thumbnails are downloaded once per
+// video, custom covers are copied in when the user picks them.
+export const createImageCache = (playlistsDir: string) => {
+  const thumbnailsDir = path.join(playlistsDir, THUMBNAILS_DIR);
+  const coversDir = path.join(playlistsDir, COVERS_DIR);
+
+  // Several cards often ask for the same video at once
+  const downloads = new Map<string, Promise<string | null>>();
+
+  const thumbnailPath = (videoId: string) => path.join(thumbnailsDir, `${videoId}.jpg`);
+
+  const download = async (videoId: string, url: string): Promise<string | null> => {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+      const type = response.headers.get('content-type') || '';
+      if (!response.ok || !type.startsWith('image/')) return null;
+
+      const data = Buffer.from(await response.arrayBuffer());
+      if (data.length === 0 || data.length > MAX_THUMBNAIL_BYTES) return null;
+
+      fs.mkdirSync(thumbnailsDir, { recursive: true });
+      const filePath = thumbnailPath(videoId);
+      writeFileAtomic(filePath, data);
+      return filePath;
+    } catch (error) {
+      // Offline or blocked, the card keeps its placeholder
+      console.error(`Local Playlists: Could not download artwork for ${videoId}:`, error);
+      return null;
+    }
+  };
+
+  // Path of the cached thumbnail, downloading it first when needed
+  const cacheThumbnail = (song: Pick<Song, 'videoId' | 'thumbnail'>): Promise<string | null> => {
+    if (!isVideoId(song.videoId)) return Promise.resolve(null);
+
+    const filePath = thumbnailPath(song.videoId);
+    if (fs.existsSync(filePath)) return Promise.resolve(filePath);
+
+    const url = songThumbnailUrl(song);
+    if (!url) return Promise.resolve(null);
+
+    let pending = downloads.get(song.videoId);
+    if (!pending) {
+      pending = download(song.videoId, url).finally(() => downloads.delete(song.videoId));
+      downloads.set(song.videoId, pending);
+    }
+    return pending;
+  };
+
+  const getThumbnail = async (song: Pick<Song, 'videoId' | 'thumbnail'>): Promise<string | null> => {
+    const filePath = await cacheThumbnail(song);
+    return filePath ? toDataUrl(filePath) : null;
+  };
+
+  // Copy an image into the library as the playlist's cover. Returns the
+  // file name to store on the playlist.
+  const saveCover = (playlistId: string, sourcePath: string): string => {
+    const ext = path.extname(sourcePath).toLowerCase();
+    if (!MIME_TYPES[ext]) {
+      throw new Error(`Unsupported image type, use ${COVER_EXTENSIONS.join(', ')}`);
+    }
+    if (fs.statSync(sourcePath).size > MAX_COVER_BYTES) {
+      throw new Error('Image is too large, pick one under 10 MB');
+    }
+
+    fs.mkdirSync(coversDir, { recursive: true });
+    // A new name every time, so a cover synced from elsewhere never
+    // silently shows the old image
+    const file = `${playlistId}-${Date.now()}${ext}`;
+    writeFileAtomic(path.join(coversDir, file), fs.readFileSync(sourcePath));
+    return file;
+  };
+
+  // Covers of playlists in read-only folders live in that folder
+  const getCover = (file: string, libraryDir: string = playlistsDir): string | null => {
+    if (path.basename(file) !== file) return null;
+    return toDataUrl(path.join(libraryDir, COVERS_DIR, file));
+  };
+
+  const removeCover = (file: string) => {
+    if (path.basename(file) !== file) return;
+    fs.rmSync(path.join(coversDir, file), { force: true });
+  };
+
+  return { cacheThumbnail, getThumbnail, saveCover, getCover, removeCover };
+};
+
+export type ImageCache = ReturnType<typeof createImageCache>;
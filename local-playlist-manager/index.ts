@@ -1,23 +1,125 @@
 import { createPlugin } from '@/utils';
 import style from './style.css?inline';
-import { ipcMain, dialog } from 'electron';
+import { ipcMain, clipboard, dialog, globalShortcut, shell } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface Song {
-  videoId: string;
-  title: string;
-  artist: string;
-  album?: string;
-  duration?: string;
+import { randomUUID } from 'crypto';
+import { createQueueService } from './queue';
+import { createPlaylistStore } from './storage';
+import type { PlaylistOrganization, PlaylistStore, StoreResult, SyncConflictResolution } from './storage';
+import { createBackupStore } from './backups';
+import type { BackupStore } from './backups';
+import { createLibraryIndex } from './library-index';
+import { createApiServer, createApiToken, DEFAULT_API_PORT } from './api-server';
+import type { ApiLibrary, ApiServer } from './api-server';
+import { COVER_EXTENSIONS, createImageCache } from './image-cache';
+import type { ImageCache } from './image-cache';
+import { coverSongs } from './artwork';
+import type { PlaylistCover } from './artwork';
+import type { LibraryChange, LibraryIndex } from './library-index';
+import { fileBaseName, parsePlaylistContent, readLibraryFolder } from './converter';
+import type { CsvColumnMapping } from './formats/csv';
+import { IMPORT_FORMATS, importFormatOf } from './formats/import';
+import type { ImportFormat } from './formats/import';
+import { isExportFormat, serializePlaylist } from './formats/export';
+import { addSong, createEditHistory, moveSong, removeSongs } from './playlist-editor';
+import { createAddToPlaylistMenu } from './context-menu';
+import { showCsvMappingDialog } from './csv-mapping';
+import type { CsvMappingRequest } from './csv-mapping';
+import { applyMatches, createMatcher } from './matcher';
+import type { MatchCandidate, MatchResult } from './matcher';
+import { createYouTubeMusicAvailabilityLookup, createYouTubeMusicSearchBackend } from './ytmusic-search';
+import { applyAvailability, createAvailabilityChecker, describeAvailability, replaceVideo } from './availability';
+import { showMatchReviewDialog } from './match-review';
+import { evaluateSmartPlaylists, usesPlayHistory } from './smart-playlists';
+import { showSmartPlaylistEditor } from './smart-playlist-editor';
+import { createHistoryStore } from './history';
+import type { HistoryEntry, SongPlayStats, StatsPeriod } from './history';
+import { createPlaybackTracker } from './playback-tracker';
+import { readCurrentSong, readQueueSongs } from './now-playing';
+import { filterPlaylists, highlightParts, isUnavailable, searchLibrary, sortPlaylists } from './library-search';
+import { showVersionHistoryDialog } from './version-history';
+import { showTrashDialog } from './trash-dialog';
+import { showConflictDialog } from './conflict-dialog';
+import { describeHealth, showHealthDialog } from './health-dialog';
+import type { LibraryHealth } from './health-dialog';
+import { findDuplicates, findLibraryDuplicates } from './duplicates';
+import { showDuplicatesDialog, showLibraryDuplicatesDialog } from './duplicates-dialog';
+import { showCompareDialog } from './compare-dialog';
+import { combinedPlaylistName, combineSongs } from './playlist-sets';
+import {
+  buildFolderTree,
+  countFolderPlaylists,
+  folderName,
+  groupByTag,
+  isInFolder,
+  libraryFolders,
+  libraryTags,
+  normalizeFolder,
+  parentFolder,
+  pinnedFirst,
+} from './library-folders';
+import type { FolderNode, PlaylistGrouping } from './library-folders';
+import { showOrganizeDialog } from './organize-dialog';
+import { html, setHtml } from './dom';
+import { playlistCardHtml, playlistDetailInfoHtml, songItemHtml } from './page-templates';
+import { createRouter } from './router';
+import type { LocalRoute, Router } from './router';
+import { createResolutionQueue } from './resolution-queue';
+import type { ResolutionProgress, ResolutionQueue } from './resolution-queue';
+import {
+  showConfirmDialog,
+  showExportFormatDialog,
+  showNameDialog,
+  showPlaylistPicker,
+  showResult,
+  showShortcutsDialog,
+  showToast,
+} from './dialogs';
+import { enableRovingFocus, focusItem, makeActivatable, rememberFocus, shortcutKey, SHORTCUTS } from './keyboard';
+import type { PlaylistFilter, PlaylistSort } from './library-search';
+import type { Playlist, Song } from './types';
+
+export interface LocalPlaylistManagerConfig {
+  enabled: boolean;
+  // Writable library folder, empty for the default one in the app's data folder
+  playlistsDir: string;
+  // Extra folders (e.g. shared through a sync service) whose playlists are
+  // shown alongside the library but never changed
+  readOnlyDirs: string[];
+  // Local HTTP API for scripts, see api-server.ts
+  apiEnabled: boolean;
+  apiPort: number;
+  apiToken: string;
+  // System-wide accelerator that adds the playing song to a local
+  // playlist, empty when off
+  addSongShortcut: string;
 }
 
-interface Playlist {
-  name: string;
-  songs: Song[];
-  created: string;
-  modified: string;
-}
+// Three modifiers, so they're unlikely to be taken by another app
+const ADD_SONG_SHORTCUTS = ['CommandOrControl+Alt+Shift+L', 'CommandOrControl+Alt+Shift+A', 'CommandOrControl+Alt+Shift+S'];
+
+const defaultPlaylistsDir = () => path.join(require('electron').app.getPath('userData'), 'local-playlists');
+
+// Drag payloads for moving playlists and folders around the library grid
+// and the sidebar
+const PLAYLIST_DRAG_TYPE = 'application/x-local-playlist';
+const FOLDER_DRAG_TYPE = 'application/x-local-playlist-folder';
+
+let libraryIndex: ReturnType<typeof createLibraryIndex> | null = null;
+// Set while the backend runs, re-opens the library when the folders change
+let reopenLibrary: ((config: LocalPlaylistManagerConfig) => void) | null = null;
+// Set while the backend runs, starts or stops the API to match the config
+let configureApi: ((config: LocalPlaylistManagerConfig) => Promise<void>) | null = null;
+// Set while the backend runs, registers the add-song shortcut from the config
+let configureShortcut: ((config: LocalPlaylistManagerConfig) => void) | null = null;
+let registeredShortcut = '';
+let apiServer: ApiServer | null = null;
+let addToPlaylistMenu: ReturnType<typeof createAddToPlaylistMenu> | null = null;
+let playbackTracker: ReturnType<typeof createPlaybackTracker> | null = null;
+let artworkObserver: IntersectionObserver | null = null;
+let router: Router | null = null;
+let resolutionQueue: ResolutionQueue | null = null;
 
 export default createPlugin({
   name: 'Local Playlist Manager',
@@ -25,732 +127,3063 @@ export default createPlugin({
   config: {
     enabled: false,
     playlistsDir: '',
-  },
+    readOnlyDirs: [],
+    apiEnabled: false,
+    apiPort: DEFAULT_API_PORT,
+    apiToken: '',
+    addSongShortcut: ADD_SONG_SHORTCUTS[0],
+  } as LocalPlaylistManagerConfig,
   stylesheets: [style],
-  
+
+  menu: async ({ getConfig, setConfig, window }) => {
+    const config: LocalPlaylistManagerConfig = await getConfig();
+    const playlistsDir = config.playlistsDir || defaultPlaylistsDir();
+    const readOnlyDirs = config.readOnlyDirs ?? [];
+    const apiUrl = `http://127.0.0.1:${config.apiPort || DEFAULT_API_PORT}`;
+
+    const chooseFolder = async (title: string) => {
+      const result = await dialog.showOpenDialog(window, {
+        title,
+        properties: ['openDirectory', 'createDirectory']
+      });
+      return result.canceled ? null : result.filePaths[0] ?? null;
+    };
+
+    return [
+      {
+        label: 'Library folder',
+        submenu: [
+          { label: playlistsDir, enabled: false },
+          { type: 'separator' },
+          {
+            label: 'Choose folder...',
+            async click() {
+              const dir = await chooseFolder('Choose the library folder');
+              if (dir) {
+                setConfig({ playlistsDir: dir });
+              }
+            }
+          },
+          {
+            label: 'Use default folder',
+            enabled: !!config.playlistsDir,
+            click() {
+              setConfig({ playlistsDir: '' });
+            }
+          },
+          {
+            label: 'Open in file manager',
+            click() {
+              shell.openPath(playlistsDir);
+            }
+          }
+        ]
+      },
+      {
+        label: 'Read-only folders',
+        submenu: [
+          ...readOnlyDirs.map(dir => ({
+            label: dir,
+            submenu: [
+              {
+                label: 'Open in file manager',
+                click() {
+                  shell.openPath(dir);
+                }
+              },
+              {
+                label: 'Remove',
+                click() {
+                  setConfig({ readOnlyDirs: readOnlyDirs.filter(other => other !== dir) });
+                }
+              }
+            ]
+          })),
+          ...(readOnlyDirs.length > 0 ? [{ type: 'separator' as const }] : []),
+          {
+            label: 'Add folder...',
+            async click() {
+              const dir = await chooseFolder('Add a read-only playlists folder');
+              if (dir && !readOnlyDirs.includes(dir)) {
+                setConfig({ readOnlyDirs: [...readOnlyDirs, dir] });
+              }
+            }
+          }
+        ]
+      },
+      {
+        label: 'Scripting API',
+        submenu: [
+          {
+            label: 'Enabled',
+            type: 'checkbox',
+            checked: config.apiEnabled,
+            click() {
+              setConfig({ apiEnabled: !config.apiEnabled, apiToken: config.apiToken || createApiToken() });
+            }
+          },
+          { label: apiUrl, enabled: false },
+          { type: 'separator' },
+          {
+            label: 'Copy access token',
+            enabled: !!config.apiToken,
+            click() {
+              clipboard.writeText(config.apiToken);
+            }
+          },
+          {
+            label: 'Copy API description URL',
+            click() {
+              clipboard.writeText(`${apiUrl}/openapi.json`);
+            }
+          },
+          {
+            // Locks out every script using the old one
+            label: 'Reset access token',
+            enabled: !!config.apiToken,
+            click() {
+              setConfig({ apiToken: createApiToken() });
+            }
+          }
+        ]
+      },
+      {
+        label: 'Add playing song shortcut',
+        submenu: [
+          {
+            label: 'Off',
+            type: 'radio',
+            checked: !config.addSongShortcut,
+            click() {
+              setConfig({ addSongShortcut: '' });
+            }
+          },
+          ...ADD_SONG_SHORTCUTS.map(accelerator => ({
+            label: accelerator.replace('CommandOrControl', process.platform === 'darwin' ? 'Cmd' : 'Ctrl'),
+            type: 'radio' as const,
+            checked: config.addSongShortcut === accelerator,
+            click() {
+              setConfig({ addSongShortcut: accelerator });
+            }
+          }))
+        ]
+      }
+    ];
+  },
+
   backend: {
-    start({ window, ipc, getConfig, setConfig }) {
+    async start({ window, ipc, getConfig }) {
       const app = require('electron').app;
-      const playlistsDir = path.join(app.getPath('userData'), 'local-playlists');
-      
-      if (!fs.existsSync(playlistsDir)) {
-        fs.mkdirSync(playlistsDir, { recursive: true });
-      }
-      
-      setConfig({ playlistsDir });
+      const history = createHistoryStore(path.join(app.getPath('userData'), 'local-playlists-history.jsonl'));
+
+      // Replaced whenever the library folders change, the handlers below
+      // always work on the library that's open at the time
+      let backups: BackupStore;
+      let store: PlaylistStore;
+      let index: LibraryIndex;
+      let images: ImageCache;
+      let openedFolders = '';
+
+      const openLibrary = (config: LocalPlaylistManagerConfig) => {
+        let playlistsDir = config.playlistsDir || defaultPlaylistsDir();
+        try {
+          fs.mkdirSync(playlistsDir, { recursive: true });
+        } catch (error) {
+          console.error(`Error opening library folder ${playlistsDir}, using the default one:`, error);
+          playlistsDir = defaultPlaylistsDir();
+          fs.mkdirSync(playlistsDir, { recursive: true });
+        }
+
+        const readOnlyDirs = (config.readOnlyDirs ?? [])
+          .filter(dir => path.resolve(dir) !== path.resolve(playlistsDir));
+
+        index?.stop();
+
+        const openedBackups = createBackupStore(playlistsDir);
+        const openedStore = createPlaylistStore(playlistsDir, {
+          backups: openedBackups,
+          onWrite: id => openedIndex.refresh(id)
+        });
+
+        // Push every change to the renderer so open pages can update in place
+        const openedIndex = createLibraryIndex(playlistsDir, openedStore, (change: LibraryChange) => {
+          ipc.send('local-playlists-changed', change);
+        }, readOnlyDirs);
+
+        backups = openedBackups;
+        store = openedStore;
+        index = openedIndex;
+        images = createImageCache(playlistsDir);
+        libraryIndex = openedIndex;
+        openedFolders = JSON.stringify([playlistsDir, readOnlyDirs]);
 
-      ipc.handle('get-local-playlists', async () => {
         try {
-          const files = fs.readdirSync(playlistsDir);
-          const playlists: Playlist[] = [];
-          
-          for (const file of files) {
-            if (file.endsWith('.json')) {
-              const filePath = path.join(playlistsDir, file);
-              const content = fs.readFileSync(filePath, 'utf-8');
-              playlists.push(JSON.parse(content));
+          store.migrate();
+        } catch (error) {
+          console.error('Error migrating playlists:', error);
+        }
+
+        try {
+          store.quarantineInvalid();
+        } catch (error) {
+          console.error('Error checking playlist files:', error);
+        }
+
+        index.start();
+      };
+
+      openLibrary(await getConfig());
+
+      reopenLibrary = (config) => {
+        const folders = JSON.stringify([config.playlistsDir || defaultPlaylistsDir(), config.readOnlyDirs ?? []]);
+        if (folders === openedFolders) return;
+
+        openLibrary(config);
+        ipc.send('local-playlists-changed', { type: 'reloaded', id: '', external: true });
+      };
+
+      // Playlists from read-only folders can be played and copied, not changed
+      const readOnlyError = (playlistId: string) => index.isReadOnly(playlistId)
+        ? { success: false, message: 'This playlist is in a read-only folder. Copy it to your library to edit it.' }
+        : null;
+
+      // CSV files waiting for the user to confirm the column mapping
+      const pendingCsvImports = new Map<string, { content: string; fallbackName: string }>();
+
+      // Imported playlists with songs that still need a video ID, for the
+      // renderer to look up
+      const unresolvedIds = (results: StoreResult[]) => results
+        .map(result => result.playlist)
+        .filter((playlist): playlist is Playlist => !!playlist && playlist.songs.some(song => !song.videoId))
+        .map(playlist => playlist.id);
+
+      // Imports never fail on a name clash, see PlaylistStore.importPlaylist
+      const importPlaylists = (playlists: Playlist[], fixes: string[] = []) => {
+        if (playlists.length === 1) {
+          const result = store.importPlaylist(playlists[0]);
+          // Plain exports often leave out the dates, that's not worth mentioning
+          const shown = fixes.filter(fix => !/missing (creation|modification) date/.test(fix));
+          return {
+            ...result,
+            message: shown.length > 0 && result.success ? `${result.message} (repaired: ${shown.join('; ')})` : result.message,
+            unresolved: unresolvedIds([result])
+          };
+        }
+
+        const songCount = playlists.reduce((total, p) => total + p.songs.length, 0);
+        const results = playlists.map(playlist => store.importPlaylist(playlist));
+        const failed = results.filter(result => !result.success);
+        const imported = results.length - failed.length;
+        return {
+          success: imported > 0,
+          message: `Imported ${imported} playlists with ${songCount} songs` +
+            (failed.length > 0 ? ` (${failed.length} failed: ${failed.map(r => r.message).join('; ')})` : ''),
+          unresolved: unresolvedIds(results)
+        };
+      };
+
+      // Shared by file imports and the scripting API. CSV files whose
+      // columns can't be told apart come back with needsMapping, with what's
+      // needed to ask the user unless nobody is there to answer.
+      const importContent = (content: string, format: ImportFormat, fallbackName: string, interactive: boolean = true) => {
+        const parsed = parsePlaylistContent(content, format, fallbackName);
+        if (!('needsMapping' in parsed)) {
+          return importPlaylists(parsed.playlists, parsed.fixes);
+        }
+
+        if (!interactive) {
+          return {
+            success: false,
+            needsMapping: true,
+            message: 'Could not tell which CSV columns hold the titles and artists. Add a header row, e.g. "Title,Artist,Album".'
+          };
+        }
+
+        // Let the user confirm the columns before importing a guess
+        const { rows, mapping } = parsed;
+        const token = randomUUID();
+        pendingCsvImports.set(token, { content, fallbackName });
+        return {
+          success: false,
+          needsMapping: true,
+          token,
+          headers: mapping.hasHeader ? rows[0] : rows[0].map((_, i) => `Column ${i + 1}`),
+          preview: rows.slice(0, 6),
+          mapping,
+          message: 'Please confirm which CSV columns to import'
+        };
+      };
+
+      // Several files at once, from the file dialog or dropped on the page.
+      // CSV files that need their columns confirmed are passed back in
+      // pendingMappings, the rest are imported straight away.
+      const importFiles = (files: { name: string; content: string }[]) => {
+        const imported: string[] = [];
+        const failed: { name: string; message: string }[] = [];
+        const pendingMappings = [];
+        const unresolved: string[] = [];
+
+        for (const file of files) {
+          try {
+            const format = importFormatOf(file.name);
+            if (!format) {
+              failed.push({ name: file.name, message: 'Unsupported file format' });
+              continue;
+            }
+
+            const result = importContent(file.content, format, fileBaseName(file.name));
+            if ('token' in result) {
+              pendingMappings.push({ ...result, fileName: file.name });
+            } else if (result.success) {
+              imported.push(result.message);
+              unresolved.push(...('unresolved' in result ? result.unresolved : []));
+            } else {
+              failed.push({ name: file.name, message: result.message });
             }
+          } catch (error) {
+            console.error(`Error importing playlist ${file.name}:`, error);
+            failed.push({ name: file.name, message: error.message });
           }
-          
-          return playlists;
+        }
+
+        let message = '';
+        if (imported.length === 1 && failed.length === 0) {
+          message = imported[0];
+        } else if (failed.length === 1 && imported.length === 0 && files.length === 1) {
+          message = failed[0].message;
+        } else if (imported.length > 0 || failed.length > 0) {
+          message = `Imported ${imported.length} of ${imported.length + failed.length} files` +
+            (failed.length > 0 ? ` (failed: ${failed.map(f => `${f.name}: ${f.message}`).join('; ')})` : '');
+        }
+
+        return { success: imported.length > 0, message, pendingMappings, unresolved };
+      };
+
+      // Smart playlists filled in, with play counts for the rules that need them
+      const listPlaylists = () => {
+        const playlists = index.list();
+        return evaluateSmartPlaylists(playlists, usesPlayHistory(playlists) ? history.getSongStats() : {});
+      };
+
+      ipc.handle('get-local-playlists', async () => {
+        try {
+          return listPlaylists();
         } catch (error) {
           console.error('Error loading playlists:', error);
           return [];
         }
       });
 
-      ipc.handle('save-playlist', async (event, playlist: Playlist) => {
+      ipc.handle('save-playlist', async (event, playlist: Playlist, force: boolean = false) => {
         try {
-          const fileName = `${playlist.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
-          const filePath = path.join(playlistsDir, fileName);
-          
-          playlist.modified = new Date().toISOString();
-          if (!playlist.created) {
-            playlist.created = playlist.modified;
+          const result = readOnlyError(playlist.id) ?? store.save(playlist, force);
+          if (result.success) {
+            // Fetch the mosaic artwork while we're still online
+            for (const song of coverSongs(playlist.songs)) {
+              images.cacheThumbnail(song);
+            }
           }
-          
-          fs.writeFileSync(filePath, JSON.stringify(playlist, null, 2));
-          return { success: true, message: 'Playlist saved successfully' };
+          return result;
         } catch (error) {
           console.error('Error saving playlist:', error);
           return { success: false, message: error.message };
         }
       });
 
-      ipc.handle('delete-playlist', async (event, playlistName: string) => {
+      ipc.handle('rename-playlist', async (event, playlistId: string, newName: string) => {
         try {
-          const fileName = `${playlistName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
-          const filePath = path.join(playlistsDir, fileName);
-          
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            return { success: true, message: 'Playlist deleted successfully' };
-          }
-          
-          return { success: false, message: 'Playlist not found' };
+          return readOnlyError(playlistId) ?? store.rename(playlistId, newName);
+        } catch (error) {
+          console.error('Error renaming playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('organize-playlist', async (event, playlistId: string, changes: PlaylistOrganization) => {
+        try {
+          return readOnlyError(playlistId) ?? store.organize(playlistId, changes);
+        } catch (error) {
+          console.error('Error organizing playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      // Folders only exist through the playlists in them, so this only ever
+      // touches the writable library
+      ipc.handle('move-folder', async (event, from: string, to: string) => {
+        try {
+          return store.moveFolder(from, to);
+        } catch (error) {
+          console.error('Error moving folder:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('delete-playlist', async (event, playlistId: string) => {
+        try {
+          return readOnlyError(playlistId) ?? store.remove(playlistId);
         } catch (error) {
           console.error('Error deleting playlist:', error);
           return { success: false, message: error.message };
         }
       });
 
-      ipc.handle('import-playlist-file', async () => {
+      ipc.handle('get-playlist-versions', async (event, playlistId: string) => {
         try {
-          const result = await dialog.showOpenDialog(window, {
-            properties: ['openFile'],
-            filters: [
-              { name: 'Playlist Files', extensions: ['json', 'txt', 'm3u', 'csv'] },
-              { name: 'All Files', extensions: ['*'] }
-            ]
-          });
+          return backups.listVersions(playlistId);
+        } catch (error) {
+          console.error('Error loading playlist versions:', error);
+          return [];
+        }
+      });
 
-          if (result.canceled || result.filePaths.length === 0) {
-            return { success: false, message: 'Import cancelled' };
-          }
+      ipc.handle('get-playlist-version', async (event, playlistId: string, versionId: string) => {
+        try {
+          return backups.getVersion(playlistId, versionId);
+        } catch (error) {
+          console.error('Error loading playlist version:', error);
+          return null;
+        }
+      });
 
-          const filePath = result.filePaths[0];
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const ext = path.extname(filePath).toLowerCase();
+      ipc.handle('restore-playlist-version', async (event, playlistId: string, versionId: string) => {
+        try {
+          return readOnlyError(playlistId) ?? store.restoreVersion(playlistId, versionId);
+        } catch (error) {
+          console.error('Error restoring playlist version:', error);
+          return { success: false, message: error.message };
+        }
+      });
 
-          let playlist: Playlist;
+      ipc.handle('get-trash', async () => {
+        try {
+          return backups.listTrash();
+        } catch (error) {
+          console.error('Error loading trash:', error);
+          return [];
+        }
+      });
 
-          if (ext === '.json') {
-            const data = JSON.parse(content);
-            playlist = {
-              name: data.name || path.basename(filePath, ext),
-              songs: data.songs || [],
-              created: data.created || new Date().toISOString(),
-              modified: new Date().toISOString()
-            };
-          } else if (ext === '.csv') {
-            const lines = content.split('\n').filter(line => line.trim());
-            
-            if (lines.length === 0) {
-              return { success: false, message: 'Empty CSV file' };
-            }
+      ipc.handle('restore-from-trash', async (event, playlistId: string) => {
+        try {
+          return store.restoreFromTrash(playlistId);
+        } catch (error) {
+          console.error('Error restoring playlist from trash:', error);
+          return { success: false, message: error.message };
+        }
+      });
 
-            const header = lines[0].split(',');
-            const mediaIdIdx = header.findIndex(h => h.toLowerCase().includes('mediaid'));
-            const titleIdx = header.findIndex(h => h.toLowerCase().includes('title'));
-            const artistsIdx = header.findIndex(h => h.toLowerCase().includes('artists'));
-            const playlistNameIdx = header.findIndex(h => h.toLowerCase().includes('playlistname'));
-            const durationIdx = header.findIndex(h => h.toLowerCase().includes('duration'));
+      ipc.handle('purge-trash', async (event, playlistId?: string) => {
+        try {
+          backups.purgeTrash(playlistId);
+          return { success: true, message: playlistId ? 'Playlist permanently deleted' : 'Trash emptied' };
+        } catch (error) {
+          console.error('Error emptying trash:', error);
+          return { success: false, message: error.message };
+        }
+      });
 
-            const firstDataRow = lines[1]?.split(',');
-            const playlistName = firstDataRow && playlistNameIdx >= 0 
-              ? firstDataRow[playlistNameIdx] 
-              : path.basename(filePath, ext);
+      ipc.handle('get-library-health', async () => {
+        try {
+          return {
+            quarantined: store.listQuarantine(),
+            issues: store.findIssues(),
+            conflicts: store.listSyncConflicts()
+          };
+        } catch (error) {
+          console.error('Error checking playlists:', error);
+          return { quarantined: [], issues: [], conflicts: [] };
+        }
+      });
 
-            const songs: Song[] = [];
-            
-            for (let i = 1; i < lines.length; i++) {
-              const parts = lines[i].split(',');
-              
-              if (parts.length > Math.max(mediaIdIdx, titleIdx, artistsIdx)) {
-                songs.push({
-                  videoId: mediaIdIdx >= 0 ? parts[mediaIdIdx].trim() : '',
-                  title: titleIdx >= 0 ? parts[titleIdx].trim() : parts[1]?.trim() || '',
-                  artist: artistsIdx >= 0 ? parts[artistsIdx].trim() : parts[2]?.trim() || 'Unknown',
-                  duration: durationIdx >= 0 ? parts[durationIdx].trim() : undefined
-                });
-              }
-            }
+      ipc.handle('resolve-sync-conflict', async (event, file: string, resolution: SyncConflictResolution) => {
+        try {
+          return store.resolveSyncConflict(file, resolution);
+        } catch (error) {
+          console.error('Error resolving sync conflict:', error);
+          return { success: false, message: error.message };
+        }
+      });
 
-            playlist = {
-              name: playlistName,
-              songs: songs,
-              created: new Date().toISOString(),
-              modified: new Date().toISOString()
-            };
-          } else if (ext === '.txt' || ext === '.m3u') {
-            const lines = content.split('\n').filter(line => {
-              line = line.trim();
-              return line && !line.startsWith('#');
-            });
-            
-            playlist = {
-              name: path.basename(filePath, ext),
-              songs: lines.map(line => {
-                const parts = line.split(' - ');
-                if (parts.length >= 2) {
-                  return {
-                    videoId: '',
-                    title: parts[1].trim(),
-                    artist: parts[0].trim()
-                  };
-                }
-                return {
-                  videoId: line.trim(),
-                  title: line.trim(),
-                  artist: 'Unknown'
-                };
-              }),
-              created: new Date().toISOString(),
-              modified: new Date().toISOString()
-            };
-          } else {
-            return { success: false, message: 'Unsupported file format' };
+      ipc.handle('copy-to-library', async (event, playlistId: string) => {
+        try {
+          const playlist = index.get(playlistId);
+          if (!playlist) {
+            return { success: false, message: 'Playlist not found' };
           }
 
-          const fileName = `${playlist.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
-          const saveFilePath = path.join(playlistsDir, fileName);
-          
-          playlist.modified = new Date().toISOString();
-          if (!playlist.created) {
-            playlist.created = playlist.modified;
-          }
-          
-          fs.writeFileSync(saveFilePath, JSON.stringify(playlist, null, 2));
-          return { success: true, message: `Playlist "${playlist.name}" imported with ${playlist.songs.length} songs` };
+          const { source, ...copy } = playlist;
+          const result = store.importPlaylist({ ...copy, id: '' });
+          return result.success
+            ? { ...result, message: `Copied "${playlist.name}" to your library as "${result.playlist!.name}"` }
+            : result;
         } catch (error) {
-          console.error('Error importing playlist:', error);
+          console.error('Error copying playlist:', error);
           return { success: false, message: error.message };
         }
       });
 
-      ipc.handle('export-playlist-file', async (event, playlist: Playlist, format: string) => {
+      ipc.handle('repair-playlist', async (event, playlistId: string) => {
         try {
-          const result = await dialog.showSaveDialog(window, {
-            defaultPath: `${playlist.name}.${format}`,
+          return readOnlyError(playlistId) ?? store.repair(playlistId);
+        } catch (error) {
+          console.error('Error repairing playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('repair-quarantined', async (event, file: string) => {
+        try {
+          return store.repairQuarantined(file);
+        } catch (error) {
+          console.error('Error repairing playlist file:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('delete-quarantined', async (event, file: string) => {
+        try {
+          return store.deleteQuarantined(file);
+        } catch (error) {
+          console.error('Error deleting playlist file:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('import-playlist-file', async () => {
+        try {
+          const result = await dialog.showOpenDialog(window, {
+            properties: ['openFile', 'multiSelections'],
             filters: [
-              { name: 'JSON', extensions: ['json'] },
-              { name: 'Plain Text', extensions: ['txt'] },
-              { name: 'M3U Playlist', extensions: ['m3u'] },
-              { name: 'CSV', extensions: ['csv'] }
+              { name: 'Playlist Files', extensions: IMPORT_FORMATS },
+              { name: 'All Files', extensions: ['*'] }
             ]
           });
 
-          if (result.canceled || !result.filePath) {
-            return { success: false, message: 'Export cancelled' };
-          }
-
-          let content: string;
-
-          if (format === 'json') {
-            content = JSON.stringify(playlist, null, 2);
-          } else if (format === 'csv') {
-            content = 'PlaylistName,MediaId,Title,Artists,Duration\n';
-            content += playlist.songs.map(song => 
-              `${playlist.name},${song.videoId},${song.title},${song.artist},${song.duration || ''}`
-            ).join('\n');
-          } else if (format === 'txt' || format === 'm3u') {
-            if (format === 'm3u') {
-              content = '#EXTM3U\n';
-              content += playlist.songs.map(song => {
-                return `#EXTINF:${song.duration || '-1'},${song.artist} - ${song.title}\n${song.videoId}`;
-              }).join('\n');
-            } else {
-              content = playlist.songs.map(song => 
-                `${song.artist} - ${song.title}${song.videoId ? ' [' + song.videoId + ']' : ''}`
-              ).join('\n');
-            }
-          } else {
-            return { success: false, message: 'Unsupported format' };
+          if (result.canceled || result.filePaths.length === 0) {
+            return { success: false, message: 'Import cancelled', cancelled: true };
           }
 
-          fs.writeFileSync(result.filePath, content);
-          return { success: true, message: 'Playlist exported successfully' };
+          return importFiles(result.filePaths.map(filePath => ({
+            name: path.basename(filePath),
+            content: fs.readFileSync(filePath, 'utf-8')
+          })));
         } catch (error) {
-          console.error('Error exporting playlist:', error);
+          console.error('Error importing playlist:', error);
           return { success: false, message: error.message };
         }
       });
-    },
 
-    stop() {
-      console.log('Local Playlist Manager stopped');
-    }
-  },
+      // Files dropped on the page, read by the renderer
+      ipc.handle('import-playlist-contents', async (event, files: { name: string; content: string }[]) => {
+        try {
+          return importFiles(files);
+        } catch (error) {
+          console.error('Error importing playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
 
-  renderer: {
-    async start(context) {
-      console.log('Local Playlist Manager started');
+      // A whole export at once: an unpacked Takeout archive, Spotify's
+      // account data, an Apple Music library or a folder of playlist files
+      ipc.handle('import-library-folder', async () => {
+        try {
+          const result = await dialog.showOpenDialog(window, {
+            title: 'Import a music library export',
+            properties: ['openDirectory']
+          });
 
-      let currentView: 'list' | 'detail' = 'list';
-      let currentPlaylist: Playlist | null = null;
+          if (result.canceled || result.filePaths.length === 0) {
+            return { success: false, message: 'Import cancelled', cancelled: true };
+          }
 
-      // Add sidebar navigation item to BOTH mini and full guides
-      const addSidebarItem = () => {
-        if (document.getElementById('local-playlists-nav')) {
-          console.log('Local Playlists: Nav item already exists');
-          return;
+          const { playlists, skipped } = readLibraryFolder(result.filePaths[0]);
+          if (playlists.length === 0) {
+            return { success: false, message: 'No playlists found in this folder' };
+          }
+
+          const imported = importPlaylists(playlists);
+          return skipped.length > 0
+            ? { ...imported, message: `${imported.message} (skipped ${skipped.map(s => `${s.file}: ${s.message}`).join('; ')})` }
+            : imported;
+        } catch (error) {
+          console.error('Error importing library folder:', error);
+          return { success: false, message: error.message };
         }
+      });
 
-        // Create nav item for FULL sidebar (with text)
-        const navItemFull = document.createElement('div');
-        navItemFull.id = 'local-playlists-nav';
-        navItemFull.className = 'local-playlists-nav';
-        navItemFull.setAttribute('role', 'button');
-        navItemFull.setAttribute('tabindex', '0');
-        navItemFull.setAttribute('title', 'Local Playlists');
-        navItemFull.innerHTML = `
-          <div class="nav-item-content">
-            <svg viewBox="0 0 24 24" class="nav-icon">
-              <path d="M15 6H3v2h12V6zm0 4H3v2h12v-2zM3 16h8v-2H3v2zM17 6v8.18c-.31-.11-.65-.18-1-.18-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3V8h3V6h-5z" fill="currentColor"/>
-            </svg>
-            <span class="nav-text">Local Playlists</span>
-          </div>
-        `;
+      ipc.handle('import-csv-with-mapping', async (event, token: string, mapping: CsvColumnMapping | null) => {
+        const pending = pendingCsvImports.get(token);
+        pendingCsvImports.delete(token);
 
-        // Create nav item for MINI sidebar (icon only)
-        const navItemMini = document.createElement('div');
-        navItemMini.id = 'local-playlists-nav-mini';
-        navItemMini.className = 'local-playlists-nav mini-mode';
-        navItemMini.setAttribute('role', 'button');
-        navItemMini.setAttribute('tabindex', '0');
-        navItemMini.setAttribute('title', 'Local Playlists');
-        navItemMini.innerHTML = `
-          <div class="nav-item-content">
-            <svg viewBox="0 0 24 24" class="nav-icon">
-              <path d="M15 6H3v2h12V6zm0 4H3v2h12v-2zM3 16h8v-2H3v2zM17 6v8.18c-.31-.11-.65-.18-1-.18-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3V8h3V6h-5z" fill="currentColor"/>
-            </svg>
-          </div>
-        `;
+        if (!pending) {
+          return { success: false, message: 'Import expired, please choose the file again' };
+        }
+        if (!mapping) {
+          return { success: false, message: 'Import cancelled', cancelled: true };
+        }
 
-        const handleClick = (e: Event) => {
+        try {
+          const parsed = parsePlaylistContent(pending.content, 'csv', pending.fallbackName, { csvMapping: mapping });
+          return 'needsMapping' in parsed
+            ? { success: false, message: 'No songs found in CSV file' }
+            : importPlaylists(parsed.playlists);
+        } catch (error) {
+          console.error('Error importing playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('record-play', async (event, entry: HistoryEntry) => {
+        try {
+          history.record(entry);
+          images.cacheThumbnail(entry);
+          return { success: true, message: 'Play recorded' };
+        } catch (error) {
+          console.error('Error recording play:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      // Songs are passed in so smart playlists get the mosaic of what
+      // they currently match
+      ipc.handle('get-playlist-cover', async (event, playlistId: string, songs: Song[]): Promise<PlaylistCover> => {
+        try {
+          const playlist = index.get(playlistId);
+          const custom = playlist?.cover ? images.getCover(playlist.cover, playlist.source?.dir) : null;
+          if (custom) {
+            return { custom, tiles: [] };
+          }
+
+          const tiles = await Promise.all(coverSongs(songs).map(song => images.getThumbnail(song)));
+          return { tiles: tiles.filter((tile): tile is string => !!tile) };
+        } catch (error) {
+          console.error('Error loading playlist cover:', error);
+          return { tiles: [] };
+        }
+      });
+
+      ipc.handle('get-song-thumbnail', async (event, song: Song) => {
+        try {
+          return await images.getThumbnail(song);
+        } catch (error) {
+          console.error('Error loading song thumbnail:', error);
+          return null;
+        }
+      });
+
+      ipc.handle('choose-playlist-cover', async (event, playlistId: string) => {
+        try {
+          const readOnly = readOnlyError(playlistId);
+          if (readOnly) return readOnly;
+
+          const playlist = store.get(playlistId);
+          if (!playlist) {
+            return { success: false, message: 'Playlist not found' };
+          }
+
+          const result = await dialog.showOpenDialog(window, {
+            properties: ['openFile'],
+            filters: [{ name: 'Images', extensions: COVER_EXTENSIONS }]
+          });
+
+          if (result.canceled || result.filePaths.length === 0) {
+            return { success: false, message: 'Cover selection cancelled', cancelled: true };
+          }
+
+          const file = images.saveCover(playlistId, result.filePaths[0]);
+          const saved = store.setCover(playlistId, file);
+          if (!saved.success) {
+            images.removeCover(file);
+            return saved;
+          }
+          if (playlist.cover) {
+            images.removeCover(playlist.cover);
+          }
+          return saved;
+        } catch (error) {
+          console.error('Error setting playlist cover:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('remove-playlist-cover', async (event, playlistId: string) => {
+        try {
+          const readOnly = readOnlyError(playlistId);
+          if (readOnly) return readOnly;
+
+          const cover = store.get(playlistId)?.cover;
+          const result = store.setCover(playlistId, undefined);
+          if (result.success && cover) {
+            images.removeCover(cover);
+          }
+          return result;
+        } catch (error) {
+          console.error('Error removing playlist cover:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('get-song-play-stats', async () => {
+        try {
+          return history.getSongStats();
+        } catch (error) {
+          console.error('Error loading play stats:', error);
+          return {};
+        }
+      });
+
+      ipc.handle('get-history-stats', async (event, period: StatsPeriod) => {
+        try {
+          return history.getStats(period);
+        } catch (error) {
+          console.error('Error loading listening stats:', error);
+          return null;
+        }
+      });
+
+      ipc.handle('export-history', async (event, format: 'json' | 'csv') => {
+        try {
+          const result = await dialog.showSaveDialog(window, {
+            defaultPath: `listening-history.${format}`,
+            filters: [
+              format === 'json'
+                ? { name: 'JSON', extensions: ['json'] }
+                : { name: 'CSV', extensions: ['csv'] }
+            ]
+          });
+
+          if (result.canceled || !result.filePath) {
+            return { success: false, message: 'Export cancelled', cancelled: true };
+          }
+
+          fs.writeFileSync(result.filePath, history.serialize(format), 'utf-8');
+          return { success: true, message: 'Listening history exported successfully' };
+        } catch (error) {
+          console.error('Error exporting history:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      ipc.handle('export-playlist-file', async (event, playlist: Playlist, format: string) => {
+        try {
+          if (!isExportFormat(format)) {
+            return { success: false, message: 'Unsupported format' };
+          }
+
+          const result = await dialog.showSaveDialog(window, {
+            defaultPath: `${playlist.name}.${format}`,
+            filters: [
+              { name: 'JSON', extensions: ['json'] },
+              { name: 'Plain Text', extensions: ['txt'] },
+              { name: 'M3U Playlist', extensions: ['m3u', 'm3u8'] },
+              { name: 'CSV', extensions: ['csv'] },
+              { name: 'PLS Playlist', extensions: ['pls'] },
+              { name: 'XSPF Playlist', extensions: ['xspf'] }
+            ]
+          });
+
+          if (result.canceled || !result.filePath) {
+            return { success: false, message: 'Export cancelled', cancelled: true };
+          }
+
+          fs.writeFileSync(result.filePath, serializePlaylist(playlist, format), 'utf-8');
+          return { success: true, message: 'Playlist exported successfully' };
+        } catch (error) {
+          console.error('Error exporting playlist:', error);
+          return { success: false, message: error.message };
+        }
+      });
+
+      // The same operations as the handlers above, for the scripting API
+      const apiLibrary: ApiLibrary = {
+        list: listPlaylists,
+        get: id => index.get(id),
+        isReadOnly: id => index.isReadOnly(id),
+        save: (playlist, force) => store.save(playlist, force),
+        remove: id => store.remove(id),
+        // Nobody is there to confirm the columns of a CSV file
+        importContent: (content, format, fallbackName) => importContent(content, format, fallbackName, false),
+        // Queueing songs only works from the page
+        play: (playlist, shuffle) => ipc.send('local-playlists-play', playlist.id, shuffle),
+      };
+
+      let apiSettings = '';
+      configureApi = async (config) => {
+        const settings = config.apiEnabled && config.apiToken
+          ? JSON.stringify([config.apiPort || DEFAULT_API_PORT, config.apiToken])
+          : '';
+        if (settings === apiSettings) return;
+        apiSettings = settings;
+
+        await apiServer?.stop();
+        apiServer = null;
+        if (!settings) return;
+
+        const server = createApiServer(apiLibrary, { port: config.apiPort || DEFAULT_API_PORT, token: config.apiToken });
+        try {
+          await server.start();
+          apiServer = server;
+        } catch (error) {
+          console.error('Error starting the local playlists API:', error);
+        }
+      };
+
+      await configureApi(await getConfig());
+
+      // Works while another app has the focus, so the picker needs the
+      // window in front
+      configureShortcut = (config) => {
+        const accelerator = config.addSongShortcut ?? '';
+        if (accelerator === registeredShortcut) return;
+
+        if (registeredShortcut) globalShortcut.unregister(registeredShortcut);
+        registeredShortcut = '';
+        if (!accelerator) return;
+
+        const registered = globalShortcut.register(accelerator, () => {
+          window.show();
+          window.focus();
+          ipc.send('local-playlists-add-current');
+        });
+        if (registered) {
+          registeredShortcut = accelerator;
+        } else {
+          console.warn(`Local Playlists: ${accelerator} is already taken by another app`);
+        }
+      };
+
+      configureShortcut(await getConfig());
+    },
+
+    onConfigChange(newConfig: LocalPlaylistManagerConfig) {
+      reopenLibrary?.(newConfig);
+      configureApi?.(newConfig);
+      configureShortcut?.(newConfig);
+    },
+
+    stop() {
+      reopenLibrary = null;
+      configureApi = null;
+      configureShortcut = null;
+      if (registeredShortcut) globalShortcut.unregister(registeredShortcut);
+      registeredShortcut = '';
+      apiServer?.stop();
+      apiServer = null;
+      libraryIndex?.stop();
+      libraryIndex = null;
+      console.log('Local Playlist Manager stopped');
+    }
+  },
+
+  renderer: {
+    async start(context) {
+      console.log('Local Playlist Manager started');
+
+      let currentView: 'list' | 'detail' = 'list';
+      let currentPlaylist: Playlist | null = null;
+
+      // Set by the open list or detail page to update itself when playlists
+      // change on disk, cleared by pages that don't show playlists
+      let refreshOpenPage: ((changes: LibraryChange[]) => Promise<void>) | null = null;
+
+      // Search, sort and filter of the list view survive going into a
+      // playlist and back
+      const libraryView: {
+        query: string;
+        sort: PlaylistSort;
+        filter: PlaylistFilter;
+        group: PlaylistGrouping;
+        // Sections folded away: 'pinned', 'folder:<path>' or 'tag:<tag>'
+        collapsed: Set<string>;
+        // Made with "New folder" and possibly still empty. Folders are only
+        // stored on the playlists in them.
+        newFolders: string[];
+      } = {
+        query: '',
+        sort: 'name',
+        filter: 'all',
+        group: 'folder',
+        collapsed: new Set(),
+        newFolders: []
+      };
+
+      let sidebarExpanded = false;
+
+      const queueService = createQueueService();
+      const editHistory = createEditHistory();
+      const matcher = createMatcher(createYouTubeMusicSearchBackend());
+      const availabilityChecker = createAvailabilityChecker(createYouTubeMusicAvailabilityLookup());
+
+      // Background lookups for imported songs without a video ID. The list
+      // page shows how far along it is.
+      let resolutionProgress: ResolutionProgress | null = null;
+      const renderResolutionStatus = () => {
+        const status = document.getElementById('resolution-status');
+        if (!status) return;
+
+        status.hidden = !resolutionProgress;
+        if (!resolutionProgress) return;
+
+        const { playlistName, done, total, waiting } = resolutionProgress;
+        const text = document.createElement('span');
+        text.textContent = `🔎 Finding songs for "${playlistName}": ${done}/${total}` +
+          (waiting > 0 ? ` (${waiting} more playlists waiting)` : '');
+
+        const stopBtn = document.createElement('button');
+        stopBtn.className = 'action-btn';
+        stopBtn.textContent = 'Stop';
+        stopBtn.addEventListener('click', () => {
+          resolutionQueue?.stop();
+          stopBtn.disabled = true;
+        });
+
+        status.replaceChildren(text, stopBtn);
+      };
+
+      resolutionQueue = createResolutionQueue(matcher, {
+        load: async (playlistId) => (await context.ipc.invoke('get-local-playlists'))
+          .find((p: Playlist) => p.id === playlistId),
+        // Always the copy just loaded, a conflict means someone else saved
+        // in between and the matches are dropped
+        save: (playlist) => context.ipc.invoke('save-playlist', playlist),
+        onProgress: (progress) => {
+          resolutionProgress = progress;
+          renderResolutionStatus();
+        },
+        onResolved: (resolved) => {
+          const found = resolved.matched + resolved.ambiguous.length;
+          const total = found + resolved.notFound;
+          if (total === 0) return;
+
+          let message = `"${resolved.playlistName}": matched ${resolved.matched} of ${total} songs`;
+          if (resolved.ambiguous.length > 0) {
+            message += `, ${resolved.ambiguous.length} need a closer look`;
+          }
+
+          showToast(message, {
+            type: 'success',
+            action: resolved.ambiguous.length === 0 ? undefined : {
+              label: 'Review',
+              run: async () => {
+                const chosen = await showMatchReviewDialog(resolved.ambiguous);
+                if (!chosen || !resolutionQueue) return;
+                const applied = await resolutionQueue.applyReviewed(resolved, chosen);
+                showToast(`"${resolved.playlistName}": matched ${applied} more songs`, { type: 'success' });
+              }
+            }
+          });
+        }
+      });
+
+      // Save through the backend, asking the user what to do when the file
+      // changed on disk since this copy of the playlist was loaded
+      const savePlaylist = async (playlist: Playlist) => {
+        const result = await context.ipc.invoke('save-playlist', playlist);
+        if (!result.conflict) return result;
+
+        const choice = await showConflictDialog(playlist, result.conflict);
+        if (choice === 'mine') {
+          return context.ipc.invoke('save-playlist', playlist, true);
+        }
+        if (choice === 'theirs') {
+          await refreshOpenPage?.([{ type: 'updated', id: playlist.id, external: true }]);
+          return { success: false, message: 'Kept the version on disk' };
+        }
+        return { success: false, message: 'Save cancelled', cancelled: true };
+      };
+
+      // Artwork comes from the backend's image cache and is only asked for
+      // once a card or row scrolls into view, so a long library doesn't load
+      // every image up front
+      const coverRequests = new Map<string, Promise<PlaylistCover>>();
+      const thumbnailRequests = new Map<string, Promise<string | null>>();
+      const artworkLoaders = new WeakMap<Element, () => void>();
+
+      const whenVisible = (element: Element, load: () => void) => {
+        artworkObserver ??= new IntersectionObserver(entries => {
+          for (const entry of entries) {
+            if (!entry.isIntersecting) continue;
+            artworkObserver?.unobserve(entry.target);
+            artworkLoaders.get(entry.target)?.();
+            artworkLoaders.delete(entry.target);
+          }
+        }, { rootMargin: '200px' });
+
+        artworkLoaders.set(element, load);
+        artworkObserver.observe(element);
+      };
+
+      const requestCover = (playlist: Playlist): Promise<PlaylistCover> => {
+        const songs = coverSongs(playlist.songs);
+        const key = [playlist.id, playlist.cover ?? '', ...songs.map(song => song.videoId)].join(':');
+
+        let request = coverRequests.get(key);
+        if (!request) {
+          request = context.ipc.invoke('get-playlist-cover', playlist.id, songs) as Promise<PlaylistCover>;
+          coverRequests.set(key, request);
+          // Nothing came back while offline, try again on the next render
+          request.then(cover => {
+            if (!cover.custom && cover.tiles.length === 0) coverRequests.delete(key);
+          });
+        }
+        return request;
+      };
+
+      const requestThumbnail = (song: Song): Promise<string | null> => {
+        let request = thumbnailRequests.get(song.videoId);
+        if (!request) {
+          request = context.ipc.invoke('get-song-thumbnail', song) as Promise<string | null>;
+          thumbnailRequests.set(song.videoId, request);
+          request.then(thumbnail => {
+            if (!thumbnail) thumbnailRequests.delete(song.videoId);
+          });
+        }
+        return request;
+      };
+
+      const appendArtwork = (container: HTMLElement, images: string[]) => {
+        const artwork = document.createElement('div');
+        artwork.className = images.length === 4 ? 'cover-art cover-mosaic' : 'cover-art';
+        for (const src of images) {
+          const image = document.createElement('img');
+          image.src = src;
+          image.alt = '';
+          artwork.append(image);
+        }
+        container.classList.add('has-cover');
+        container.prepend(artwork);
+      };
+
+      // The custom cover, a mosaic of four tracks, or the first track's
+      // artwork when there are fewer. The placeholder stays otherwise.
+      const showCover = (container: HTMLElement, playlist: Playlist) => {
+        whenVisible(container, async () => {
+          const cover = await requestCover(playlist);
+          const images = cover.custom ? [cover.custom] : cover.tiles.length === 4 ? cover.tiles : cover.tiles.slice(0, 1);
+          if (images.length > 0 && container.isConnected) {
+            appendArtwork(container, images);
+          }
+        });
+      };
+
+      const showThumbnail = (container: HTMLElement, song: Song) => {
+        if (!song.videoId) return;
+        whenVisible(container, async () => {
+          const thumbnail = await requestThumbnail(song);
+          if (thumbnail && container.isConnected) {
+            appendArtwork(container, [thumbnail]);
+          }
+        });
+      };
+
+      const makeDraggable = (element: HTMLElement, type: string, value: string) => {
+        element.draggable = true;
+        element.addEventListener('dragstart', (e) => {
+          e.stopPropagation();
+          e.dataTransfer?.setData(type, value);
+          if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+          element.classList.add('dragging');
+        });
+        element.addEventListener('dragend', () => element.classList.remove('dragging'));
+      };
+
+      // Folders nest, so the innermost target under the pointer takes the
+      // drop and the ones around it stay quiet
+      const addDropTarget = (
+        element: HTMLElement,
+        onPlaylist: (playlistId: string) => void,
+        onFolder?: (folder: string) => void
+      ) => {
+        const accepts = (e: DragEvent) => !!e.dataTransfer && (e.dataTransfer.types.includes(PLAYLIST_DRAG_TYPE)
+          || (!!onFolder && e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)));
+
+        element.addEventListener('dragover', (e) => {
+          if (!accepts(e)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          document.querySelectorAll('.drop-target').forEach(other => {
+            if (other !== element) other.classList.remove('drop-target');
+          });
+          element.classList.add('drop-target');
+        });
+        element.addEventListener('dragleave', (e) => {
+          if (!element.contains(e.relatedTarget as Node | null)) {
+            element.classList.remove('drop-target');
+          }
+        });
+        element.addEventListener('drop', (e) => {
+          if (!accepts(e)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          element.classList.remove('drop-target');
+
+          const playlistId = e.dataTransfer!.getData(PLAYLIST_DRAG_TYPE);
+          const folder = e.dataTransfer!.getData(FOLDER_DRAG_TYPE);
+          if (playlistId) {
+            onPlaylist(playlistId);
+          } else if (folder && onFolder) {
+            onFolder(folder);
+          }
+        });
+      };
+
+      // Results of importing files. CSV files whose columns couldn't be
+      // detected are asked about one at a time. Songs without a video ID are
+      // looked up in the background afterwards.
+      const finishImport = async (result: {
+        success: boolean;
+        message: string;
+        cancelled?: boolean;
+        pendingMappings?: (CsvMappingRequest & { token: string })[];
+        unresolved?: string[];
+      }) => {
+        let imported = result.success;
+        const unresolved = [...(result.unresolved ?? [])];
+        if (result.message) {
+          showResult(result);
+        }
+
+        for (const pending of result.pendingMappings ?? []) {
+          const mapping = await showCsvMappingDialog(pending);
+          const mapped = await context.ipc.invoke('import-csv-with-mapping', pending.token, mapping);
+          imported = imported || mapped.success;
+          unresolved.push(...(mapped.unresolved ?? []));
+          showResult(mapped);
+        }
+
+        if (imported && document.getElementById('local-playlists-page')) {
+          showPlaylistsPage();
+        }
+        resolutionQueue?.add(unresolved);
+      };
+
+      // Playlist files dragged in from the file manager
+      const addFileDropTarget = (element: HTMLElement) => {
+        const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files');
+
+        element.addEventListener('dragover', (e) => {
+          if (!hasFiles(e)) return;
+          e.preventDefault();
+          e.dataTransfer!.dropEffect = 'copy';
+          element.classList.add('file-drop-target');
+        });
+        element.addEventListener('dragleave', (e) => {
+          if (!element.contains(e.relatedTarget as Node | null)) {
+            element.classList.remove('file-drop-target');
+          }
+        });
+        element.addEventListener('drop', async (e) => {
+          if (!hasFiles(e)) return;
+          e.preventDefault();
+          element.classList.remove('file-drop-target');
+
+          // Dropped folders can't be read, they fail as unsupported files
+          const files = await Promise.all([...e.dataTransfer!.files].map(async file => ({
+            name: file.name,
+            content: await file.text().catch(() => '')
+          })));
+          if (files.length > 0) {
+            finishImport(await context.ipc.invoke('import-playlist-contents', files));
+          }
+        });
+      };
+
+      // Move, pin or tag a playlist and update whatever shows it. The toast
+      // offers to put back what was there before.
+      const organizePlaylist = async (playlistId: string, changes: PlaylistOrganization, undoable: boolean = true) => {
+        const before = undoable
+          ? (await context.ipc.invoke('get-local-playlists')).find((p: Playlist) => p.id === playlistId) as Playlist | undefined
+          : undefined;
+
+        const result = await context.ipc.invoke('organize-playlist', playlistId, changes);
+        if (!result.success) {
+          showResult(result);
+          return false;
+        }
+
+        const previous: PlaylistOrganization = {};
+        if (before && changes.folder !== undefined) previous.folder = before.folder ?? '';
+        if (before && changes.tags !== undefined) previous.tags = before.tags ?? [];
+        if (before && changes.pinned !== undefined) previous.pinned = !!before.pinned;
+        showResult(result, before ? { label: 'Undo', run: () => organizePlaylist(playlistId, previous, false) } : undefined);
+
+        await refreshOpenPage?.([]);
+        renderSidebarTree();
+        return true;
+      };
+
+      const moveFolder = async (from: string, to: string) => {
+        const target = normalizeFolder(to);
+        if (target === from) return;
+
+        const result = await context.ipc.invoke('move-folder', from, target);
+        showResult(result);
+        if (!result.success) return;
+
+        // Empty folders only live here, they move along by hand
+        libraryView.newFolders = libraryView.newFolders.map(folder => isInFolder(folder, from)
+          ? `${target}${normalizeFolder(folder).slice(from.length)}`
+          : folder);
+        await refreshOpenPage?.([]);
+        renderSidebarTree();
+      };
+
+      // Dropping a folder onto another one puts it inside
+      const moveFolderInto = (folder: string, parent: string) =>
+        moveFolder(folder, parent ? `${parent}/${folderName(folder)}` : folderName(folder));
+
+      // Several files often change together (an import, a sync), so
+      // refresh once for the whole batch
+      let pendingChanges: LibraryChange[] = [];
+      let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+      // "Play" from the scripting API
+      context.ipc.on('local-playlists-play', (playlistId: string, shuffle: boolean) => {
+        playPlaylist(playlistId, shuffle);
+      });
+
+      // The global add-song shortcut
+      context.ipc.on('local-playlists-add-current', () => {
+        saveCurrentSong();
+      });
+
+      context.ipc.on('local-playlists-changed', (change: LibraryChange) => {
+        pendingChanges.push(change);
+        if (changeTimer) return;
+
+        changeTimer = setTimeout(() => {
+          const changes = pendingChanges;
+          pendingChanges = [];
+          changeTimer = null;
+
+          if (refreshOpenPage && document.getElementById('local-playlists-page')) {
+            refreshOpenPage(changes).catch(error => {
+              console.error('Local Playlists: Could not refresh page:', error);
+            });
+          }
+          renderSidebarTree();
+        }, 150);
+      });
+
+      // Add sidebar navigation item to BOTH mini and full guides
+      const addSidebarItem = () => {
+        if (document.getElementById('local-playlists-nav')) {
+          console.log('Local Playlists: Nav item already exists');
+          return;
+        }
+
+        // Create nav item for FULL sidebar (with text)
+        const navItemFull = document.createElement('div');
+        navItemFull.id = 'local-playlists-nav';
+        navItemFull.className = 'local-playlists-nav';
+        navItemFull.setAttribute('title', 'Local Playlists');
+        navItemFull.setAttribute('aria-label', 'Local Playlists');
+        setHtml(navItemFull, html`
+          <div class="nav-item-content">
+            <svg viewBox="0 0 24 24" class="nav-icon">
+              <path d="M15 6H3v2h12V6zm0 4H3v2h12v-2zM3 16h8v-2H3v2zM17 6v8.18c-.31-.11-.65-.18-1-.18-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3V8h3V6h-5z" fill="currentColor"/>
+            </svg>
+            <span class="nav-text">Local Playlists</span>
+            <button class="nav-expand" title="Show pinned playlists and folders" aria-expanded="false">▸</button>
+          </div>
+        `);
+
+        // Pinned playlists and folders, shown below the full sidebar entry
+        const navTree = document.createElement('div');
+        navTree.id = 'local-playlists-nav-tree';
+        navTree.className = 'local-playlists-nav-tree';
+        navTree.hidden = true;
+
+        // Create nav item for MINI sidebar (icon only)
+        const navItemMini = document.createElement('div');
+        navItemMini.id = 'local-playlists-nav-mini';
+        navItemMini.className = 'local-playlists-nav mini-mode';
+        navItemMini.setAttribute('title', 'Local Playlists');
+        navItemMini.setAttribute('aria-label', 'Local Playlists');
+        setHtml(navItemMini, html`
+          <div class="nav-item-content">
+            <svg viewBox="0 0 24 24" class="nav-icon">
+              <path d="M15 6H3v2h12V6zm0 4H3v2h12v-2zM3 16h8v-2H3v2zM17 6v8.18c-.31-.11-.65-.18-1-.18-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3V8h3V6h-5z" fill="currentColor"/>
+            </svg>
+          </div>
+        `);
+
+        const handleClick = (e: Event) => {
           e.preventDefault();
           e.stopPropagation();
+
+          if ((e.target as HTMLElement).closest('.nav-expand')) {
+            sidebarExpanded = !sidebarExpanded;
+            renderSidebarTree();
+            return;
+          }
+
           console.log('Local Playlists: Nav item clicked');
           showPlaylistsPage();
         };
 
-        navItemFull.addEventListener('click', handleClick);
-        navItemMini.addEventListener('click', handleClick);
+        // Divs to fit in with the guide entries around them
+        makeActivatable(navItemFull, handleClick);
+        makeActivatable(navItemMini, handleClick);
+
+        // Dropping on the entry itself takes a playlist or folder out of
+        // its folder
+        addDropTarget(navItemFull, playlistId => organizePlaylist(playlistId, { folder: '' }), folder => moveFolderInto(folder, ''));
+
+        // Insert into FULL sidebar (#guide)
+        let insertedFull = false;
+        const fullGuideItems = document.querySelectorAll('#guide ytmusic-guide-entry-renderer');
+        console.log('Local Playlists: Found', fullGuideItems.length, 'full guide items');
+        
+        for (let item of fullGuideItems) {
+          if (item.textContent && item.textContent.includes('Library')) {
+            console.log('Local Playlists: Found Library in full guide');
+            if (item.parentElement) {
+              item.parentElement.insertBefore(navItemFull, item.nextSibling);
+              item.parentElement.insertBefore(navTree, navItemFull.nextSibling);
+              insertedFull = true;
+              break;
+            }
+          }
+        }
+
+        // Insert into MINI sidebar (#mini-guide)
+        let insertedMini = false;
+        const miniGuideItems = document.querySelectorAll('#mini-guide ytmusic-guide-entry-renderer');
+        console.log('Local Playlists: Found', miniGuideItems.length, 'mini guide items');
+        
+        for (let item of miniGuideItems) {
+          if (item.textContent && item.textContent.includes('Library')) {
+            console.log('Local Playlists: Found Library in mini guide');
+            if (item.parentElement) {
+              item.parentElement.insertBefore(navItemMini, item.nextSibling);
+              insertedMini = true;
+              break;
+            }
+          }
+        }
+
+        if (insertedFull || insertedMini) {
+          console.log(`Local Playlists: Nav items added - Full: ${insertedFull}, Mini: ${insertedMini}`);
+        } else {
+          console.error('Local Playlists: Failed to insert into either sidebar');
+        }
+      };
+
+      const renderSidebarTree = async () => {
+        const tree = document.getElementById('local-playlists-nav-tree');
+        if (!tree) return;
+
+        const toggle = document.querySelector('#local-playlists-nav .nav-expand');
+        toggle?.setAttribute('aria-expanded', String(sidebarExpanded));
+        if (toggle) toggle.textContent = sidebarExpanded ? '▾' : '▸';
+        tree.hidden = !sidebarExpanded;
+        if (!sidebarExpanded) return;
+
+        const playlists: Playlist[] = await context.ipc.invoke('get-local-playlists');
+        const pinned = sortPlaylists(playlists.filter(playlist => playlist.pinned), 'name');
+        tree.replaceChildren();
+
+        for (const playlist of pinned) {
+          const item = document.createElement('div');
+          item.className = 'nav-tree-item';
+          item.textContent = `📌 ${playlist.name}`;
+          item.title = playlist.name;
+          makeActivatable(item, () => showPlaylistDetail(playlist.id));
+          if (!playlist.source?.readOnly) {
+            makeDraggable(item, PLAYLIST_DRAG_TYPE, playlist.id);
+          }
+          tree.append(item);
+        }
+        if (pinned.length === 0) {
+          const hint = document.createElement('div');
+          hint.className = 'nav-tree-hint';
+          hint.textContent = 'Pinned playlists show up here';
+          tree.append(hint);
+        }
+
+        const addFolder = (node: FolderNode, depth: number) => {
+          const item = document.createElement('div');
+          item.className = 'nav-tree-item folder';
+          item.style.setProperty('--depth', String(depth));
+          item.textContent = `📁 ${node.name}`;
+          item.title = node.path;
+          makeActivatable(item, () => openFolder(node.path));
+          makeDraggable(item, FOLDER_DRAG_TYPE, node.path);
+          addDropTarget(
+            item,
+            playlistId => organizePlaylist(playlistId, { folder: node.path }),
+            folder => moveFolderInto(folder, node.path)
+          );
+          tree.append(item);
+          node.folders.forEach(child => addFolder(child, depth + 1));
+        };
+        buildFolderTree(playlists, libraryView.newFolders).folders.forEach(folder => addFolder(folder, 0));
+      };
+
+      // Show the library grouped by folder, scrolled to the given one
+      const openFolder = async (folder: string) => {
+        libraryView.group = 'folder';
+        libraryView.query = '';
+        for (let path = folder; path; path = parentFolder(path)) {
+          libraryView.collapsed.delete(`folder:${path}`);
+        }
+
+        await showPlaylistsPage();
+        const section = [...document.querySelectorAll<HTMLElement>('.library-section')]
+          .find(element => element.dataset.folder === folder);
+        section?.scrollIntoView({ block: 'start' });
+      };
+
+      // Show main playlists list page
+      const showPlaylistsPage = async () => {
+        // Back from a playlist, its card gets the focus
+        const returnTo = currentView === 'detail' ? currentPlaylist?.id : undefined;
+        currentView = 'list';
+        currentPlaylist = null;
+
+        const mainContent = document.querySelector('ytmusic-app-layout');
+        if (!mainContent) return;
+
+        // Clear existing page
+        const existingPage = document.getElementById('local-playlists-page');
+        const restoreFocus = rememberFocus(existingPage);
+        if (existingPage) {
+          existingPage.remove();
+        }
+
+        // Show our page, but don't hide the sidebar or nav
+        router?.enter({ page: 'list' });
+
+        const page = document.createElement('div');
+        page.id = 'local-playlists-page';
+        page.className = 'local-playlists-page';
+        page.setAttribute('role', 'region');
+        page.setAttribute('aria-labelledby', 'local-playlists-title');
+        
+        let playlists = await context.ipc.invoke('get-local-playlists');
+
+        setHtml(page, html`
+          <div class="page-header">
+            <h1 id="local-playlists-title" tabindex="-1">Local Playlists</h1>
+            <div class="page-actions">
+              <button id="import-playlist-btn" class="action-btn">
+                <span>📥</span> Import Playlist
+              </button>
+              <button id="import-library-btn" class="action-btn" title="Import a Takeout, Spotify or Apple Music export folder">
+                <span>📦</span> Import Library
+              </button>
+              <button id="new-playlist-btn" class="action-btn" aria-keyshortcuts="N">
+                <span>📝</span> New Playlist
+              </button>
+              <button id="save-queue-btn" class="action-btn">
+                <span>➕</span> Save Queue
+              </button>
+              <button id="append-queue-btn" class="action-btn">
+                <span>⤵️</span> Append Queue
+              </button>
+              <button id="save-current-song-btn" class="action-btn">
+                <span>🎵</span> Save Current Song
+              </button>
+              <button id="create-smart-playlist-btn" class="action-btn">
+                <span>✨</span> New Smart Playlist
+              </button>
+              <button id="listening-stats-btn" class="action-btn">
+                <span>📊</span> Listening Stats
+              </button>
+              <button id="library-duplicates-btn" class="action-btn">
+                <span>👯</span> Duplicates
+              </button>
+              <button id="trash-btn" class="action-btn">
+                <span>🗑️</span> Trash
+              </button>
+            </div>
+          </div>
+          <div id="library-health" class="library-health" hidden></div>
+          <div id="resolution-status" class="resolution-status" role="status" hidden></div>
+          ${playlists.length === 0 ? '' : html`
+            <div class="library-toolbar">
+              <input id="library-search" class="library-search" type="search" placeholder="Search playlists, songs, artists and albums">
+              <select id="library-sort" class="library-select" title="Sort by">
+                <option value="name">Name</option>
+                <option value="created">Recently created</option>
+                <option value="modified">Recently modified</option>
+                <option value="songs">Song count</option>
+                <option value="duration">Total duration</option>
+              </select>
+              <select id="library-filter" class="library-select" title="Filter">
+                <option value="all">All playlists</option>
+                <option value="regular">Regular playlists</option>
+                <option value="smart">Smart playlists</option>
+                <option value="unresolved">Has unresolved songs</option>
+                <option value="unavailable">Has unavailable songs</option>
+              </select>
+              <select id="library-group" class="library-select" title="Group by">
+                <option value="folder">Folders</option>
+                <option value="tag">Tags</option>
+                <option value="none">No grouping</option>
+              </select>
+              <button id="new-folder-btn" class="action-btn">📁 New Folder</button>
+            </div>
+          `}
+          <div class="playlists-grid"></div>
+        `);
+
+        mainContent.appendChild(page);
+
+        // Add event listeners
+        document.getElementById('import-playlist-btn')?.addEventListener('click', async () => {
+          finishImport(await context.ipc.invoke('import-playlist-file'));
+        });
+        document.getElementById('import-library-btn')?.addEventListener('click', async () => {
+          finishImport(await context.ipc.invoke('import-library-folder'));
+        });
+        addFileDropTarget(page);
+
+        document.getElementById('new-playlist-btn')?.addEventListener('click', () => createPlaylist());
+        document.getElementById('save-queue-btn')?.addEventListener('click', async () => {
+          await saveQueue();
+          showPlaylistsPage();
+        });
+        document.getElementById('append-queue-btn')?.addEventListener('click', async () => {
+          await appendQueue();
+          showPlaylistsPage();
+        });
+        document.getElementById('save-current-song-btn')?.addEventListener('click', async () => {
+          await saveCurrentSong();
+          showPlaylistsPage();
+        });
+
+        document.getElementById('create-smart-playlist-btn')?.addEventListener('click', () => editSmartPlaylist());
+        document.getElementById('listening-stats-btn')?.addEventListener('click', () => showStatsPage());
+        document.getElementById('library-duplicates-btn')?.addEventListener('click', async () => {
+          const action = await showLibraryDuplicatesDialog(findLibraryDuplicates(playlists));
+          if (action?.type === 'review') {
+            showPlaylistDetail(action.playlistId, undefined, true);
+          } else if (action?.type === 'compare') {
+            comparePlaylists(action.firstId, action.secondId);
+          }
+        });
+        document.getElementById('trash-btn')?.addEventListener('click', async () => {
+          const restored = await showTrashDialog({
+            entries: await context.ipc.invoke('get-trash'),
+            restore: (id) => context.ipc.invoke('restore-from-trash', id),
+            purge: (id) => context.ipc.invoke('purge-trash', id),
+          });
+          if (restored) {
+            showPlaylistsPage();
+          }
+        });
+
+        const grid = page.querySelector('.playlists-grid') as HTMLElement;
+        const searchInput = document.getElementById('library-search') as HTMLInputElement | null;
+        const sortSelect = document.getElementById('library-sort') as HTMLSelectElement | null;
+        const filterSelect = document.getElementById('library-filter') as HTMLSelectElement | null;
+        const groupSelect = document.getElementById('library-group') as HTMLSelectElement | null;
+
+        const renderCards = (container: HTMLElement, visible: Playlist[]) => {
+          // Only worth tagging when there's more than one library folder
+          const showSources = new Set(playlists.map((p: Playlist) => p.source?.dir)).size > 1;
+
+          container.setAttribute('role', 'list');
+          container.setAttribute('aria-label', 'Playlists');
+          setHtml(container, visible.map((playlist: Playlist) => playlistCardHtml(playlist, showSources)));
+
+          container.querySelectorAll('.playlist-card').forEach(card => {
+            const playlistId = (card as HTMLElement).dataset.playlistId!;
+            const playlist = visible.find(p => p.id === playlistId)!;
+
+            showCover(card.querySelector('.playlist-thumbnail') as HTMLElement, playlist);
+
+            card.addEventListener('click', (e) => {
+              const target = e.target as HTMLElement;
+              
+              if (target.closest('.pin-btn')) {
+                e.stopPropagation();
+                organizePlaylist(playlistId, { pinned: !playlist.pinned });
+              } else if (target.classList.contains('play-btn') || target.closest('.play-btn')) {
+                e.stopPropagation();
+                playPlaylist(playlistId);
+              } else {
+                showPlaylistDetail(playlistId);
+              }
+            });
+
+            if (!playlist.source?.readOnly) {
+              makeDraggable(card as HTMLElement, PLAYLIST_DRAG_TYPE, playlistId);
+            }
+          });
+        };
+
+        const appendCards = (parent: HTMLElement, visible: Playlist[]) => {
+          if (visible.length === 0) return;
+          const cards = document.createElement('div');
+          cards.className = 'playlists-grid';
+          renderCards(cards, visible);
+          parent.append(cards);
+        };
+
+        // A foldable block of cards with a heading, for pinned playlists,
+        // folders and tags
+        const createSection = (key: string, title: string, count: number) => {
+          const collapsed = libraryView.collapsed.has(key);
+
+          const section = document.createElement('div');
+          section.className = 'library-section';
+
+          const header = document.createElement('div');
+          header.className = 'library-section-header';
+
+          const toggle = document.createElement('button');
+          toggle.className = 'library-section-toggle';
+          toggle.textContent = `${collapsed ? '▸' : '▾'} ${title}`;
+          toggle.setAttribute('aria-expanded', String(!collapsed));
+          toggle.addEventListener('click', () => {
+            if (libraryView.collapsed.has(key)) {
+              libraryView.collapsed.delete(key);
+            } else {
+              libraryView.collapsed.add(key);
+            }
+            renderLibrary();
+          });
+
+          const countLabel = document.createElement('span');
+          countLabel.className = 'library-section-count';
+          countLabel.textContent = `${count} ${count === 1 ? 'playlist' : 'playlists'}`;
+          header.append(toggle, countLabel);
+
+          const body = document.createElement('div');
+          body.className = 'library-section-body';
+          body.hidden = collapsed;
+
+          section.append(header, body);
+          return { section, header, body };
+        };
+
+        const createSectionAction = (label: string, title: string, onClick: () => void) => {
+          const button = document.createElement('button');
+          button.className = 'library-section-action';
+          button.textContent = label;
+          button.title = title;
+          button.addEventListener('click', onClick);
+          return button;
+        };
+
+        const renderFolder = (node: FolderNode): HTMLElement => {
+          const { section, header, body } = createSection(`folder:${node.path}`, `📁 ${node.name}`, countFolderPlaylists(node));
+          section.dataset.folder = node.path;
+          makeDraggable(header, FOLDER_DRAG_TYPE, node.path);
+          addDropTarget(
+            section,
+            playlistId => organizePlaylist(playlistId, { folder: node.path }),
+            folder => moveFolderInto(folder, node.path)
+          );
+
+          const parent = parentFolder(node.path);
+          header.append(
+            createSectionAction('✏️', 'Rename folder', async () => {
+              const siblings = libraryFolders(playlists)
+                .filter(folder => folder !== node.path && parentFolder(folder) === parent);
+              const name = await showNameDialog({
+                title: 'Rename folder',
+                initial: node.name,
+                confirmLabel: 'Rename',
+                validate: (value) => {
+                  if (value.includes('/')) return { error: 'Folder names can\'t contain "/"' };
+                  return siblings.some(folder => folderName(folder) === value)
+                    ? { warning: `There's already a folder "${value}" here, the two will be merged` }
+                    : null;
+                },
+              });
+              if (!name || name === node.name) return;
+              moveFolder(node.path, parent ? `${parent}/${name}` : name);
+            }),
+            createSectionAction('✕', 'Remove folder, keeping its playlists', async () => {
+              const confirmed = await showConfirmDialog({
+                title: `Remove the folder "${node.name}"?`,
+                message: `Its playlists move to ${parent || 'the top of the library'}.`,
+                confirmLabel: 'Remove folder',
+              });
+              if (confirmed) {
+                moveFolder(node.path, parent);
+              }
+            })
+          );
+
+          appendCards(body, node.playlists);
+          node.folders.forEach(child => body.append(renderFolder(child)));
+          return section;
+        };
+
+        const renderGroups = (visible: Playlist[]) => {
+          grid.replaceChildren();
+
+          const pinned = visible.filter(playlist => playlist.pinned);
+          if (pinned.length > 0) {
+            const { section, body } = createSection('pinned', '📌 Pinned', pinned.length);
+            appendCards(body, pinned);
+            grid.append(section);
+          }
+
+          if (libraryView.group === 'folder') {
+            const tree = buildFolderTree(visible, libraryView.newFolders);
+            grid.append(...tree.folders.map(renderFolder));
+
+            if (tree.folders.length === 0) {
+              appendCards(grid, tree.playlists);
+            } else if (tree.playlists.length > 0) {
+              // Dropping here takes playlists out of their folder
+              const { section, body } = createSection('folder:', 'Not in a folder', tree.playlists.length);
+              addDropTarget(
+                section,
+                playlistId => organizePlaylist(playlistId, { folder: '' }),
+                folder => moveFolderInto(folder, '')
+              );
+              appendCards(body, tree.playlists);
+              grid.append(section);
+            }
+            return;
+          }
+
+          for (const group of groupByTag(visible)) {
+            const { tag } = group;
+            const { section, body } = createSection(`tag:${tag ?? ''}`, tag ? `🏷️ ${tag}` : 'No tags', group.playlists.length);
+            // Dropping a playlist on a tag adds the tag
+            if (tag) {
+              addDropTarget(section, playlistId => {
+                const playlist = playlists.find((p: Playlist) => p.id === playlistId);
+                organizePlaylist(playlistId, { tags: [...(playlist?.tags ?? []), tag] });
+              });
+            }
+            appendCards(body, group.playlists);
+            grid.append(section);
+          }
+        };
+
+        // Search results are built from text nodes so the highlighted parts
+        // can be wrapped in <mark> without parsing song data as HTML
+        const appendHighlighted = (parent: HTMLElement, text: string, query: string) => {
+          for (const part of highlightParts(text, query)) {
+            if (part.match) {
+              const mark = document.createElement('mark');
+              mark.textContent = part.text;
+              parent.append(mark);
+            } else {
+              parent.append(part.text);
+            }
+          }
+        };
 
-        // Insert into FULL sidebar (#guide)
-        let insertedFull = false;
-        const fullGuideItems = document.querySelectorAll('#guide ytmusic-guide-entry-renderer');
-        console.log('Local Playlists: Found', fullGuideItems.length, 'full guide items');
-        
-        for (let item of fullGuideItems) {
-          if (item.textContent && item.textContent.includes('Library')) {
-            console.log('Local Playlists: Found Library in full guide');
-            if (item.parentElement) {
-              item.parentElement.insertBefore(navItemFull, item.nextSibling);
-              insertedFull = true;
-              break;
+        const renderSearchResults = (visible: Playlist[], query: string) => {
+          const results = searchLibrary(visible, query);
+          grid.replaceChildren();
+
+          const container = document.createElement('div');
+          container.className = 'search-results';
+
+          if (results.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'search-empty';
+            empty.textContent = `No results for "${query}"`;
+            container.append(empty);
+          }
+
+          for (const result of results) {
+            const group = document.createElement('div');
+            group.className = 'search-result-group';
+
+            const heading = document.createElement('button');
+            heading.className = 'search-result-playlist';
+            appendHighlighted(heading, result.playlist.name, result.nameMatches ? query : '');
+            const count = document.createElement('span');
+            count.className = 'search-result-count';
+            count.textContent = `${result.songs.length} matching ${result.songs.length === 1 ? 'song' : 'songs'}`;
+            heading.append(count);
+            heading.addEventListener('click', () => showPlaylistDetail(result.playlist.id));
+            group.append(heading);
+
+            for (const match of result.songs) {
+              const row = document.createElement('div');
+              row.className = 'search-result-song';
+
+              const title = document.createElement('div');
+              title.className = 'song-title';
+              appendHighlighted(title, match.song.title, query);
+
+              const details = document.createElement('div');
+              details.className = 'song-artist';
+              appendHighlighted(details, match.song.artist, query);
+              if (match.song.album) {
+                details.append(' • ');
+                appendHighlighted(details, match.song.album, query);
+              }
+
+              row.append(title, details);
+              row.setAttribute('aria-label', `${match.song.title} by ${match.song.artist}, in ${result.playlist.name}`);
+              row.tabIndex = -1;
+              makeActivatable(row, () => showPlaylistDetail(result.playlist.id, match.index));
+              group.append(row);
             }
+
+            container.append(group);
+          }
+
+          grid.append(container);
+        };
+
+        const renderLibrary = () => {
+          if (playlists.length === 0) {
+            setHtml(grid, html`
+              <div class="empty-state">
+                <div class="empty-icon">🎵</div>
+                <h2>No local playlists yet</h2>
+                <p>Import a playlist or create one from your current queue to get started</p>
+              </div>
+            `);
+            return;
+          }
+
+          const visible = sortPlaylists(filterPlaylists(playlists, libraryView.filter), libraryView.sort);
+          const query = libraryView.query.trim();
+
+          if (query) {
+            renderSearchResults(visible, query);
+          } else if (visible.length === 0) {
+            setHtml(grid, html`
+              <div class="empty-state">
+                <h2>No playlists match this filter</h2>
+              </div>
+            `);
+          } else if (libraryView.group === 'none') {
+            renderCards(grid, pinnedFirst(visible));
+          } else {
+            renderGroups(visible);
           }
+          enableRovingFocus(grid, '.playlist-card, .search-result-song', 'grid');
+        };
+
+        if (searchInput && sortSelect && filterSelect && groupSelect) {
+          searchInput.value = libraryView.query;
+          sortSelect.value = libraryView.sort;
+          filterSelect.value = libraryView.filter;
+          groupSelect.value = libraryView.group;
+
+          searchInput.addEventListener('input', () => {
+            libraryView.query = searchInput.value;
+            renderLibrary();
+          });
+          sortSelect.addEventListener('change', () => {
+            libraryView.sort = sortSelect.value as PlaylistSort;
+            renderLibrary();
+          });
+          filterSelect.addEventListener('change', () => {
+            libraryView.filter = filterSelect.value as PlaylistFilter;
+            renderLibrary();
+          });
+          groupSelect.addEventListener('change', () => {
+            libraryView.group = groupSelect.value as PlaylistGrouping;
+            renderLibrary();
+          });
         }
 
-        // Insert into MINI sidebar (#mini-guide)
-        let insertedMini = false;
-        const miniGuideItems = document.querySelectorAll('#mini-guide ytmusic-guide-entry-renderer');
-        console.log('Local Playlists: Found', miniGuideItems.length, 'mini guide items');
-        
-        for (let item of miniGuideItems) {
-          if (item.textContent && item.textContent.includes('Library')) {
-            console.log('Local Playlists: Found Library in mini guide');
-            if (item.parentElement) {
-              item.parentElement.insertBefore(navItemMini, item.nextSibling);
-              insertedMini = true;
-              break;
+        document.getElementById('new-folder-btn')?.addEventListener('click', async () => {
+          const existing = [...libraryFolders(playlists), ...libraryView.newFolders];
+          const folder = normalizeFolder(await showNameDialog({
+            title: 'New folder',
+            hint: 'Use "/" to put it inside another folder, like "Work/2024".',
+            confirmLabel: 'Create',
+            validate: (value) => {
+              if (!normalizeFolder(value)) return { error: 'Enter a name' };
+              return existing.includes(normalizeFolder(value)) ? { error: 'This folder already exists' } : null;
+            },
+          }) ?? '');
+          if (!folder) return;
+
+          libraryView.newFolders.push(folder);
+          libraryView.group = 'folder';
+          if (groupSelect) groupSelect.value = 'folder';
+          renderLibrary();
+          renderSidebarTree();
+        });
+
+        // Broken files are set aside on load, tell the user instead of
+        // leaving them wondering where a playlist went
+        const renderHealth = async () => {
+          const banner = document.getElementById('library-health');
+          if (!banner) return;
+
+          const health: LibraryHealth = await context.ipc.invoke('get-library-health');
+          const summary = describeHealth(health);
+          banner.hidden = !summary;
+          if (!summary) return;
+
+          const text = document.createElement('span');
+          text.textContent = `⚠️ ${summary}`;
+
+          const reviewBtn = document.createElement('button');
+          reviewBtn.className = 'action-btn';
+          reviewBtn.textContent = 'Review';
+          reviewBtn.addEventListener('click', async () => {
+            const changed = await showHealthDialog({
+              health,
+              repairPlaylist: (id) => context.ipc.invoke('repair-playlist', id),
+              repairFile: (file) => context.ipc.invoke('repair-quarantined', file),
+              deleteFile: (file) => context.ipc.invoke('delete-quarantined', file),
+              resolveConflict: (file, resolution) => context.ipc.invoke('resolve-sync-conflict', file, resolution),
+            });
+            if (changed) {
+              showPlaylistsPage();
             }
+          });
+
+          banner.replaceChildren(text, reviewBtn);
+        };
+
+        renderLibrary();
+        renderHealth();
+        renderResolutionStatus();
+
+        const cards = [...grid.querySelectorAll<HTMLElement>('.playlist-card')];
+        const returnCard = cards.find(card => card.dataset.playlistId === returnTo);
+        if (returnCard) {
+          focusItem(cards, returnCard);
+        } else {
+          restoreFocus(page, document.getElementById('local-playlists-title'));
+        }
+
+        // Keys on a card act on that playlist, the rest work anywhere on the page
+        page.addEventListener('keydown', (e) => {
+          const key = shortcutKey(e);
+          if (!key) return;
+
+          const target = e.target as HTMLElement;
+          const playlist = target.matches('.playlist-card')
+            ? playlists.find((p: Playlist) => p.id === target.dataset.playlistId) as Playlist | undefined
+            : undefined;
+
+          if (playlist && key === 'Enter') {
+            showPlaylistDetail(playlist.id);
+          } else if (playlist && key.toLowerCase() === 'p') {
+            playPlaylist(playlist.id);
+          } else if (playlist && key.toLowerCase() === 's') {
+            playPlaylist(playlist.id, true);
+          } else if (playlist && key.toLowerCase() === 'e') {
+            exportPlaylist(playlist.id);
+          } else if (playlist && (key === 'Delete' || key === 'Backspace') && !playlist.source?.readOnly) {
+            deletePlaylist(playlist).then(deleted => {
+              if (deleted) showPlaylistsPage();
+            });
+          } else if (key.toLowerCase() === 'n') {
+            createPlaylist();
+          } else if (key === '/' && searchInput) {
+            searchInput.focus();
+          } else if (key === '?') {
+            showShortcutsDialog(SHORTCUTS);
+          } else {
+            return;
+          }
+          e.preventDefault();
+          e.stopPropagation();
+        });
+
+        refreshOpenPage = async () => {
+          const wasEmpty = playlists.length === 0;
+          playlists = await context.ipc.invoke('get-local-playlists');
+
+          // The toolbar is only there when the library isn't empty
+          if (wasEmpty !== (playlists.length === 0)) {
+            showPlaylistsPage();
+            return;
+          }
+          renderLibrary();
+          renderHealth();
+        };
+      };
+
+      // Show individual playlist detail page
+      const showPlaylistDetail = async (playlistId: string, focusIndex?: number, reviewDuplicates: boolean = false) => {
+        const playlists = await context.ipc.invoke('get-local-playlists');
+        const playlist = playlists.find((p: Playlist) => p.id === playlistId);
+        
+        if (!playlist) {
+          showToast('Playlist not found', { type: 'error' });
+          // Opened from a link or the history after the playlist was deleted
+          const route = router?.current();
+          if (route?.page === 'playlist' && route.playlistId === playlistId) {
+            router?.enter({ page: 'list' }, true);
+            showPlaylistsPage();
+          }
+          return;
+        }
+
+        const playStats: Record<string, SongPlayStats> = await context.ipc.invoke('get-song-play-stats');
+
+        currentView = 'detail';
+        currentPlaylist = playlist;
+        editHistory.reset(playlistId);
+        router?.enter({ page: 'playlist', playlistId });
+
+        // Playlists from read-only folders can be played, exported and copied
+        const readOnly = !!playlist.source?.readOnly;
+        // Smart playlist contents come from their rules, not from editing
+        const editable = !playlist.smart && !readOnly;
+
+        const existingPage = document.getElementById('local-playlists-page');
+        const restoreFocus = rememberFocus(existingPage);
+        if (existingPage) {
+          existingPage.remove();
+        }
+
+        const mainContent = document.querySelector('ytmusic-app-layout');
+        if (!mainContent) return;
+
+        const page = document.createElement('div');
+        page.id = 'local-playlists-page';
+        page.className = 'local-playlists-page playlist-detail';
+        page.setAttribute('role', 'region');
+        page.setAttribute('aria-labelledby', 'playlist-detail-title');
+
+        setHtml(page, html`
+          <div class="detail-header">
+            <button id="back-btn" class="back-btn" aria-label="Back to all playlists" aria-keyshortcuts="Escape">← Back</button>
+            ${playlistDetailInfoHtml(playlist, playlists)}
+            <div class="detail-actions">
+              <button id="play-all-btn" class="action-btn primary" aria-keyshortcuts="P">
+                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                  <path d="M8 5v14l11-7z"/>
+                </svg>
+                Play All
+              </button>
+              <button id="shuffle-play-btn" class="action-btn primary" aria-keyshortcuts="S">
+                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                  <path d="M10.59 9.17L5.41 4 4 5.41l5.17 5.17 1.42-1.41zM14.5 4l2.04 2.04L4 18.59 5.41 20 17.96 7.46 20 9.5V4h-5.5zm.33 9.41l-1.41 1.41 3.13 3.13L14.5 20H20v-5.5l-2.04 2.04-3.13-3.13z"/>
+                </svg>
+                Shuffle
+              </button>
+              ${readOnly ? html`
+                <button id="copy-to-library-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z"/>
+                  </svg>
+                  Copy to Library
+                </button>
+              ` : html`
+                <button id="${playlist.smart ? 'edit-rules-btn' : 'rename-playlist-btn'}" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                  </svg>
+                  ${playlist.smart ? 'Edit Rules' : 'Rename'}
+                </button>
+                <button id="pin-playlist-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z"/>
+                  </svg>
+                  ${playlist.pinned ? 'Unpin' : 'Pin'}
+                </button>
+                <button id="organize-playlist-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M10 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z"/>
+                  </svg>
+                  Folder &amp; Tags
+                </button>
+                <button id="set-cover-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM8.5 13.5l2.5 3.01L14.5 12l4.5 6H5l3.5-4.5z"/>
+                  </svg>
+                  ${playlist.cover ? 'Change Cover' : 'Set Cover'}
+                </button>
+                ${playlist.cover ? html`
+                  <button id="remove-cover-btn" class="action-btn">Remove Cover</button>
+                ` : ''}
+              `}
+              ${!readOnly && !playlist.smart && playlist.songs.some((song: Song) => !song.videoId) ? html`
+                <button id="find-matches-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z"/>
+                  </svg>
+                  Find missing songs
+                </button>
+              ` : ''}
+              ${!readOnly && !playlist.smart && playlist.songs.some((song: Song) => song.videoId) ? html`
+                <button id="check-availability-btn" class="action-btn" title="Check which songs can still be played">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm-2 16l-4-4 1.41-1.41L10 14.17l6.59-6.59L18 9l-8 8z"/>
+                  </svg>
+                  Check availability
+                </button>
+              ` : ''}
+              ${editable ? html`
+                <button id="duplicates-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z"/>
+                  </svg>
+                  Duplicates
+                </button>
+              ` : ''}
+              <button id="compare-btn" class="action-btn">
+                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                  <path d="M10 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h5v2h2V1h-2v2zm0 15H5l5-6v6zm9-15h-5v2h5v13l-5-6v9h5c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2z"/>
+                </svg>
+                Compare
+              </button>
+              <button id="export-playlist-btn" class="action-btn" aria-keyshortcuts="E">
+                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                  <path d="M19 12v7H5v-7H3v7c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2v-7h-2zm-6 .67l2.59-2.58L17 11.5l-5 5-5-5 1.41-1.41L11 12.67V3h2z"/>
+                </svg>
+                Export
+              </button>
+              ${readOnly ? '' : html`
+                <button id="version-history-btn" class="action-btn">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/>
+                  </svg>
+                  History
+                </button>
+                <button id="delete-playlist-btn" class="action-btn danger">
+                  <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
+                    <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                  </svg>
+                  Delete
+                </button>
+              `}
+            </div>
+            <div id="queue-status" class="queue-status" role="status" aria-live="polite"></div>
+          </div>
+          ${playlist.smart || readOnly ? '' : html`
+            <div class="edit-toolbar">
+              <span id="selection-count" class="selection-count"></span>
+              <button id="remove-selected-btn" class="action-btn danger" disabled>Remove selected</button>
+              <button id="undo-edit-btn" class="action-btn" disabled>Undo</button>
+            </div>
+          `}
+          <div class="songs-list" role="list" aria-label="Songs"></div>
+        `);
+
+        mainContent.appendChild(page);
+        showCover(page.querySelector('.detail-thumbnail') as HTMLElement, playlist);
+
+        // Event listeners
+        document.getElementById('back-btn')?.addEventListener('click', showPlaylistsPage);
+        document.getElementById('play-all-btn')?.addEventListener('click', () => playPlaylist(playlistId, false));
+        document.getElementById('shuffle-play-btn')?.addEventListener('click', () => playPlaylist(playlistId, true));
+        document.getElementById('rename-playlist-btn')?.addEventListener('click', async () => {
+          const newName = await showNameDialog({
+            title: 'Rename playlist',
+            initial: playlist.name,
+            existingNames: playlists.map((p: Playlist) => p.name),
+            confirmLabel: 'Rename',
+          });
+          if (!newName || newName === playlist.name) return;
+
+          const result = await context.ipc.invoke('rename-playlist', playlistId, newName);
+          showResult(result, {
+            label: 'Undo',
+            run: async () => {
+              showResult(await context.ipc.invoke('rename-playlist', playlistId, playlist.name));
+              await refreshOpenPage?.([]);
+            },
+          });
+          if (result.success) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('edit-rules-btn')?.addEventListener('click', () => editSmartPlaylist(playlist));
+        document.getElementById('pin-playlist-btn')?.addEventListener('click', async () => {
+          if (await organizePlaylist(playlistId, { pinned: !playlist.pinned })) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('organize-playlist-btn')?.addEventListener('click', async () => {
+          const changes = await showOrganizeDialog({
+            playlist,
+            folders: libraryFolders(playlists),
+            tags: libraryTags(playlists),
+          });
+          if (changes && await organizePlaylist(playlistId, changes)) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('set-cover-btn')?.addEventListener('click', async () => {
+          const result = await context.ipc.invoke('choose-playlist-cover', playlistId);
+          showResult(result);
+          if (result.success) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('remove-cover-btn')?.addEventListener('click', async () => {
+          const result = await context.ipc.invoke('remove-playlist-cover', playlistId);
+          showResult(result);
+          if (result.success) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('copy-to-library-btn')?.addEventListener('click', async () => {
+          const result = await context.ipc.invoke('copy-to-library', playlistId);
+          showResult(result);
+          if (result.success) {
+            showPlaylistDetail(result.playlist.id);
+          }
+        });
+        document.getElementById('find-matches-btn')?.addEventListener('click', () => resolveMissingSongs(playlistId));
+        document.getElementById('check-availability-btn')?.addEventListener('click', () => checkAvailability(playlistId));
+        document.getElementById('export-playlist-btn')?.addEventListener('click', () => exportPlaylist(playlistId));
+        document.getElementById('compare-btn')?.addEventListener('click', () => comparePlaylists(playlistId));
+        document.getElementById('version-history-btn')?.addEventListener('click', async () => {
+          const versionId = await showVersionHistoryDialog({
+            playlist,
+            playlists,
+            versions: await context.ipc.invoke('get-playlist-versions', playlistId),
+            loadVersion: (id) => context.ipc.invoke('get-playlist-version', playlistId, id),
+          });
+          if (!versionId) return;
+
+          const result = await context.ipc.invoke('restore-playlist-version', playlistId, versionId);
+          showResult(result);
+          if (result.success) {
+            showPlaylistDetail(playlistId);
+          }
+        });
+        document.getElementById('delete-playlist-btn')?.addEventListener('click', async () => {
+          if (await deletePlaylist(playlist)) {
+            showPlaylistsPage();
+          }
+        });
+
+        const selected = new Set<number>();
+        let lastSelected: number | null = null;
+        let dragIndex: number | null = null;
+
+        const updateEditToolbar = () => {
+          const removeBtn = document.getElementById('remove-selected-btn') as HTMLButtonElement | null;
+          const undoBtn = document.getElementById('undo-edit-btn') as HTMLButtonElement | null;
+          const count = document.getElementById('selection-count');
+
+          if (removeBtn) removeBtn.disabled = selected.size === 0;
+          if (undoBtn) undoBtn.disabled = !editHistory.canUndo();
+          if (count) count.textContent = selected.size > 0 ? `${selected.size} selected` : '';
+        };
+
+        // Save an edited song list, keeping the previous one for undo
+        const applyEdit = async (songs: Song[], recordUndo: boolean = true) => {
+          const previous = playlist.songs;
+          const result = await savePlaylist({ ...playlist, songs });
+
+          if (!result.success) {
+            showResult(result);
+            return false;
+          }
+
+          if (recordUndo) {
+            editHistory.push(previous);
+          }
+          Object.assign(playlist, result.playlist);
+          selected.clear();
+          lastSelected = null;
+          renderSongs();
+          return true;
+        };
+
+        const renderSongs = () => {
+          const list = page.querySelector('.songs-list');
+          if (!list) return;
+
+          setHtml(list, playlist.songs.map((song: Song, index: number) => songItemHtml(song, index, {
+            selected: selected.has(index),
+            editable,
+            plays: formatPlayStats(playStats[song.videoId]),
+          })));
+
+          const detailCount = page.querySelector('.detail-text p');
+          if (detailCount) {
+            detailCount.textContent = `${playlist.songs.length} songs`;
+          }
+
+          list.querySelectorAll('.song-item').forEach(item => {
+            const element = item as HTMLElement;
+            const index = parseInt(element.dataset.index!);
+
+            showThumbnail(element.querySelector('.song-thumbnail') as HTMLElement, playlist.songs[index]);
+
+            element.addEventListener('click', (e) => {
+              const target = e.target as HTMLElement;
+
+              if (target.classList.contains('song-select')) {
+                e.stopPropagation();
+
+                // Shift-click selects the whole range since the last selection
+                if ((e as MouseEvent).shiftKey && lastSelected !== null) {
+                  const [start, end] = [Math.min(lastSelected, index), Math.max(lastSelected, index)];
+                  for (let i = start; i <= end; i++) {
+                    selected.add(i);
+                  }
+                } else if (selected.has(index)) {
+                  selected.delete(index);
+                } else {
+                  selected.add(index);
+                }
+
+                lastSelected = index;
+                list.querySelectorAll('.song-item').forEach(el => {
+                  const i = parseInt((el as HTMLElement).dataset.index!);
+                  el.classList.toggle('selected', selected.has(i));
+                  (el.querySelector('.song-select') as HTMLInputElement).checked = selected.has(i);
+                });
+                updateEditToolbar();
+                return;
+              }
+
+              if (target.classList.contains('replace-song-btn')) {
+                e.stopPropagation();
+                replaceSong(index);
+                return;
+              }
+
+              // Opening a dead video only shows YouTube's error page
+              const song = playlist.songs[index];
+              if (isUnavailable(song)) {
+                showToast(`"${song.title}": ${describeAvailability(song.availability)}`, {
+                  type: 'error',
+                  action: editable ? { label: 'Replace', run: () => replaceSong(index) } : undefined,
+                });
+                return;
+              }
+
+              searchAndPlay(song, playlist, index);
+            });
+
+            element.addEventListener('dragstart', (e) => {
+              dragIndex = index;
+              element.classList.add('dragging');
+              e.dataTransfer?.setData('text/plain', String(index));
+              if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+            });
+
+            element.addEventListener('dragend', () => {
+              dragIndex = null;
+              element.classList.remove('dragging');
+              list.querySelectorAll('.drag-over').forEach(el => el.classList.remove('drag-over'));
+            });
+
+            element.addEventListener('dragover', (e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              element.classList.add('drag-over');
+            });
+
+            element.addEventListener('dragleave', () => {
+              element.classList.remove('drag-over');
+            });
+
+            element.addEventListener('drop', (e) => {
+              e.preventDefault();
+              element.classList.remove('drag-over');
+              if (dragIndex === null || dragIndex === index) return;
+
+              applyEdit(moveSong(playlist.songs, dragIndex, index));
+              dragIndex = null;
+            });
+          });
+
+          updateEditToolbar();
+          enableRovingFocus(list as HTMLElement, '.song-item', 'list');
+        };
+
+        // After the list was rebuilt by an edit made from the keyboard
+        const focusSong = (index: number) => {
+          const items = [...page.querySelectorAll<HTMLElement>('.song-item')];
+          focusItem(items, items[Math.min(index, items.length - 1)]);
+        };
+
+        const undoEdit = () => {
+          const previous = editHistory.undo();
+          if (previous) {
+            applyEdit(previous, false);
+          }
+        };
+
+        const removeWithUndo = async (indexes: number[]) => {
+          const count = indexes.length;
+          if (count === 0) return false;
+          if (!await applyEdit(removeSongs(playlist.songs, indexes))) return false;
+
+          showToast(`Removed ${count} ${count === 1 ? 'song' : 'songs'}`, {
+            type: 'success',
+            action: {
+              label: 'Undo',
+              // The edit history belongs to this page, so only while it's open
+              run: () => {
+                if (page.isConnected) undoEdit();
+              },
+            },
+          });
+          return true;
+        };
+
+        document.getElementById('remove-selected-btn')?.addEventListener('click', () => removeWithUndo([...selected]));
+        document.getElementById('undo-edit-btn')?.addEventListener('click', undoEdit);
+
+        // Swap a song's video for another version of the same song
+        const replaceSong = async (index: number) => {
+          const song = playlist.songs[index];
+          const candidate = await findReplacement(song, index);
+          if (!candidate || !page.isConnected || playlist.songs[index] !== song) return;
+
+          const songs = playlist.songs.map((s: Song, i: number) => (i === index ? replaceVideo(s, candidate.videoId) : s));
+          if (!await applyEdit(songs)) return;
+
+          showToast(`Replaced "${song.title}" with ${candidate.artist} - ${candidate.title}`, {
+            type: 'success',
+            action: {
+              label: 'Undo',
+              run: () => {
+                if (page.isConnected) undoEdit();
+              },
+            },
+          });
+        };
+
+        const removeDuplicates = async () => {
+          const indexes = await showDuplicatesDialog(playlist.songs, findDuplicates(playlist.songs));
+          if (indexes && indexes.length > 0) {
+            applyEdit(removeSongs(playlist.songs, indexes));
+          }
+        };
+        document.getElementById('duplicates-btn')?.addEventListener('click', removeDuplicates);
+
+        renderSongs();
+
+        // Our own edits are already on screen. Smart playlists also change
+        // when any playlist their rules read from changes.
+        refreshOpenPage = async (changes) => {
+          const relevant = changes.filter(change => change.external &&
+            (playlist.smart || change.type === 'reloaded' || change.id === playlistId));
+          if (relevant.length === 0) return;
+
+          const latest = (await context.ipc.invoke('get-local-playlists'))
+            .find((p: Playlist) => p.id === playlistId);
+          if (!latest) {
+            showToast(`Playlist "${playlist.name}" was deleted outside the app`, { type: 'error' });
+            showPlaylistsPage();
+            return;
+          }
+
+          Object.assign(playlist, latest);
+          editHistory.reset(playlistId);
+          selected.clear();
+          lastSelected = null;
+
+          const title = page.querySelector('.detail-text h1');
+          if (title) {
+            title.textContent = playlist.name;
           }
+          renderSongs();
+
+          const status = document.getElementById('queue-status');
+          if (status) {
+            status.textContent = 'Updated with changes made outside the app';
+          }
+        };
+
+        // Coming from a search result: bring the matching song into view
+        const focusedSong = focusIndex !== undefined
+          ? page.querySelector<HTMLElement>(`.song-item[data-index="${focusIndex}"]`)
+          : null;
+        if (focusedSong) {
+          focusedSong.classList.add('highlighted');
+          focusItem([...page.querySelectorAll<HTMLElement>('.song-item')], focusedSong);
+          focusedSong.scrollIntoView({ block: 'center' });
+        } else {
+          restoreFocus(page, document.getElementById('playlist-detail-title'));
+        }
+
+        // Keys on a song act on that song, the rest work anywhere on the page
+        page.addEventListener('keydown', (e) => {
+          const key = shortcutKey(e);
+          if (!key) return;
+
+          const target = e.target as HTMLElement;
+          const index = target.matches('.song-item') ? parseInt(target.dataset.index!) : -1;
+
+          if (index >= 0 && key === 'Enter') {
+            target.click();
+          } else if (index >= 0 && key === ' ' && editable) {
+            target.querySelector<HTMLInputElement>('.song-select')?.click();
+          } else if (index >= 0 && (key === 'Delete' || key === 'Backspace') && editable) {
+            // The whole selection when the song is part of it
+            const indexes = selected.has(index) ? [...selected] : [index];
+            const first = Math.min(...indexes);
+            removeWithUndo(indexes).then(removed => {
+              if (removed) focusSong(first);
+            });
+          } else if (key.toLowerCase() === 'p') {
+            playPlaylist(playlistId, false);
+          } else if (key.toLowerCase() === 's') {
+            playPlaylist(playlistId, true);
+          } else if (key.toLowerCase() === 'e') {
+            exportPlaylist(playlistId);
+          } else if (key.toLowerCase() === 'n') {
+            createPlaylist();
+          } else if (key === 'Escape') {
+            showPlaylistsPage();
+          } else if (key === '?') {
+            showShortcutsDialog(SHORTCUTS);
+          } else {
+            return;
+          }
+          e.preventDefault();
+          e.stopPropagation();
+        });
+
+        // Coming from the library's duplicates overview
+        if (reviewDuplicates && editable) {
+          removeDuplicates();
         }
+      };
 
-        if (insertedFull || insertedMini) {
-          console.log(`Local Playlists: Nav items added - Full: ${insertedFull}, Mini: ${insertedMini}`);
+      // "3 plays • 2 days ago"
+      const formatPlayStats = (stats?: SongPlayStats): string => {
+        if (!stats || stats.plays === 0) return '';
+
+        const days = Math.floor((Date.now() - Date.parse(stats.lastPlayed)) / (24 * 60 * 60 * 1000));
+        let lastPlayed: string;
+        if (days <= 0) {
+          lastPlayed = 'today';
+        } else if (days === 1) {
+          lastPlayed = 'yesterday';
+        } else if (days < 30) {
+          lastPlayed = `${days} days ago`;
         } else {
-          console.error('Local Playlists: Failed to insert into either sidebar');
+          lastPlayed = new Date(stats.lastPlayed).toLocaleDateString();
         }
-      };
 
-      // Show main playlists list page
-      const showPlaylistsPage = async () => {
-        currentView = 'list';
-        currentPlaylist = null;
+        return `${stats.plays} ${stats.plays === 1 ? 'play' : 'plays'} • ${lastPlayed}`;
+      };
 
+      // Top tracks and artists from the local listening history
+      const showStatsPage = async (period: StatsPeriod = 'month') => {
         const mainContent = document.querySelector('ytmusic-app-layout');
         if (!mainContent) return;
 
-        // Clear existing page
-        const existingPage = document.getElementById('local-playlists-page');
-        if (existingPage) {
-          existingPage.remove();
-        }
+        const stats = await context.ipc.invoke('get-history-stats', period);
 
-        // Show our page, but don't hide the sidebar or nav
-        const ytmusicContent = document.querySelectorAll('ytmusic-browse-response, ytmusic-search-response, ytmusic-player-page');
-        ytmusicContent.forEach(el => {
-          (el as HTMLElement).style.display = 'none';
-        });
+        document.getElementById('local-playlists-page')?.remove();
+        refreshOpenPage = null;
+        router?.enter({ page: 'stats' });
 
         const page = document.createElement('div');
         page.id = 'local-playlists-page';
-        page.className = 'local-playlists-page';
-        
-        const playlists = await context.ipc.invoke('get-local-playlists');
+        page.className = 'local-playlists-page stats-page';
+
+        const periods: { value: StatsPeriod; label: string }[] = [
+          { value: 'week', label: 'Last 7 days' },
+          { value: 'month', label: 'Last 30 days' },
+          { value: 'year', label: 'Last year' },
+          { value: 'all', label: 'All time' }
+        ];
+
+        const hours = stats ? Math.round(stats.totalSeconds / 360) / 10 : 0;
 
-        page.innerHTML = `
+        setHtml(page, html`
+          <button id="back-btn" class="back-btn">← Back</button>
           <div class="page-header">
-            <h1>Local Playlists</h1>
+            <h1>Listening Stats</h1>
             <div class="page-actions">
-              <button id="import-playlist-btn" class="action-btn">
-                <span>📥</span> Import Playlist
-              </button>
-              <button id="create-from-queue-btn" class="action-btn">
-                <span>➕</span> Create from Queue
-              </button>
+              <button id="export-history-json-btn" class="action-btn">Export JSON</button>
+              <button id="export-history-csv-btn" class="action-btn">Export CSV</button>
             </div>
           </div>
-          <div class="playlists-grid">
-            ${playlists.length === 0 ? `
-              <div class="empty-state">
-                <div class="empty-icon">🎵</div>
-                <h2>No local playlists yet</h2>
-                <p>Import a playlist or create one from your current queue to get started</p>
-              </div>
-            ` : playlists.map((playlist: Playlist) => `
-              <div class="playlist-card" data-playlist-name="${playlist.name}">
-                <div class="playlist-thumbnail">
-                  <div class="playlist-icon">🎵</div>
-                  <div class="playlist-overlay">
-                    <button class="play-btn" title="Play">▶️</button>
-                  </div>
+          <div class="stats-periods">
+            ${periods.map(p => html`
+              <button class="stats-period-btn${p.value === period ? ' active' : ''}" data-period="${p.value}">${p.label}</button>
+            `)}
+          </div>
+          ${!stats || stats.totalPlays === 0 ? html`
+            <div class="empty-state">
+              <div class="empty-icon">📊</div>
+              <h2>No plays in this period</h2>
+              <p>Songs you listen to are recorded here</p>
+            </div>
+          ` : html`
+            <p class="stats-summary">${stats.totalPlays} plays • ${hours} hours listened</p>
+            <div class="stats-columns">
+              <div class="stats-column">
+                <h2>Top tracks</h2>
+                <div class="songs-list stats-list">
+                  ${stats.topTracks.map((track, index) => html`
+                    <div class="stats-item">
+                      <span class="song-number">${index + 1}</span>
+                      <div class="song-info">
+                        <div class="song-title">${track.title}</div>
+                        <div class="song-artist">${track.artist}</div>
+                      </div>
+                      <span class="stats-count">${track.plays}</span>
+                    </div>
+                  `)}
                 </div>
-                <div class="playlist-card-info">
-                  <h3>${playlist.name}</h3>
-                  <p>${playlist.songs.length} songs</p>
+              </div>
+              <div class="stats-column">
+                <h2>Top artists</h2>
+                <div class="songs-list stats-list">
+                  ${stats.topArtists.map((artist, index) => html`
+                    <div class="stats-item">
+                      <span class="song-number">${index + 1}</span>
+                      <div class="song-info">
+                        <div class="song-title">${artist.artist}</div>
+                      </div>
+                      <span class="stats-count">${artist.plays}</span>
+                    </div>
+                  `)}
                 </div>
               </div>
-            `).join('')}
-          </div>
-        `;
+            </div>
+          `}
+        `);
 
         mainContent.appendChild(page);
 
-        // Add event listeners
-        document.getElementById('import-playlist-btn')?.addEventListener('click', async () => {
-          const result = await context.ipc.invoke('import-playlist-file');
-          if (result.success) {
-            showPlaylistsPage();
-          }
-          alert(result.message);
+        document.getElementById('back-btn')?.addEventListener('click', showPlaylistsPage);
+        page.querySelectorAll('.stats-period-btn').forEach(button => {
+          button.addEventListener('click', () => {
+            showStatsPage((button as HTMLElement).dataset.period as StatsPeriod);
+          });
         });
 
-        document.getElementById('create-from-queue-btn')?.addEventListener('click', async () => {
-          await createFromQueue();
-          showPlaylistsPage();
-        });
+        const exportHistory = async (format: 'json' | 'csv') => {
+          showResult(await context.ipc.invoke('export-history', format));
+        };
+        document.getElementById('export-history-json-btn')?.addEventListener('click', () => exportHistory('json'));
+        document.getElementById('export-history-csv-btn')?.addEventListener('click', () => exportHistory('csv'));
+      };
 
-        document.querySelectorAll('.playlist-card').forEach(card => {
-          card.addEventListener('click', (e) => {
-            const target = e.target as HTMLElement;
-            const playlistName = (card as HTMLElement).dataset.playlistName!;
-            
-            if (target.classList.contains('play-btn') || target.closest('.play-btn')) {
-              e.stopPropagation();
-              playPlaylist(playlistName);
-            } else {
-              showPlaylistDetail(playlistName);
-            }
-          });
+      // Moves the playlist to the trash after asking. Resolves with whether
+      // it was deleted.
+      const deletePlaylist = async (playlist: Playlist) => {
+        const confirmed = await showConfirmDialog({
+          title: `Delete "${playlist.name}"?`,
+          message: 'The playlist is moved to the trash, you can restore it from there.',
+          confirmLabel: 'Move to trash',
+          danger: true,
         });
+        if (!confirmed) return false;
 
-        // Enable navigation while on our page
-        setupNavigationListeners();
+        const result = await context.ipc.invoke('delete-playlist', playlist.id);
+        showResult(result, {
+          label: 'Undo',
+          run: async () => showResult(await context.ipc.invoke('restore-from-trash', playlist.id)),
+        });
+        return result.success as boolean;
       };
 
-      // Show individual playlist detail page
-      const showPlaylistDetail = async (playlistName: string) => {
-        const playlists = await context.ipc.invoke('get-local-playlists');
-        const playlist = playlists.find((p: Playlist) => p.name === playlistName);
-        
-        if (!playlist) {
-          alert('Playlist not found');
-          return;
+      // An empty playlist, to fill from the song menus
+      const createPlaylist = async () => {
+        const name = await showNameDialog({
+          title: 'New playlist',
+          existingNames: (await context.ipc.invoke('get-local-playlists')).map((p: Playlist) => p.name),
+          confirmLabel: 'Create',
+        });
+        if (!name) return;
+
+        const now = new Date().toISOString();
+        const result = await savePlaylist({ id: '', name, songs: [], created: now, modified: now });
+        showResult(result);
+        if (result.success) {
+          showPlaylistDetail(result.playlist.id);
         }
+      };
 
-        currentView = 'detail';
-        currentPlaylist = playlist;
+      // The whole queue as a new playlist, or the playing song when the
+      // queue hasn't been opened yet
+      const saveQueue = async () => {
+        let songs = readQueueSongs();
+        if (songs.length === 0) {
+          const current = readCurrentSong();
+          songs = current ? [current] : [];
+        }
 
-        const existingPage = document.getElementById('local-playlists-page');
-        if (existingPage) {
-          existingPage.remove();
+        if (songs.length === 0) {
+          showToast('No songs found in queue. Play some music first!', { type: 'error' });
+          return;
         }
 
-        const mainContent = document.querySelector('ytmusic-app-layout');
-        if (!mainContent) return;
+        const name = await showNameDialog({
+          title: 'Save queue as a playlist',
+          hint: `${songs.length} ${songs.length === 1 ? 'song' : 'songs'} from the queue`,
+          existingNames: (await context.ipc.invoke('get-local-playlists')).map((p: Playlist) => p.name),
+        });
+        if (!name) return;
 
-        const page = document.createElement('div');
-        page.id = 'local-playlists-page';
-        page.className = 'local-playlists-page playlist-detail';
+        const now = new Date().toISOString();
+        const playlist: Playlist = {
+          id: '',
+          name,
+          songs: songs.map(song => ({ ...song, addedAt: now })),
+          created: now,
+          modified: now
+        };
 
-        page.innerHTML = `
-          <div class="detail-header">
-            <button id="back-btn" class="back-btn">← Back</button>
-            <div class="detail-info">
-              <div class="detail-thumbnail">🎵</div>
-              <div class="detail-text">
-                <h1>${playlist.name}</h1>
-                <p>${playlist.songs.length} songs</p>
-              </div>
-            </div>
-            <div class="detail-actions">
-              <button id="play-all-btn" class="action-btn primary">
-                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
-                  <path d="M8 5v14l11-7z"/>
-                </svg>
-                Play All
-              </button>
-              <button id="shuffle-play-btn" class="action-btn primary">
-                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
-                  <path d="M10.59 9.17L5.41 4 4 5.41l5.17 5.17 1.42-1.41zM14.5 4l2.04 2.04L4 18.59 5.41 20 17.96 7.46 20 9.5V4h-5.5zm.33 9.41l-1.41 1.41 3.13 3.13L14.5 20H20v-5.5l-2.04 2.04-3.13-3.13z"/>
-                </svg>
-                Shuffle
-              </button>
-              <button id="export-playlist-btn" class="action-btn">
-                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
-                  <path d="M19 12v7H5v-7H3v7c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2v-7h-2zm-6 .67l2.59-2.58L17 11.5l-5 5-5-5 1.41-1.41L11 12.67V3h2z"/>
-                </svg>
-                Export
-              </button>
-              <button id="delete-playlist-btn" class="action-btn danger">
-                <svg viewBox="0 0 24 24" width="18" height="18" fill="currentColor">
-                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
-                </svg>
-                Delete
-              </button>
-            </div>
-          </div>
-          <div class="songs-list">
-            ${playlist.songs.map((song, index) => `
-              <div class="song-item" data-index="${index}">
-                <span class="song-number">${index + 1}</span>
-                <div class="song-info">
-                  <div class="song-title">${song.title}</div>
-                  <div class="song-artist">${song.artist}</div>
-                </div>
-                <div class="song-duration">${formatDuration(song.duration)}</div>
-              </div>
-            `).join('')}
-          </div>
-        `;
+        showResult(await savePlaylist(playlist));
+      };
 
-        mainContent.appendChild(page);
+      const appendQueue = async () => {
+        const songs = readQueueSongs();
+        if (songs.length === 0) {
+          showToast('No songs found in queue. Play some music first!', { type: 'error' });
+          return;
+        }
+        await addSongsToLocalPlaylist(songs, `${songs.length} songs from the queue`);
+      };
 
-        // Event listeners
-        document.getElementById('back-btn')?.addEventListener('click', showPlaylistsPage);
-        document.getElementById('play-all-btn')?.addEventListener('click', () => playPlaylist(playlistName, false));
-        document.getElementById('shuffle-play-btn')?.addEventListener('click', () => playPlaylist(playlistName, true));
-        document.getElementById('export-playlist-btn')?.addEventListener('click', () => exportPlaylist(playlistName));
-        document.getElementById('delete-playlist-btn')?.addEventListener('click', async () => {
-          if (confirm(`Delete playlist "${playlistName}"?`)) {
-            const result = await context.ipc.invoke('delete-playlist', playlistName);
-            alert(result.message);
-            if (result.success) {
-              showPlaylistsPage();
-            }
-          }
-        });
+      const saveCurrentSong = async () => {
+        const song = readCurrentSong();
+        if (!song) {
+          showToast('Nothing is playing right now', { type: 'error' });
+          return;
+        }
+        await addToLocalPlaylist(song);
+      };
 
-        document.querySelectorAll('.song-item').forEach(item => {
-          item.addEventListener('click', () => {
-            const index = parseInt((item as HTMLElement).dataset.index!);
-            const song = playlist.songs[index];
-            searchAndPlay(song);
-          });
+      // Create a smart playlist, or edit the name and rules of an existing one
+      const editSmartPlaylist = async (existing?: Playlist) => {
+        const playlists: Playlist[] = await context.ipc.invoke('get-local-playlists');
+        const edited = await showSmartPlaylistEditor(playlists, existing);
+        if (!edited) return;
+
+        const result = await savePlaylist({
+          id: existing?.id ?? '',
+          name: edited.name,
+          songs: [],
+          created: existing?.created ?? '',
+          modified: existing?.modified ?? '',
+          smart: edited.definition
         });
 
-        // Enable navigation
-        setupNavigationListeners();
+        showResult(result);
+        if (result.success) {
+          showPlaylistDetail(result.playlist.id);
+        }
       };
 
-      const formatDuration = (duration?: string): string => {
-        if (!duration) return '--:--';
-        const seconds = parseInt(duration);
-        if (isNaN(seconds)) return '--:--';
-        const mins = Math.floor(seconds / 60);
-        const secs = seconds % 60;
-        return `${mins}:${secs.toString().padStart(2, '0')}`;
-      };
+      // Compare two playlists side by side, optionally saving their merge,
+      // intersection or difference as a new playlist
+      const comparePlaylists = async (playlistId: string, otherId?: string) => {
+        const playlists: Playlist[] = await context.ipc.invoke('get-local-playlists');
+        const playlist = playlists.find(p => p.id === playlistId);
+        if (!playlist) return;
 
-      const createFromQueue = async () => {
-        const name = prompt('Enter playlist name:');
+        const choice = await showCompareDialog({ playlist, playlists, otherId });
+        if (!choice) return;
+
+        const name = await showNameDialog({
+          title: 'Save as a new playlist',
+          initial: combinedPlaylistName(choice.operation, choice.first.name, choice.second.name),
+          existingNames: playlists.map(p => p.name),
+        });
         if (!name) return;
 
-        const songs: Song[] = [];
-        
-        const queueSelectors = [
-          'ytmusic-player-queue-item',
-          '#contents ytmusic-player-queue-item',
-          'ytmusic-player-queue ytmusic-player-queue-item'
-        ];
+        const now = new Date().toISOString();
+        const result = await savePlaylist({
+          id: '',
+          name,
+          songs: combineSongs(choice.operation, choice.first.songs, choice.second.songs)
+            .map(song => ({ ...song, addedAt: now })),
+          created: now,
+          modified: now
+        });
 
-        let queueItems: NodeListOf<Element> | null = null;
-        
-        for (const selector of queueSelectors) {
-          queueItems = document.querySelectorAll(selector);
-          if (queueItems.length > 0) break;
+        showResult(result);
+        if (result.success) {
+          showPlaylistDetail(result.playlist.id);
         }
+      };
 
-        if (!queueItems || queueItems.length === 0) {
-          const videoTitleEl = document.querySelector('.title.ytmusic-player-bar');
-          const bylineEl = document.querySelector('.byline.ytmusic-player-bar');
-          
-          if (videoTitleEl && bylineEl) {
-            const videoEl = document.querySelector('video');
-            const videoSrc = videoEl?.src || '';
-            const videoIdMatch = videoSrc.match(/[?&]v=([^&]+)/);
-            
-            songs.push({
-              videoId: videoIdMatch ? videoIdMatch[1] : '',
-              title: videoTitleEl.textContent?.trim() || '',
-              artist: bylineEl.textContent?.trim().split('•')[0]?.trim() || ''
-            });
-          }
-        } else {
-          queueItems.forEach(item => {
-            const titleEl = item.querySelector('.song-title, .title');
-            const artistEl = item.querySelector('.byline, .secondary-flex-columns');
-            const videoId = item.getAttribute('video-id') || 
-                           item.querySelector('[video-id]')?.getAttribute('video-id') || '';
-            
-            if (titleEl) {
-              const artistText = artistEl?.textContent?.trim() || '';
-              const artist = artistText.split('•')[0]?.trim() || 'Unknown';
-              
-              songs.push({
-                videoId: videoId,
-                title: titleEl.textContent?.trim() || '',
-                artist: artist
-              });
-            }
-          });
-        }
+      // Append a song coming from a YouTube Music menu to a chosen local playlist
+      const addSongsToLocalPlaylist = async (songs: Song[], description: string) => {
+        const playlists: Playlist[] = (await context.ipc.invoke('get-local-playlists'))
+          .filter((p: Playlist) => !p.smart && !p.source?.readOnly);
 
-        if (songs.length === 0) {
-          alert('No songs found in queue. Play some music first!');
+        if (playlists.length === 0) {
+          showToast('No local playlists yet. Create one first.', { type: 'error' });
           return;
         }
 
-        const playlist: Playlist = {
-          name,
-          songs,
-          created: new Date().toISOString(),
-          modified: new Date().toISOString()
-        };
+        const playlist = await showPlaylistPicker({ title: `Add ${description} to…`, playlists });
+        if (!playlist) return;
 
-        const result = await context.ipc.invoke('save-playlist', playlist);
-        alert(result.message);
+        const result = await savePlaylist({
+          ...playlist,
+          songs: songs.reduce(addSong, playlist.songs)
+        });
+        showResult(result.success ? { ...result, message: `Added ${description} to "${playlist.name}"` } : result);
+
+        if (result.success && currentView === 'detail' && currentPlaylist?.id === playlist.id) {
+          showPlaylistDetail(playlist.id);
+        }
       };
 
-      const exportPlaylist = async (playlistName: string) => {
+      const addToLocalPlaylist = (song: Song) => addSongsToLocalPlaylist([song], `"${song.title}"`);
+
+      const exportPlaylist = async (playlistId: string) => {
         const playlists = await context.ipc.invoke('get-local-playlists');
-        const playlist = playlists.find((p: Playlist) => p.name === playlistName);
+        const playlist = playlists.find((p: Playlist) => p.id === playlistId);
         
         if (!playlist) {
-          alert('Playlist not found');
+          showToast('Playlist not found', { type: 'error' });
           return;
         }
 
-        const format = prompt('Export format? (json/txt/m3u/csv)', 'csv');
-        if (!format || !['json', 'txt', 'm3u', 'csv'].includes(format)) {
-          return;
-        }
+        const format = await showExportFormatDialog(playlist);
+        if (!format) return;
 
-        const result = await context.ipc.invoke('export-playlist-file', playlist, format);
-        alert(result.message);
+        showResult(await context.ipc.invoke('export-playlist-file', playlist, format));
       };
 
-      // Setup navigation to allow leaving the playlist page
-      const setupNavigationListeners = () => {
-        // Listen for clicks on other nav items
-        const navItems = document.querySelectorAll('ytmusic-guide-entry-renderer, ytmusic-pivot-bar-item-renderer');
-        navItems.forEach(item => {
-          item.addEventListener('click', () => {
-            // Remove our page when navigating away
-            const ourPage = document.getElementById('local-playlists-page');
-            if (ourPage) {
-              ourPage.remove();
-            }
-            // Restore hidden content
-            const ytmusicContent = document.querySelectorAll('ytmusic-browse-response, ytmusic-search-response, ytmusic-player-page');
-            ytmusicContent.forEach(el => {
-              (el as HTMLElement).style.display = '';
-            });
-          });
-        });
+      // Pages opened through back/forward, a reload or a link
+      const showRoute = (route: LocalRoute) => {
+        switch (route.page) {
+          case 'list':
+            showPlaylistsPage();
+            break;
+          case 'stats':
+            showStatsPage();
+            break;
+          case 'playlist':
+            showPlaylistDetail(route.playlistId);
+            break;
+        }
+      };
+
+      // The user went to one of YouTube Music's pages
+      const leavePage = () => {
+        document.getElementById('local-playlists-page')?.remove();
+        refreshOpenPage = null;
+        currentView = 'list';
+        currentPlaylist = null;
       };
 
-      const playPlaylist = async (playlistName: string, shuffle: boolean = false) => {
+      router = createRouter(showRoute, leavePage);
+
+      const playPlaylist = async (playlistId: string, shuffle: boolean = false) => {
         const playlists = await context.ipc.invoke('get-local-playlists');
-        const playlist = playlists.find((p: Playlist) => p.name === playlistName);
+        const playlist = playlists.find((p: Playlist) => p.id === playlistId);
         
         if (!playlist || playlist.songs.length === 0) {
-          alert('Playlist not found or empty');
+          showToast('Playlist not found or empty', { type: 'error' });
           return;
         }
 
-        let songs = [...playlist.songs].filter(s => s.videoId);
-        
-        if (songs.length === 0) {
-          alert('No songs with valid video IDs found in this playlist');
-          return;
+        const status = document.getElementById('queue-status');
+        const result = await queueService.enqueueSongs(playlist.songs, {
+          shuffle,
+          onProgress: ({ done, total, failed }) => {
+            if (status) {
+              status.textContent = `Adding to queue: ${done}/${total}${failed ? ` (${failed} failed)` : ''}`;
+            }
+          }
+        });
+
+        if (status) {
+          status.textContent = result.message;
         }
+        console.log(`Local Playlists: ${result.message}`);
 
-        if (shuffle) {
-          for (let i = songs.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [songs[i], songs[j]] = [songs[j], songs[i]];
-          }
+        if (result.added > 0) {
+          playbackTracker?.setSource(playlist.id, playlist.songs);
         }
 
-        // Try to add songs to queue using YouTube Music's internal API
-        try {
-          // Play first song
-          await playSong(songs[0]);
-          
-          // Wait for player to load
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          
-          // Try to add remaining songs to queue
-          for (let i = 1; i < songs.length; i++) {
-            try {
-              // Look for the add to queue function in the page
-              const ytmusic = (window as any).ytmusic;
-              if (ytmusic && ytmusic.player) {
-                ytmusic.player.loadVideoById(songs[i].videoId);
-              } else {
-                // Fallback: simulate clicking "Add to queue" for each song
-                console.log('Would add to queue:', songs[i].title);
-              }
-            } catch (e) {
-              console.error('Failed to add song to queue:', e);
-            }
-          }
-          
-          console.log(`Started playlist with ${songs.length} songs`);
-        } catch (error) {
-          console.error('Error playing playlist:', error);
-          alert('Could not play playlist. Playing first song only.');
-          playSong(songs[0]);
+        if (result.failed.length > 0) {
+          const failedList = result.failed
+            .slice(0, 3)
+            .map(song => `${song.artist} - ${song.title}`)
+            .join(', ');
+          const more = result.failed.length > 3 ? ` and ${result.failed.length - 3} more` : '';
+          showToast(`${result.message}: ${failedList}${more}`, { type: 'error' });
+        } else if (!result.success) {
+          showResult(result);
         }
       };
 
-      const playSong = (song: Song) => {
+      const playSong = async (song: Song) => {
         if (!song.videoId) {
-          alert(`No video ID for: ${song.artist} - ${song.title}`);
+          showToast(`No video ID for: ${song.artist} - ${song.title}`, { type: 'error' });
           return;
         }
 
-        // Navigate to the video URL
+        const result = await queueService.enqueueSongs([song]);
+        if (result.success) {
+          return;
+        }
+
+        // Queue not ready (or the song could not be resolved), fall back to
+        // navigating to the video URL
         const videoUrl = `https://music.youtube.com/watch?v=${song.videoId}`;
         console.log('Playing:', videoUrl);
-        
-        // Navigate to the song
         window.location.href = videoUrl;
       };
 
-      const searchAndPlay = (song: Song) => {
+      const searchAndPlay = async (song: Song, playlist?: Playlist, index?: number) => {
+        if (playlist) {
+          playbackTracker?.setSource(playlist.id, playlist.songs);
+        }
+
         if (song.videoId) {
           playSong(song);
-        } else {
-          const query = `${song.artist} ${song.title}`;
-          const searchUrl = `https://music.youtube.com/search?q=${encodeURIComponent(query)}`;
-          window.location.href = searchUrl;
+          return;
         }
+
+        // Try to resolve the song first, remembering a confident match so
+        // the next play doesn't have to search again
+        try {
+          const result = await matcher.matchSong(song, index);
+          if (result.status === 'matched' && result.best) {
+            if (playlist && index !== undefined) {
+              const saved = await savePlaylist(applyMatches(playlist, new Map([[index, result.best.candidate]])));
+              if (saved.success) {
+                Object.assign(playlist, saved.playlist);
+              }
+            }
+            playSong({ ...song, videoId: result.best.candidate.videoId });
+            return;
+          }
+        } catch (error) {
+          console.error('Local Playlists: Could not match song:', error);
+        }
+
+        const query = `${song.artist} ${song.title}`;
+        const searchUrl = `https://music.youtube.com/search?q=${encodeURIComponent(query)}`;
+        window.location.href = searchUrl;
+      };
+
+      // Another video for a song that stopped playing. A confident match is
+      // taken straight away, otherwise the user picks from the candidates.
+      const findReplacement = async (song: Song, index: number): Promise<MatchCandidate | null> => {
+        const status = document.getElementById('queue-status');
+        if (status) {
+          status.textContent = `Looking for another version of "${song.title}"...`;
+        }
+
+        let result: MatchResult;
+        try {
+          result = await matcher.matchSong({ ...song, videoId: '' }, index);
+        } catch (error) {
+          console.error('Local Playlists: Could not search for a replacement:', error);
+          showToast(`Could not search for "${song.title}": ${error.message}`, { type: 'error' });
+          return null;
+        } finally {
+          if (status) status.textContent = '';
+        }
+
+        // The search can turn up the dead video itself
+        const candidates = result.candidates.filter(scored => scored.candidate.videoId !== song.videoId);
+        if (candidates.length === 0) {
+          showToast(`No other version of "${song.title}" found`, { type: 'error' });
+          return null;
+        }
+
+        if (result.status === 'matched' && result.best === candidates[0]) {
+          return candidates[0].candidate;
+        }
+
+        const reviewed = await showMatchReviewDialog([{ ...result, status: 'ambiguous', candidates, best: candidates[0] }]);
+        return reviewed?.get(index) ?? null;
+      };
+
+      // Look up every video in a playlist and record which ones no longer
+      // play, or now play something else
+      const checkAvailability = async (playlistId: string) => {
+        const playlists = await context.ipc.invoke('get-local-playlists');
+        const playlist = playlists.find((p: Playlist) => p.id === playlistId);
+
+        if (!playlist) {
+          showToast('Playlist not found', { type: 'error' });
+          return;
+        }
+
+        const status = document.getElementById('queue-status');
+        const results = await availabilityChecker.checkPlaylist(playlist, (done, total) => {
+          if (status) {
+            status.textContent = `Checking availability: ${done}/${total}`;
+          }
+        });
+
+        // Every lookup failed, most likely the app isn't ready or offline
+        if (results.length === 0) {
+          if (status) status.textContent = '';
+          showToast('Could not check availability, please try again later', { type: 'error' });
+          return;
+        }
+
+        // Save onto the latest copy, the user may have edited meanwhile
+        const latest = (await context.ipc.invoke('get-local-playlists')).find((p: Playlist) => p.id === playlistId);
+        if (!latest) return;
+        const result = await savePlaylist(applyAvailability(latest, results));
+
+        const problems = results.filter(r => r.availability !== 'available').length;
+        const message = !result.success
+          ? result.message
+          : problems === 0
+            ? `All ${results.length} songs are available`
+            : `${problems} of ${results.length} songs are unavailable or changed`;
+
+        if (status) {
+          status.textContent = message;
+        }
+        showToast(message, { type: result.success ? 'success' : 'error' });
+        if (currentView === 'detail' && currentPlaylist?.id === playlistId) {
+          showPlaylistDetail(playlistId);
+        }
+      };
+
+      // Search YouTube Music for every song without a video ID. Confident
+      // matches are accepted straight away, ambiguous ones go to review.
+      const resolveMissingSongs = async (playlistId: string) => {
+        const playlists = await context.ipc.invoke('get-local-playlists');
+        const playlist = playlists.find((p: Playlist) => p.id === playlistId);
+
+        if (!playlist) {
+          showToast('Playlist not found', { type: 'error' });
+          return;
+        }
+
+        const status = document.getElementById('queue-status');
+        const results = await matcher.matchPlaylist(playlist, (done, total) => {
+          if (status) {
+            status.textContent = `Searching for missing songs: ${done}/${total}`;
+          }
+        });
+
+        const accepted = new Map(
+          results
+            .filter(result => result.status === 'matched' && result.best)
+            .map(result => [result.index, result.best!.candidate])
+        );
+
+        const ambiguous = results.filter(result => result.status === 'ambiguous');
+        if (ambiguous.length > 0) {
+          const reviewed = await showMatchReviewDialog(ambiguous);
+          reviewed?.forEach((candidate, index) => accepted.set(index, candidate));
+        }
+
+        const notFound = results.filter(result => result.status === 'not-found').length;
+        let message = `Matched ${accepted.size} of ${results.length} songs`;
+        if (notFound > 0) {
+          message += `, ${notFound} not found`;
+        }
+
+        let success = true;
+        if (accepted.size > 0) {
+          const result = await savePlaylist(applyMatches(playlist, accepted));
+          if (!result.success) {
+            message = result.message;
+            success = false;
+          }
+        }
+
+        if (status) {
+          status.textContent = message;
+        }
+        showToast(message, { type: success ? 'success' : 'error' });
+        showPlaylistDetail(playlistId);
       };
 
       const initUI = () => {
@@ -772,6 +3205,16 @@ export default createPlugin({
             // Wait a bit more for sidebar to fully render
             setTimeout(() => {
               addSidebarItem();
+
+              addToPlaylistMenu = createAddToPlaylistMenu(addToLocalPlaylist);
+              addToPlaylistMenu.start();
+
+              playbackTracker = createPlaybackTracker(entry => {
+                context.ipc.invoke('record-play', entry);
+              });
+              playbackTracker.start();
+
+              router?.start();
               
               // Verify it was added
               setTimeout(() => {
@@ -798,7 +3241,21 @@ export default createPlugin({
       }
     },
 
-    stop() {
+    stop(context) {
+      context.ipc.removeAllListeners('local-playlists-changed');
+      context.ipc.removeAllListeners('local-playlists-play');
+      context.ipc.removeAllListeners('local-playlists-add-current');
+      addToPlaylistMenu?.stop();
+      addToPlaylistMenu = null;
+      playbackTracker?.stop();
+      playbackTracker = null;
+      artworkObserver?.disconnect();
+      artworkObserver = null;
+      router?.stop();
+      router = null;
+      resolutionQueue?.stop();
+      resolutionQueue = null;
+
       const ui = document.getElementById('local-playlists-page');
       if (ui) {
         ui.remove();
@@ -807,6 +3264,7 @@ export default createPlugin({
       if (nav) {
         nav.remove();
       }
+      document.getElementById('local-playlists-nav-tree')?.remove();
     }
   }
 });
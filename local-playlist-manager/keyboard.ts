@@ -0,0 +1,146 @@
+// Keyboard operation of the Local Playlists pages. Cards and song rows use a
+// roving tabindex: Tab reaches the list once, the arrow keys move within it.
+
+export interface Shortcut {
+  keys: string;
+  description: string;
+}
+
+// Shown by "?" on either page
+export const SHORTCUTS: Shortcut[] = [
+  { keys: '↑ ↓ ← →', description: 'Move between playlists or songs' },
+  { keys: 'Enter', description: 'Open the playlist, play the song' },
+  { keys: 'Space', description: 'Select the song' },
+  { keys: 'Delete', description: 'Remove the song or playlist' },
+  { keys: 'P', description: 'Play the playlist' },
+  { keys: 'S', description: 'Shuffle the playlist' },
+  { keys: 'E', description: 'Export the playlist' },
+  { keys: 'N', description: 'New playlist' },
+  { keys: '/', description: 'Search the library' },
+  { keys: 'Escape', description: 'Back to all playlists' },
+  { keys: '?', description: 'Show these shortcuts' },
+];
+
+// Keys typed into a field belong to the field
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(element.tagName));
+};
+
+// Dialogs handle their own keys, the page underneath stays out of it
+export const hasOpenDialog = () => !!document.querySelector('.lpm-overlay');
+
+// Plain key presses only, so the app's and the system's shortcuts with
+// modifiers keep working
+export const shortcutKey = (e: KeyboardEvent): string | null =>
+  e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target) || hasOpenDialog() ? null : e.key;
+
+const visibleItems = (container: HTMLElement, selector: string) =>
+  [...container.querySelectorAll<HTMLElement>(selector)].filter(item => item.offsetParent !== null);
+
+// The item in the next row up or down that is closest horizontally. Works
+// across several grids on a page, whatever their column count.
+const itemInNextRow = (items: HTMLElement[], current: HTMLElement, direction: 1 | -1) => {
+  const from = current.getBoundingClientRect();
+  const center = from.left + from.width / 2;
+
+  const candidates = items
+    .map(item => ({ item, rect: item.getBoundingClientRect() }))
+    .filter(({ rect }) => (direction === 1 ? rect.top >= from.bottom - 1 : rect.bottom <= from.top + 1));
+  if (candidates.length === 0) return null;
+
+  const rowTop = direction === 1
+    ? Math.min(...candidates.map(({ rect }) => rect.top))
+    : Math.max(...candidates.map(({ rect }) => rect.top));
+
+  return candidates
+    .filter(({ rect }) => Math.abs(rect.top - rowTop) < 1)
+    .sort((a, b) => Math.abs(a.rect.left + a.rect.width / 2 - center) - Math.abs(b.rect.left + b.rect.width / 2 - center))[0].item;
+};
+
+export const focusItem = (items: HTMLElement[], item: HTMLElement | undefined | null) => {
+  if (!item) return;
+  items.forEach(other => other.setAttribute('tabindex', other === item ? '0' : '-1'));
+  item.focus();
+  item.scrollIntoView({ block: 'nearest' });
+};
+
+// Arrow keys, Home and End move focus between the items matching selector.
+// In a grid left and right step through the items and up and down go by
+// row; a list only goes up and down. Call again after re-rendering the items.
+export const enableRovingFocus = (container: HTMLElement, selector: string, layout: 'grid' | 'list') => {
+  const items = visibleItems(container, selector);
+  const active = items.find(item => item.getAttribute('tabindex') === '0') ?? items[0];
+  items.forEach(item => item.setAttribute('tabindex', item === active ? '0' : '-1'));
+
+  if (container.dataset.rovingFocus === selector) return;
+  container.dataset.rovingFocus = selector;
+
+  container.addEventListener('keydown', (e) => {
+    const current = e.target as HTMLElement;
+    if (!current.matches(selector) || e.ctrlKey || e.metaKey || e.altKey || hasOpenDialog()) return;
+
+    const items = visibleItems(container, selector);
+    const index = items.indexOf(current);
+    let next: HTMLElement | null | undefined;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        next = layout === 'grid' ? itemInNextRow(items, current, 1) : items[index + 1];
+        break;
+      case 'ArrowUp':
+        next = layout === 'grid' ? itemInNextRow(items, current, -1) : items[index - 1];
+        break;
+      case 'ArrowRight':
+        next = layout === 'grid' ? items[index + 1] : undefined;
+        break;
+      case 'ArrowLeft':
+        next = layout === 'grid' ? items[index - 1] : undefined;
+        break;
+      case 'Home':
+        next = items[0];
+        break;
+      case 'End':
+        next = items[items.length - 1];
+        break;
+      default:
+        return;
+    }
+
+    // Stay put at the edges instead of scrolling the page
+    e.preventDefault();
+    e.stopPropagation();
+    focusItem(items, next);
+  });
+};
+
+// Pages are rebuilt rather than updated, which drops the focus. Call before
+// removing the old page; the returned function puts focus back on the same
+// control in the new page, or on the fallback. Focus that is somewhere else
+// in the app is left alone.
+export const rememberFocus = (oldPage: HTMLElement | null) => {
+  const active = document.activeElement as HTMLElement | null;
+  const ours = !active || active === document.body ||
+    !!oldPage?.contains(active) || !!active.closest('.local-playlists-nav, .local-playlists-nav-tree');
+  const id = active && oldPage?.contains(active) ? active.id : '';
+
+  return (newPage: HTMLElement, fallback: HTMLElement | null) => {
+    if (!ours) return;
+    const target = (id && newPage.querySelector<HTMLElement>(`#${CSS.escape(id)}`)) || fallback;
+    target?.focus();
+  };
+};
+
+// Click and keyboard activation for elements that can't be buttons, e.g.
+// because they hold buttons of their own
+export const makeActivatable = (element: HTMLElement, activate: (e: Event) => void) => {
+  if (!element.hasAttribute('role')) element.setAttribute('role', 'button');
+  if (!element.hasAttribute('tabindex')) element.tabIndex = 0;
+  element.addEventListener('click', activate);
+  element.addEventListener('keydown', (e) => {
+    if (e.target === element && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      activate(e);
+    }
+  });
+};
@@ -0,0 +1,126 @@
+import type { Playlist } from './types';
+
+export type PlaylistGrouping = 'none' | 'folder' | 'tag';
+
+export interface FolderNode {
+  name: string;
+  // Full path, '' for the top of the library
+  path: string;
+  folders: FolderNode[];
+  playlists: Playlist[];
+}
+
+export interface TagGroup {
+  // null for playlists without tags
+  tag: string | null;
+  playlists: Playlist[];
+}
+
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+// "  Work / 2024/ " -> "Work/2024"
+export const normalizeFolder = (folder: string | undefined): string =>
+  (folder ?? '')
+    .split('/')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('/');
+
+export const folderName = (folder: string) => folder.slice(folder.lastIndexOf('/') + 1);
+
+export const parentFolder = (folder: string) => folder.includes('/') ? folder.slice(0, folder.lastIndexOf('/')) : '';
+
+// True for the folder itself and everything nested in it
+export const isInFolder = (folder: string | undefined, ancestor: string) => {
+  const normalized = normalizeFolder(folder);
+  return normalized === ancestor || normalized.startsWith(`${ancestor}/`);
+};
+
+// Trimmed, without empty ones and without repeats that only differ in case
+export const normalizeTags = (tags: string[] | undefined): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags ?? []) {
+    const trimmed = tag.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  return result;
+};
+
+export const libraryFolders = (playlists: Playlist[]): string[] => {
+  const folders = new Set<string>();
+  for (const playlist of playlists) {
+    let folder = normalizeFolder(playlist.folder);
+    while (folder) {
+      folders.add(folder);
+      folder = parentFolder(folder);
+    }
+  }
+  return [...folders].sort(compareNames);
+};
+
+export const libraryTags = (playlists: Playlist[]): string[] => {
+  const tags = new Map<string, string>();
+  for (const playlist of playlists) {
+    for (const tag of normalizeTags(playlist.tags)) {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...tags.values()].sort(compareNames);
+};
+
+// Pinned playlists first, otherwise keeping the given order
+export const pinnedFirst = (playlists: Playlist[]): Playlist[] => [
+  ...playlists.filter(playlist => playlist.pinned),
+  ...playlists.filter(playlist => !playlist.pinned),
+];
+
+// Playlists keep the order they are given in. extraFolders are folders the
+// user created that have no playlists in them yet.
+export const buildFolderTree = (playlists: Playlist[], extraFolders: string[] = []): FolderNode => {
+  const root: FolderNode = { name: '', path: '', folders: [], playlists: [] };
+  const nodes = new Map<string, FolderNode>([['', root]]);
+
+  const nodeFor = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const node: FolderNode = { name: folderName(path), path, folders: [], playlists: [] };
+    nodes.set(path, node);
+    nodeFor(parentFolder(path)).folders.push(node);
+    return node;
+  };
+
+  for (const folder of extraFolders) {
+    const normalized = normalizeFolder(folder);
+    if (normalized) nodeFor(normalized);
+  }
+  for (const playlist of playlists) {
+    nodeFor(normalizeFolder(playlist.folder)).playlists.push(playlist);
+  }
+
+  for (const node of nodes.values()) {
+    node.folders.sort((a, b) => compareNames(a.name, b.name));
+  }
+  return root;
+};
+
+export const countFolderPlaylists = (node: FolderNode): number =>
+  node.playlists.length + node.folders.reduce((total, folder) => total + countFolderPlaylists(folder), 0);
+
+// A playlist with several tags is listed under each of them
+export const groupByTag = (playlists: Playlist[]): TagGroup[] => {
+  const groups: TagGroup[] = libraryTags(playlists).map(tag => ({
+    tag,
+    playlists: playlists.filter(playlist =>
+      normalizeTags(playlist.tags).some(own => own.toLowerCase() === tag.toLowerCase())),
+  }));
+
+  const untagged = playlists.filter(playlist => normalizeTags(playlist.tags).length === 0);
+  if (untagged.length > 0) {
+    groups.push({ tag: null, playlists: untagged });
+  }
+  return groups;
+};
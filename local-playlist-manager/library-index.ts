@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ID_FILE_PATTERN } from './storage';
+import type { PlaylistStore } from './storage';
+import { createReadOnlySource } from './read-only-source';
+import type { ReadOnlySource } from './read-only-source';
+import type { Playlist, PlaylistSource } from './types';
+
+export interface LibraryChange {
+  // 'reloaded' means anything may have changed, e.g. the library folders
+  type: 'added' | 'updated' | 'removed' | 'reloaded';
+  id: string;
+  // False when the change came from this app's own save or delete
+  external: boolean;
+}
+
+// Editors and sync tools often write a file in several steps
+const DEBOUNCE_MS = 200;
+
+export const PRIMARY_SOURCE_LABEL = 'My Library';
+
+// Keeps every playlist in memory and watches the library directories, so
+// loading the library doesn't read every file and changes made outside the
+// app are noticed while it runs. The primary directory is the one the store
+// writes to, read-only directories are only ever read.
+export const createLibraryIndex = (
+  playlistsDir: string,
+  store: PlaylistStore,
+  onChange: (change: LibraryChange) => void,
+  readOnlyDirs: string[] = []
+) => {
+  const primarySource: PlaylistSource = { dir: playlistsDir, label: PRIMARY_SOURCE_LABEL, readOnly: false };
+  const readOnlySources = readOnlyDirs.map(dir => createReadOnlySource(dir));
+
+  const playlists = new Map<string, Playlist>();
+  const readOnlyPlaylists = new Map<string, Playlist>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const watchers: fs.FSWatcher[] = [];
+  let started = false;
+  // Files migrated during a rescan are written by us but came from outside
+  let rescanning = false;
+
+  const sync = (id: string, external: boolean) => {
+    const previous = playlists.get(id);
+    const stored = store.get(id);
+    const playlist = stored && { ...stored, source: primarySource };
+
+    if (!playlist) {
+      // Half-written or broken JSON, keep the last good copy until it's fixed
+      if (fs.existsSync(path.join(playlistsDir, `${id}.json`))) return;
+      if (previous) {
+        playlists.delete(id);
+        onChange({ type: 'removed', id, external });
+      }
+      return;
+    }
+
+    // Our own writes show up again through the watcher, only report real changes
+    if (previous && JSON.stringify(previous) === JSON.stringify(playlist)) return;
+
+    playlists.set(id, playlist);
+    onChange({ type: previous ? 'updated' : 'added', id, external });
+  };
+
+  // Full re-read, for when the watcher can't tell which file changed or a
+  // file without an id was dropped into the directory
+  const rescan = (external: boolean) => {
+    rescanning = external;
+    try {
+      store.migrate();
+    } finally {
+      rescanning = false;
+    }
+
+    const ids = new Set(store.list().map(playlist => playlist.id));
+    for (const id of playlists.keys()) {
+      ids.add(id);
+    }
+    for (const id of ids) {
+      sync(id, external);
+    }
+  };
+
+  // Read-only folders are small enough to simply re-read as a whole
+  const syncReadOnly = (source: ReadOnlySource, external: boolean) => {
+    const current = new Map(source.list().map(playlist => [playlist.id, playlist]));
+
+    for (const [id, previous] of readOnlyPlaylists) {
+      if (previous.source?.dir === source.dir && !current.has(id)) {
+        readOnlyPlaylists.delete(id);
+        onChange({ type: 'removed', id, external });
+      }
+    }
+
+    for (const [id, playlist] of current) {
+      const previous = readOnlyPlaylists.get(id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(playlist)) continue;
+
+      readOnlyPlaylists.set(id, playlist);
+      onChange({ type: previous ? 'updated' : 'added', id, external });
+    }
+  };
+
+  const debounce = (key: string, task: () => void) => {
+    clearTimeout(timers.get(key));
+    timers.set(key, setTimeout(() => {
+      timers.delete(key);
+      try {
+        task();
+      } catch (error) {
+        console.error('Error reloading playlists:', error);
+      }
+    }, DEBOUNCE_MS));
+  };
+
+  const schedule = (file: string | null) => {
+    if (file && ID_FILE_PATTERN.test(file)) {
+      const id = file.slice(0, -'.json'.length);
+      debounce(id, () => sync(id, true));
+      return;
+    }
+
+    // Files without an id (old or hand-made playlists, sync conflict
+    // copies) can affect more than one playlist
+    debounce('*', () => {
+      rescan(true);
+      onChange({ type: 'reloaded', id: '', external: true });
+    });
+  };
+
+  const watch = (dir: string, onFile: (file: string | null) => void) => {
+    try {
+      const watcher = fs.watch(dir, (eventType, filename) => {
+        const file = filename ? filename.toString() : null;
+        // Temp files from atomic writes, and the history and trash folders
+        if (file && (!file.endsWith('.json') || file.startsWith('.'))) return;
+        onFile(file);
+      });
+      watcher.on('error', error => {
+        console.error(`Error watching ${dir}:`, error);
+      });
+      watchers.push(watcher);
+    } catch (error) {
+      console.error(`Error watching ${dir}:`, error);
+    }
+  };
+
+  const start = () => {
+    for (const playlist of store.list()) {
+      playlists.set(playlist.id, { ...playlist, source: primarySource });
+    }
+    started = true;
+    watch(playlistsDir, schedule);
+
+    for (const source of readOnlySources) {
+      syncReadOnly(source, false);
+      if (fs.existsSync(source.dir)) {
+        watch(source.dir, () => debounce(`dir:${source.dir}`, () => syncReadOnly(source, true)));
+      }
+    }
+  };
+
+  const stop = () => {
+    watchers.forEach(watcher => watcher.close());
+    watchers.length = 0;
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+    started = false;
+  };
+
+  // Called right after this app wrote or deleted a playlist, so the index is
+  // current before the watcher catches up
+  const refresh = (id: string) => {
+    if (started) {
+      sync(id, rescanning);
+    }
+  };
+
+  const list = (): Playlist[] => [...playlists.values(), ...readOnlyPlaylists.values()];
+
+  const get = (id: string): Playlist | null => playlists.get(id) ?? readOnlyPlaylists.get(id) ?? null;
+
+  const isReadOnly = (id: string) => readOnlyPlaylists.has(id);
+
+  return { start, stop, refresh, list, get, isReadOnly };
+};
+
+export type LibraryIndex = ReturnType<typeof createLibraryIndex>;
@@ -0,0 +1,132 @@
+import type { Playlist, Song } from './types';
+
+export type PlaylistSort = 'name' | 'created' | 'modified' | 'songs' | 'duration';
+
+export type PlaylistFilter = 'all' | 'unresolved' | 'unavailable' | 'smart' | 'regular';
+
+export type SongMatchField = 'title' | 'artist' | 'album';
+
+export interface SongMatch {
+  index: number;
+  song: Song;
+  fields: SongMatchField[];
+}
+
+export interface PlaylistSearchResult {
+  playlist: Playlist;
+  nameMatches: boolean;
+  songs: SongMatch[];
+}
+
+// Case- and accent-insensitive, so "beyonce" finds "Beyoncé"
+const fold = (value: string) => value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const totalDuration = (playlist: Playlist) =>
+  playlist.songs.reduce((total, song) => total + (parseInt(song.duration || '', 10) || 0), 0);
+
+export const hasUnresolvedSongs = (playlist: Playlist) => playlist.songs.some(song => !song.videoId);
+
+export const isUnavailable = (song: Song) =>
+  song.availability === 'unavailable' || song.availability === 'region-locked';
+
+export const hasUnavailableSongs = (playlist: Playlist) => playlist.songs.some(isUnavailable);
+
+export const sortPlaylists = (playlists: Playlist[], sort: PlaylistSort): Playlist[] => {
+  const sorted = [...playlists];
+  switch (sort) {
+    case 'created':
+      return sorted.sort((a, b) => (b.created || '').localeCompare(a.created || ''));
+    case 'modified':
+      return sorted.sort((a, b) => (b.modified || '').localeCompare(a.modified || ''));
+    case 'songs':
+      return sorted.sort((a, b) => b.songs.length - a.songs.length);
+    case 'duration':
+      return sorted.sort((a, b) => totalDuration(b) - totalDuration(a));
+    default:
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+  }
+};
+
+export const filterPlaylists = (playlists: Playlist[], filter: PlaylistFilter): Playlist[] => {
+  switch (filter) {
+    case 'unresolved':
+      return playlists.filter(hasUnresolvedSongs);
+    case 'unavailable':
+      return playlists.filter(hasUnavailableSongs);
+    case 'smart':
+      return playlists.filter(playlist => playlist.smart);
+    case 'regular':
+      return playlists.filter(playlist => !playlist.smart);
+    default:
+      return playlists;
+  }
+};
+
+// Every word of the query has to appear somewhere in the song (any field),
+// so "queen bohemian" finds the track with artist Queen
+export const searchLibrary = (playlists: Playlist[], query: string): PlaylistSearchResult[] => {
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const results: PlaylistSearchResult[] = [];
+
+  for (const playlist of playlists) {
+    const name = fold(playlist.name);
+    const nameMatches = words.every(word => name.includes(word));
+
+    const songs: SongMatch[] = [];
+    playlist.songs.forEach((song, index) => {
+      const values: Record<SongMatchField, string> = {
+        title: fold(song.title || ''),
+        artist: fold(song.artist || ''),
+        album: fold(song.album || ''),
+      };
+
+      const combined = `${values.title} ${values.artist} ${values.album}`;
+      if (!words.every(word => combined.includes(word))) return;
+
+      const fields = (Object.keys(values) as SongMatchField[])
+        .filter(field => words.some(word => values[field].includes(word)));
+      songs.push({ index, song, fields });
+    });
+
+    if (nameMatches || songs.length > 0) {
+      results.push({ playlist, nameMatches, songs });
+    }
+  }
+
+  return results;
+};
+
+// Split text into plain and highlighted parts for every query word, so the
+// caller can build the markup with text nodes
+export const highlightParts = (text: string, query: string): { text: string; match: boolean }[] => {
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  const folded = fold(text);
+
+  // Folding can change the length of some characters, fall back to no
+  // highlighting rather than marking the wrong range
+  if (words.length === 0 || folded.length !== text.length) {
+    return [{ text, match: false }];
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const word of words) {
+    let from = folded.indexOf(word);
+    while (from >= 0) {
+      marked.fill(true, from, from + word.length);
+      from = folded.indexOf(word, from + word.length);
+    }
+  }
+
+  const parts: { text: string; match: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      parts.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,98 @@
+import { createElement } from './dom';
+import { formatDuration } from './duration';
+import type { MatchCandidate, MatchResult } from './matcher';
+
+// Below this the best candidate starts out unselected, so the user has to
+// opt in to a weak match rather than opt out of it
+const PRESELECT_SCORE = 0.6;
+
+const describeCandidate = (candidate: MatchCandidate) =>
+  [candidate.artist, candidate.album, formatDuration(candidate.duration)].filter(Boolean).join(' • ');
+
+// Let the user pick a candidate (or none) for every ambiguous match. Resolves
+// with the chosen candidates by song index, or null when cancelled.
+export const showMatchReviewDialog = (results: MatchResult[]): Promise<Map<number, MatchCandidate> | null> =>
+  new Promise(resolve => {
+    const choices = new Map<number, MatchCandidate>();
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog match-review-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Review matches');
+
+    dialog.append(
+      createElement('h2', undefined, 'Review matches'),
+      createElement('p', 'lpm-dialog-hint', `${results.length} songs had more than one likely match. Pick the right track for each one.`)
+    );
+
+    const list = createElement('div', 'match-review-list');
+
+    for (const result of results) {
+      const group = createElement('fieldset', 'match-review-item');
+      const legend = createElement('legend');
+      legend.append(
+        createElement('span', 'match-review-song', `${result.song.artist} - ${result.song.title}`),
+        createElement('span', 'match-review-duration', formatDuration(result.song.duration))
+      );
+      group.append(legend);
+
+      const radioName = `match-${result.index}`;
+      const addOption = (label: string, detail: string, candidate: MatchCandidate | null, checked: boolean) => {
+        const option = createElement('label', 'match-review-option');
+        const radio = createElement('input');
+        radio.type = 'radio';
+        radio.name = radioName;
+        radio.checked = checked;
+        radio.addEventListener('change', () => {
+          if (candidate) {
+            choices.set(result.index, candidate);
+          } else {
+            choices.delete(result.index);
+          }
+        });
+
+        const text = createElement('span', 'match-review-option-text');
+        text.append(createElement('span', 'match-review-option-title', label));
+        if (detail) {
+          text.append(createElement('span', 'match-review-option-detail', detail));
+        }
+
+        option.append(radio, text);
+        group.append(option);
+      };
+
+      const preselect = result.best && result.best.score >= PRESELECT_SCORE ? result.best.candidate : null;
+      if (preselect) {
+        choices.set(result.index, preselect);
+      }
+
+      for (const scored of result.candidates) {
+        addOption(
+          scored.candidate.title,
+          `${describeCandidate(scored.candidate)} • ${Math.round(scored.score * 100)}% match`,
+          scored.candidate,
+          scored.candidate === preselect
+        );
+      }
+      addOption('Skip this song', '', null, !preselect);
+
+      list.append(group);
+    }
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const saveBtn = createElement('button', 'action-btn primary', 'Save matches');
+    actions.append(cancelBtn, saveBtn);
+
+    dialog.append(list, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (result: Map<number, MatchCandidate> | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    saveBtn.addEventListener('click', () => close(choices));
+  });
@@ -0,0 +1,218 @@
+import type { Playlist, Song } from './types';
+
+export interface MatchCandidate {
+  videoId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  // Seconds, same as Song.duration
+  duration?: string;
+}
+
+// Anything that can turn a free-text query into candidate tracks. The
+// renderer uses YouTube Music's own search; tests and offline tools can use
+// createCatalogSearchBackend with a fixture list.
+export interface SearchBackend {
+  search(query: string): Promise<MatchCandidate[]>;
+}
+
+export interface ScoredCandidate {
+  candidate: MatchCandidate;
+  score: number;
+  titleScore: number;
+  artistScore: number;
+  durationScore: number | null;
+}
+
+export type MatchStatus = 'matched' | 'ambiguous' | 'not-found';
+
+export interface MatchResult {
+  index: number;
+  song: Song;
+  status: MatchStatus;
+  candidates: ScoredCandidate[];
+  best?: ScoredCandidate;
+}
+
+export interface MatcherOptions {
+  // Best candidate must score at least this to be accepted without review
+  acceptThreshold?: number;
+  // ...and beat the runner-up by this much
+  acceptMargin?: number;
+  // Candidates below this are not worth showing at all
+  minScore?: number;
+  maxCandidates?: number;
+}
+
+const DEFAULT_OPTIONS: Required<MatcherOptions> = {
+  acceptThreshold: 0.85,
+  acceptMargin: 0.08,
+  minScore: 0.35,
+  maxCandidates: 5,
+};
+
+const WEIGHTS = { title: 0.55, artist: 0.3, duration: 0.15 };
+
+// Durations further apart than this count as a complete mismatch
+const DURATION_TOLERANCE_SECONDS = 30;
+
+// Strip the decorations that differ between uploads of the same track:
+// "(Official Video)", "[Remastered 2011]", "feat. X", accents, punctuation
+export const normalizeForMatching = (value: string): string => value
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[([][^)\]]*(official|video|audio|lyric|remaster|visualizer|hd|hq|mv)[^)\]]*[)\]]/g, ' ')
+  .replace(/\b(feat|ft|featuring)\.?\s.*$/g, ' ')
+  .replace(/&/g, ' and ')
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Best of edit-distance and token overlap, so both typos and reordered or
+// extra words ("Artist A, Artist B" vs "Artist B & Artist A") score well
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeForMatching(a);
+  const right = normalizeForMatching(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editScore = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+  const tokenScore = shared / Math.max(leftTokens.size, rightTokens.size);
+
+  return Math.max(editScore, tokenScore);
+};
+
+const toSeconds = (duration?: string): number | null => {
+  const seconds = parseInt(duration || '', 10);
+  return isNaN(seconds) || seconds <= 0 ? null : seconds;
+};
+
+export const scoreCandidate = (song: Song, candidate: MatchCandidate): ScoredCandidate => {
+  const titleScore = textSimilarity(song.title, candidate.title);
+  const artistScore = !song.artist || song.artist === 'Unknown'
+    ? titleScore
+    : textSimilarity(song.artist, candidate.artist);
+
+  const songSeconds = toSeconds(song.duration);
+  const candidateSeconds = toSeconds(candidate.duration);
+  const durationScore = songSeconds !== null && candidateSeconds !== null
+    ? Math.max(0, 1 - Math.abs(songSeconds - candidateSeconds) / DURATION_TOLERANCE_SECONDS)
+    : null;
+
+  // Without a duration on both sides, spread its weight over title and artist
+  const score = durationScore === null
+    ? (titleScore * WEIGHTS.title + artistScore * WEIGHTS.artist) / (WEIGHTS.title + WEIGHTS.artist)
+    : titleScore * WEIGHTS.title + artistScore * WEIGHTS.artist + durationScore * WEIGHTS.duration;
+
+  return { candidate, score, titleScore, artistScore, durationScore };
+};
+
+export const buildSearchQuery = (song: Song): string =>
+  [song.artist && song.artist !== 'Unknown' ? song.artist : '', song.title].filter(Boolean).join(' ');
+
+export const createMatcher = (backend: SearchBackend, options: MatcherOptions = {}) => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  const matchSong = async (song: Song, index: number = 0): Promise<MatchResult> => {
+    const results = await backend.search(buildSearchQuery(song));
+
+    const candidates = results
+      .filter(candidate => candidate.videoId)
+      .map(candidate => scoreCandidate(song, candidate))
+      .filter(scored => scored.score >= settings.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, settings.maxCandidates);
+
+    const [best, runnerUp] = candidates;
+    if (!best) {
+      return { index, song, status: 'not-found', candidates };
+    }
+
+    // A duration that's far off means another recording (live, extended,
+    // a cover with the same name), however well the names match
+    const confident = best.score >= settings.acceptThreshold && best.durationScore !== 0 &&
+      (!runnerUp || best.score - runnerUp.score >= settings.acceptMargin ||
+        runnerUp.candidate.videoId === best.candidate.videoId);
+
+    return { index, song, status: confident ? 'matched' : 'ambiguous', candidates, best };
+  };
+
+  // Match every song without a video ID, one search at a time so we don't
+  // hammer the search endpoint
+  const matchPlaylist = async (
+    playlist: Playlist,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<MatchResult[]> => {
+    const unresolved = playlist.songs
+      .map((song, index) => ({ song, index }))
+      .filter(({ song }) => !song.videoId);
+
+    const results: MatchResult[] = [];
+    onProgress?.(0, unresolved.length);
+
+    for (const { song, index } of unresolved) {
+      try {
+        results.push(await matchSong(song, index));
+      } catch (error) {
+        console.error('Local Playlists: Search failed for', song.title, error);
+        results.push({ index, song, status: 'not-found', candidates: [] });
+      }
+      onProgress?.(results.length, unresolved.length);
+    }
+
+    return results;
+  };
+
+  return { matchSong, matchPlaylist };
+};
+
+export type Matcher = ReturnType<typeof createMatcher>;
+
+// Write accepted candidates back into the playlist. Existing metadata wins,
+// the candidate only fills in what the song was missing.
+export const applyMatches = (playlist: Playlist, accepted: Map<number, MatchCandidate>): Playlist => ({
+  ...playlist,
+  songs: playlist.songs.map((song, index) => {
+    const candidate = accepted.get(index);
+    if (!candidate) return song;
+
+    return {
+      ...song,
+      videoId: candidate.videoId,
+      album: song.album || candidate.album,
+      duration: song.duration || candidate.duration,
+    };
+  }),
+});
+
+// In-memory backend over a fixed catalog, for tests and offline matching
+export const createCatalogSearchBackend = (catalog: MatchCandidate[]): SearchBackend => ({
+  async search(query: string) {
+    const tokens = normalizeForMatching(query).split(' ').filter(Boolean);
+    return catalog.filter(candidate => {
+      const haystack = normalizeForMatching(`${candidate.artist} ${candidate.title}`);
+      return tokens.some(token => haystack.includes(token));
+    });
+  },
+});
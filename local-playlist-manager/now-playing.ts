@@ -0,0 +1,175 @@
+import { isArtworkUrl } from './artwork';
+import { extractSongFromElement } from './context-menu';
+import { readPlayerThumbnail } from './playback-tracker';
+import type { Song } from './types';
+
+// Song metadata straight from the app's own data rather than the rendered
+// text: the queue store holds the renderer data every queue row is drawn
+// from, and the player knows the exact length of what's playing.
+
+interface TextRun {
+  text: string;
+  navigationEndpoint?: {
+    browseEndpoint?: {
+      browseEndpointContextSupportedConfigs?: {
+        browseEndpointContextMusicConfig?: { pageType?: string };
+      };
+    };
+  };
+}
+
+interface PlaylistPanelVideo {
+  videoId?: string;
+  title?: { runs?: TextRun[] };
+  longBylineText?: { runs?: TextRun[] };
+  shortBylineText?: { runs?: TextRun[] };
+  lengthText?: { runs?: TextRun[] };
+  thumbnail?: { thumbnails?: { url: string; width?: number }[] };
+  badges?: { musicInlineBadgeRenderer?: { icon?: { iconType?: string } } }[];
+  selected?: boolean;
+}
+
+interface QueueItem {
+  playlistPanelVideoRenderer?: PlaylistPanelVideo;
+  playlistPanelVideoWrapperRenderer?: {
+    primaryRenderer?: { playlistPanelVideoRenderer?: PlaylistPanelVideo };
+  };
+}
+
+interface QueueElement extends HTMLElement {
+  queue?: {
+    store?: {
+      store?: { getState(): { queue?: { items?: QueueItem[] } } };
+    };
+  };
+}
+
+interface QueueItemElement extends HTMLElement {
+  data?: PlaylistPanelVideo;
+}
+
+interface MoviePlayerElement extends HTMLElement {
+  getPlayerResponse?: () => {
+    videoDetails?: {
+      videoId?: string;
+      title?: string;
+      author?: string;
+      lengthSeconds?: string;
+      thumbnail?: { thumbnails?: { url: string; width?: number }[] };
+    };
+  };
+}
+
+const pageTypeOf = (run: TextRun) =>
+  run.navigationEndpoint?.browseEndpoint?.browseEndpointContextSupportedConfigs?.browseEndpointContextMusicConfig?.pageType;
+
+const toSeconds = (text: string | undefined): string | undefined => {
+  if (!text || !/^\d+(:\d{2}){1,2}$/.test(text.trim())) return undefined;
+  return String(text.trim().split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0));
+};
+
+const largestThumbnail = (thumbnails: { url: string; width?: number }[] = []): string | undefined =>
+  [...thumbnails]
+    .sort((a, b) => (b.width ?? 0) - (a.width ?? 0))
+    .map(thumbnail => thumbnail.url)
+    .find(isArtworkUrl);
+
+// Queue entries are either a plain renderer or, for songs that also have a
+// music video, a wrapper around the version that's currently selected
+const unwrap = (item: QueueItem): PlaylistPanelVideo | undefined =>
+  item.playlistPanelVideoRenderer ??
+  item.playlistPanelVideoWrapperRenderer?.primaryRenderer?.playlistPanelVideoRenderer;
+
+// The byline reads "Artist & Artist • Album • Year". Artists and the album
+// link to their pages, which is how they're told apart from the year and
+// the separators. Uploads and videos only name a channel.
+const fromRenderer = (renderer: PlaylistPanelVideo): Song | null => {
+  const title = (renderer.title?.runs ?? []).map(run => run.text).join('').trim();
+  if (!renderer.videoId || !title) return null;
+
+  const byline = renderer.longBylineText?.runs ?? renderer.shortBylineText?.runs ?? [];
+  const artists = byline.filter(run => pageTypeOf(run) === 'MUSIC_PAGE_TYPE_ARTIST').map(run => run.text.trim());
+  const album = byline.find(run => pageTypeOf(run) === 'MUSIC_PAGE_TYPE_ALBUM')?.text.trim();
+  const firstSegment = byline.map(run => run.text).join('').split('•')[0]?.trim();
+  const duration = toSeconds(renderer.lengthText?.runs?.[0]?.text);
+  const thumbnail = largestThumbnail(renderer.thumbnail?.thumbnails);
+  const explicit = (renderer.badges ?? [])
+    .some(badge => badge.musicInlineBadgeRenderer?.icon?.iconType === 'MUSIC_EXPLICIT_BADGE');
+
+  return {
+    videoId: renderer.videoId,
+    title,
+    artist: artists.length > 0 ? artists.join(', ') : firstSegment || 'Unknown',
+    ...(artists.length > 0 ? { artists } : {}),
+    ...(album ? { album } : {}),
+    ...(duration ? { duration } : {}),
+    ...(explicit ? { explicit } : {}),
+    ...(thumbnail ? { thumbnail } : {}),
+  };
+};
+
+const queueRenderers = (): PlaylistPanelVideo[] => {
+  const state = document.querySelector<QueueElement>('#queue')?.queue?.store?.store?.getState();
+  const items = state?.queue?.items;
+  if (items) {
+    return items.map(unwrap).filter((renderer): renderer is PlaylistPanelVideo => !!renderer);
+  }
+
+  // Older layouts without the store still keep the data on each row
+  return [...document.querySelectorAll<QueueItemElement>('ytmusic-player-queue-item')]
+    .map(item => item.data)
+    .filter((renderer): renderer is PlaylistPanelVideo => !!renderer);
+};
+
+// Songs in the current queue, in queue order
+export const readQueueSongs = (): Song[] => {
+  const songs = queueRenderers()
+    .map(fromRenderer)
+    .filter((song): song is Song => song !== null);
+  if (songs.length > 0) return songs;
+
+  // Last resort when the app's data isn't reachable: the visible rows
+  return [...document.querySelectorAll('ytmusic-player-queue-item')]
+    .map(extractSongFromElement)
+    .filter((song): song is Song => song !== null);
+};
+
+// Its queue entry for album, artists and badges, completed with what the
+// player itself knows
+const readPlayingSong = (): Song | null => {
+  const player = document.getElementById('movie_player') as MoviePlayerElement | null;
+  const details = player?.getPlayerResponse?.()?.videoDetails;
+  const videoId = details?.videoId;
+
+  const renderers = queueRenderers();
+  const renderer = (videoId && renderers.find(item => item.videoId === videoId)) ||
+    renderers.find(item => item.selected);
+  const fromQueue = renderer ? fromRenderer(renderer) : null;
+
+  if (fromQueue) {
+    const length = details?.videoId === fromQueue.videoId ? details.lengthSeconds : undefined;
+    return length && /^[1-9]\d*$/.test(length) ? { ...fromQueue, duration: length } : fromQueue;
+  }
+
+  if (!videoId || !details?.title) {
+    const bar = document.querySelector('ytmusic-player-bar');
+    return bar ? extractSongFromElement(bar) : null;
+  }
+
+  const thumbnail = largestThumbnail(details.thumbnail?.thumbnails);
+  return {
+    videoId,
+    title: details.title,
+    artist: details.author || 'Unknown',
+    ...(details.lengthSeconds && /^[1-9]\d*$/.test(details.lengthSeconds) ? { duration: details.lengthSeconds } : {}),
+    ...(thumbnail ? { thumbnail } : {}),
+  };
+};
+
+// The song that's playing
+export const readCurrentSong = (): Song | null => {
+  const song = readPlayingSong();
+  // The queue only has small thumbnails, the player shows the full artwork
+  const thumbnail = song && readPlayerThumbnail(song.title);
+  return song && thumbnail ? { ...song, thumbnail } : song;
+};
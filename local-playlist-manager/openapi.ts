@@ -0,0 +1,212 @@
+import { EXPORT_FORMATS } from './formats/export';
+import { IMPORT_FORMATS } from './formats/import';
+
+// OpenAPI description of the scripting API, served at /openapi.json so
+// clients can be generated from the running app
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: object) => ({ 'application/json': { schema } });
+
+const result = (description: string) => ({ description, content: jsonContent(ref('Result')) });
+
+const playlistResult = (description: string) => ({ description, content: jsonContent(ref('PlaylistResult')) });
+
+const idParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+const notFound = result('No playlist with this id');
+const readOnly = result('The playlist is in a read-only folder');
+
+export const createOpenApiDocument = (port: number) => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'Local Playlists API',
+    version: '1.0.0',
+    description: 'Manage the local playlist library of the running app. Turn the API on and copy the access token in the Local Playlist Manager plugin menu.',
+  },
+  servers: [{ url: `http://127.0.0.1:${port}` }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/playlists': {
+      get: {
+        summary: 'List all playlists',
+        description: 'Smart playlists come with the songs their rules currently match.',
+        responses: {
+          200: { description: 'Every playlist in the library', content: jsonContent({ type: 'array', items: ref('Playlist') }) },
+        },
+      },
+      post: {
+        summary: 'Create a playlist',
+        description: 'Missing fields are filled in, the id is always assigned by the app.',
+        requestBody: { required: true, content: jsonContent(ref('PlaylistInput')) },
+        responses: {
+          201: playlistResult('Created'),
+          400: result('Invalid playlist, or the name is taken'),
+        },
+      },
+    },
+    '/playlists/import': {
+      post: {
+        summary: 'Import a playlist file',
+        description: 'The request body is the file content. Name clashes are resolved by renaming the imported playlist.',
+        parameters: [
+          { name: 'format', in: 'query', required: true, schema: { type: 'string', enum: IMPORT_FORMATS } },
+          { name: 'name', in: 'query', description: 'Used when the file doesn\'t name the playlist', schema: { type: 'string' } },
+        ],
+        requestBody: { required: true, content: { 'text/plain': { schema: { type: 'string' } } } },
+        responses: {
+          201: playlistResult('Imported'),
+          400: result('The file could not be read'),
+          422: result('CSV file without recognisable columns'),
+        },
+      },
+    },
+    '/playlists/{id}': {
+      parameters: [idParameter],
+      get: {
+        summary: 'Get a playlist',
+        responses: {
+          200: { description: 'The playlist', content: jsonContent(ref('Playlist')) },
+          404: notFound,
+        },
+      },
+      patch: {
+        summary: 'Update a playlist',
+        description: 'Fields left out stay as they are. Include the modified time the playlist was read with to fail with 409 instead of overwriting changes made since.',
+        requestBody: { required: true, content: jsonContent(ref('PlaylistInput')) },
+        responses: {
+          200: playlistResult('Updated'),
+          400: result('Invalid playlist, or the name is taken'),
+          403: readOnly,
+          404: notFound,
+          409: playlistResult('Changed since it was read, the conflict field has the current version'),
+        },
+      },
+      delete: {
+        summary: 'Move a playlist to the trash',
+        responses: {
+          200: result('Deleted'),
+          403: readOnly,
+          404: notFound,
+        },
+      },
+    },
+    '/playlists/{id}/export': {
+      parameters: [idParameter],
+      get: {
+        summary: 'Export a playlist',
+        parameters: [
+          { name: 'format', in: 'query', schema: { type: 'string', enum: EXPORT_FORMATS.map(info => info.format), default: 'json' } },
+        ],
+        responses: {
+          200: { description: 'The playlist file', content: { '*/*': { schema: { type: 'string' } } } },
+          400: result('Unsupported format'),
+          404: notFound,
+        },
+      },
+    },
+    '/playlists/{id}/play': {
+      parameters: [idParameter],
+      post: {
+        summary: 'Play a playlist in the app',
+        requestBody: {
+          content: jsonContent({ type: 'object', properties: { shuffle: { type: 'boolean', default: false } } }),
+        },
+        responses: {
+          202: result('Adding the songs to the queue'),
+          400: result('The playlist is empty'),
+          404: notFound,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+    },
+    schemas: {
+      Song: {
+        type: 'object',
+        required: ['videoId', 'title', 'artist'],
+        properties: {
+          videoId: { type: 'string', description: 'Empty for songs not matched to YouTube Music yet' },
+          title: { type: 'string' },
+          artist: { type: 'string' },
+          artists: { type: 'array', items: { type: 'string' } },
+          album: { type: 'string' },
+          duration: { type: 'string', description: 'Whole seconds' },
+          explicit: { type: 'boolean' },
+          addedAt: { type: 'string', format: 'date-time' },
+          thumbnail: { type: 'string' },
+          availability: {
+            type: 'string',
+            enum: ['available', 'unavailable', 'region-locked', 'changed'],
+            description: 'Result of the last availability check',
+          },
+          checkedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      Playlist: {
+        type: 'object',
+        required: ['id', 'name', 'songs', 'created', 'modified'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          songs: { type: 'array', items: ref('Song') },
+          created: { type: 'string', format: 'date-time' },
+          modified: { type: 'string', format: 'date-time' },
+          smart: { type: 'object', description: 'Rules of a smart playlist' },
+          folder: { type: 'string', description: 'Nested folders are separated by "/"' },
+          tags: { type: 'array', items: { type: 'string' } },
+          pinned: { type: 'boolean' },
+          source: {
+            type: 'object',
+            readOnly: true,
+            properties: {
+              dir: { type: 'string' },
+              label: { type: 'string' },
+              readOnly: { type: 'boolean' },
+            },
+          },
+        },
+      },
+      PlaylistInput: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          songs: { type: 'array', items: ref('Song') },
+          modified: { type: 'string', format: 'date-time' },
+          smart: { type: 'object' },
+          folder: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          pinned: { type: 'boolean' },
+        },
+      },
+      Result: {
+        type: 'object',
+        required: ['success', 'message'],
+        properties: {
+          success: { type: 'boolean' },
+          message: { type: 'string' },
+        },
+      },
+      PlaylistResult: {
+        allOf: [
+          ref('Result'),
+          {
+            type: 'object',
+            properties: {
+              playlist: ref('Playlist'),
+              conflict: ref('Playlist'),
+            },
+          },
+        ],
+      },
+    },
+  },
+});
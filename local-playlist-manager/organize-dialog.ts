@@ -0,0 +1,99 @@
+import { createElement } from './dom';
+import { normalizeFolder, normalizeTags } from './library-folders';
+import type { PlaylistOrganization } from './storage';
+import type { Playlist } from './types';
+
+export interface OrganizeRequest {
+  playlist: Playlist;
+  // Existing folders and tags, offered as suggestions
+  folders: string[];
+  tags: string[];
+}
+
+const splitTags = (value: string) => normalizeTags(value.split(','));
+
+// Edit the folder, tags and pinning of a playlist. Resolves with the new
+// values, or null when cancelled.
+export const showOrganizeDialog = (request: OrganizeRequest): Promise<PlaylistOrganization | null> =>
+  new Promise(resolve => {
+    const { playlist } = request;
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog organize-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Folder and tags');
+
+    dialog.append(
+      createElement('h2', undefined, `Folder and tags: ${playlist.name}`),
+      createElement('p', 'lpm-dialog-hint', 'Use "/" for folders inside folders, like "Work/2024". Separate tags with commas.')
+    );
+
+    const folderList = createElement('datalist');
+    folderList.id = 'lpm-organize-folders';
+    for (const folder of request.folders) {
+      folderList.append(new Option(folder));
+    }
+
+    const folderField = createElement('label', 'csv-mapping-field');
+    const folderInput = createElement('input');
+    folderInput.type = 'text';
+    folderInput.value = playlist.folder ?? '';
+    folderInput.placeholder = 'Not in a folder';
+    folderInput.setAttribute('list', folderList.id);
+    folderField.append(createElement('span', undefined, 'Folder'), folderInput, folderList);
+
+    const tagsField = createElement('label', 'csv-mapping-field');
+    const tagsInput = createElement('input');
+    tagsInput.type = 'text';
+    tagsInput.value = normalizeTags(playlist.tags).join(', ');
+    tagsInput.placeholder = 'chill, running, 2024';
+    tagsField.append(createElement('span', undefined, 'Tags'), tagsInput);
+
+    // Clicking a suggestion adds or removes the tag
+    const suggestions = createElement('div', 'tag-suggestions');
+    for (const tag of request.tags) {
+      const chip = createElement('button', 'playlist-tag', tag);
+      chip.type = 'button';
+      chip.addEventListener('click', () => {
+        const current = splitTags(tagsInput.value);
+        const without = current.filter(own => own.toLowerCase() !== tag.toLowerCase());
+        tagsInput.value = (without.length === current.length ? [...current, tag] : without).join(', ');
+      });
+      suggestions.append(chip);
+    }
+
+    const pinToggle = createElement('label', 'csv-mapping-header-toggle');
+    const pinCheckbox = createElement('input');
+    pinCheckbox.type = 'checkbox';
+    pinCheckbox.checked = !!playlist.pinned;
+    pinToggle.append(pinCheckbox, ' Pin to the top of the library and the sidebar');
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const saveBtn = createElement('button', 'action-btn primary', 'Save');
+    actions.append(cancelBtn, saveBtn);
+
+    dialog.append(folderField, tagsField);
+    if (request.tags.length > 0) {
+      dialog.append(suggestions);
+    }
+    dialog.append(pinToggle, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+    folderInput.focus();
+
+    const close = (result: PlaylistOrganization | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    saveBtn.addEventListener('click', () => close({
+      folder: normalizeFolder(folderInput.value),
+      tags: splitTags(tagsInput.value),
+      pinned: pinCheckbox.checked,
+    }));
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close(null);
+    });
+  });
@@ -0,0 +1,98 @@
+import { html } from './dom';
+import type { SafeHtml } from './dom';
+import { describeAvailability } from './availability';
+import { formatDuration } from './duration';
+import { normalizeTags } from './library-folders';
+import { isUnavailable } from './library-search';
+import { describeRule } from './smart-playlists';
+import type { Playlist, SmartRule, Song } from './types';
+
+// The parts of the pages that show what's in playlist files. Kept apart from
+// the event wiring in index.ts so they can be rendered on their own.
+
+export const playlistCardHtml = (playlist: Playlist, showSources: boolean): SafeHtml => html`
+  <div class="playlist-card${playlist.smart ? ' smart' : ''}${playlist.pinned ? ' pinned' : ''}" data-playlist-id="${playlist.id}"
+    role="listitem" tabindex="-1" aria-label="${playlist.name}, ${playlist.songs.length} songs${playlist.smart ? ', smart playlist' : ''}">
+    <div class="playlist-thumbnail">
+      <div class="playlist-icon" aria-hidden="true">${playlist.smart ? '✨' : '🎵'}</div>
+      <div class="playlist-overlay">
+        <button class="play-btn" title="Play" aria-label="Play ${playlist.name}">▶️</button>
+      </div>
+    </div>
+    <div class="playlist-card-info">
+      <h3>${playlist.name}</h3>
+      <p>${playlist.songs.length} songs${playlist.smart ? ' • Smart' : ''}</p>
+      ${normalizeTags(playlist.tags).length > 0 ? html`
+        <div class="playlist-tags">
+          ${normalizeTags(playlist.tags).map(tag => html`<span class="playlist-tag">${tag}</span>`)}
+        </div>
+      ` : ''}
+      ${showSources && playlist.source ? html`
+        <span class="source-tag${playlist.source.readOnly ? ' read-only' : ''}" title="${playlist.source.dir}">
+          ${playlist.source.readOnly ? '🔒 ' : ''}${playlist.source.label}
+        </span>
+      ` : ''}
+    </div>
+    ${playlist.source?.readOnly ? '' : html`
+      <button class="pin-btn" title="${playlist.pinned ? 'Unpin' : 'Pin to the top'}" aria-label="Pin ${playlist.name}" aria-pressed="${playlist.pinned ? 'true' : 'false'}">📌</button>
+    `}
+  </div>
+`;
+
+// Name, location and rules at the top of the detail page. playlists is the
+// library, for the names of playlists that smart rules refer to.
+export const playlistDetailInfoHtml = (playlist: Playlist, playlists: Playlist[]): SafeHtml => html`
+  <div class="detail-info">
+    <div class="detail-thumbnail${playlist.smart ? ' smart' : ''}" aria-hidden="true">${playlist.smart ? '✨' : '🎵'}</div>
+    <div class="detail-text">
+      <h1 id="playlist-detail-title" tabindex="-1">${playlist.name}</h1>
+      <p>${playlist.songs.length} songs</p>
+      ${playlist.folder || normalizeTags(playlist.tags).length > 0 ? html`
+        <p class="playlist-location">
+          ${playlist.folder ? html`📁 ${playlist.folder}` : ''}
+          ${normalizeTags(playlist.tags).map(tag => html`<span class="playlist-tag">${tag}</span>`)}
+        </p>
+      ` : ''}
+      ${playlist.smart ? html`
+        <p class="smart-rules">
+          Smart playlist: ${playlist.smart.rules.length === 0 ? 'every song in your library' : playlist.smart.rules
+            .map((rule: SmartRule) => describeRule(rule, playlists))
+            .join(playlist.smart.match === 'any' ? ' or ' : ' and ')}
+        </p>
+      ` : ''}
+      ${playlist.source?.readOnly ? html`
+        <p class="source-info">🔒 From the read-only folder ${playlist.source.dir}</p>
+      ` : ''}
+    </div>
+  </div>
+`;
+
+export interface SongItemOptions {
+  selected: boolean;
+  editable: boolean;
+  // Play count summary, already formatted
+  plays: string;
+}
+
+export const songItemHtml = (song: Song, index: number, { selected, editable, plays }: SongItemOptions): SafeHtml => html`
+  <div class="song-item${selected ? ' selected' : ''}${isUnavailable(song) ? ' unavailable' : ''}" data-index="${index}"${editable ? html` draggable="true"` : ''}
+    role="listitem" tabindex="-1" aria-label="${index + 1}. ${song.title} by ${song.artist}${isUnavailable(song) ? ', unavailable' : ''}">
+    ${editable ? html`<input type="checkbox" class="song-select" title="Select" aria-label="Select ${song.title}" ${selected ? 'checked' : ''}>` : html`<span></span>`}
+    <span class="song-number">${index + 1}</span>
+    <div class="song-info with-thumbnail">
+      <div class="song-thumbnail"></div>
+      <div class="song-text">
+        <div class="song-title">${song.explicit ? html`<span class="explicit-badge" title="Explicit">E</span>` : ''}${song.title}</div>
+        <div class="song-artist">${song.artist}${song.album ? html` • ${song.album}` : ''}</div>
+        ${song.availability && song.availability !== 'available' ? html`
+          <div class="song-availability">
+            ⚠️ ${describeAvailability(song.availability)}${song.checkedAt ? html` • checked ${new Date(song.checkedAt).toLocaleDateString()}` : ''}
+            ${editable ? html`<button class="replace-song-btn" title="Find another version of this song">Replace</button>` : ''}
+          </div>
+        ` : ''}
+      </div>
+    </div>
+    <div class="song-plays">${plays}</div>
+    <div class="song-duration">${formatDuration(song.duration)}</div>
+  </div>
+`;
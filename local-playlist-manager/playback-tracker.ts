@@ -0,0 +1,202 @@
+import { isArtworkUrl } from './artwork';
+import type { HistoryEntry } from './history';
+import type { Song } from './types';
+
+interface MoviePlayerElement extends HTMLElement {
+  getVideoData?: () => { video_id?: string; title?: string; author?: string };
+}
+
+interface CurrentPlay {
+  videoId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  startedAt: number;
+  playedSeconds: number;
+  duration: number;
+  ended: boolean;
+  playlistId?: string;
+  thumbnail?: string;
+}
+
+// A play counts once this much of the track was heard (or it reached the end)
+const PLAYED_MIN_SECONDS = 30;
+const PLAYED_MIN_FRACTION = 0.5;
+
+// timeupdate fires a few times per second, bigger jumps are seeks
+const MAX_TICK_SECONDS = 2;
+
+const getCurrentVideoId = (): string => {
+  const player = document.getElementById('movie_player') as MoviePlayerElement | null;
+  const fromPlayer = player?.getVideoData?.()?.video_id;
+  if (fromPlayer) return fromPlayer;
+
+  try {
+    return new URL(location.href).searchParams.get('v') || '';
+  } catch {
+    return '';
+  }
+};
+
+// Same player bar fields createFromQueue reads: title, and a byline of
+// "Artist • Album • Year"
+const readPlayerBar = () => {
+  const title = document.querySelector('.title.ytmusic-player-bar')?.textContent?.trim() || '';
+  const byline = document.querySelector('.byline.ytmusic-player-bar')?.textContent?.trim() || '';
+  const [artist, album] = byline.split('•').map(part => part.trim());
+  return { title, artist: artist || 'Unknown', album: album || undefined };
+};
+
+// Artwork of the playing track. Media Session lists it in several sizes but
+// can lag behind a track change, so it's only trusted when its title matches
+// the player bar.
+export const readPlayerThumbnail = (title: string): string | undefined => {
+  const metadata = navigator.mediaSession?.metadata;
+  if (metadata && metadata.title === title) {
+    const largest = [...metadata.artwork]
+      .sort((a, b) => (parseInt(b.sizes ?? '') || 0) - (parseInt(a.sizes ?? '') || 0))
+      .find(artwork => isArtworkUrl(artwork.src));
+    if (largest) return largest.src;
+  }
+
+  const image = document.querySelector<HTMLImageElement>('ytmusic-player-bar img.image, ytmusic-player-bar .thumbnail img');
+  return isArtworkUrl(image?.src) ? image!.src : undefined;
+};
+
+export const createPlaybackTracker = (onPlayFinished: (entry: HistoryEntry) => void) => {
+  let video: HTMLVideoElement | null = null;
+  let current: CurrentPlay | null = null;
+  let lastTime = 0;
+  let source: { playlistId: string; videoIds: Set<string> } | null = null;
+  let attachTimer: ReturnType<typeof setInterval> | null = null;
+
+  const finish = () => {
+    if (!current) return;
+
+    const play = current;
+    current = null;
+
+    // Nothing was actually heard, e.g. the queue skipped over it
+    if (play.playedSeconds < 1 && !play.ended) return;
+
+    const threshold = play.duration > 0
+      ? Math.min(PLAYED_MIN_SECONDS, play.duration * PLAYED_MIN_FRACTION)
+      : PLAYED_MIN_SECONDS;
+
+    onPlayFinished({
+      videoId: play.videoId,
+      title: play.title,
+      artist: play.artist,
+      album: play.album,
+      startedAt: new Date(play.startedAt).toISOString(),
+      endedAt: new Date().toISOString(),
+      playedSeconds: Math.round(play.playedSeconds),
+      status: play.ended || play.playedSeconds >= threshold ? 'played' : 'skipped',
+      playlistId: play.playlistId,
+      thumbnail: play.thumbnail,
+    });
+  };
+
+  const begin = (videoId: string) => {
+    const { title, artist, album } = readPlayerBar();
+    current = {
+      videoId,
+      title,
+      artist,
+      album,
+      startedAt: Date.now(),
+      playedSeconds: 0,
+      duration: video && isFinite(video.duration) ? video.duration : 0,
+      ended: false,
+      playlistId: source?.videoIds.has(videoId) ? source.playlistId : undefined,
+      thumbnail: title ? readPlayerThumbnail(title) : undefined,
+    };
+    lastTime = video?.currentTime ?? 0;
+  };
+
+  const onTimeUpdate = () => {
+    if (!video) return;
+
+    const videoId = getCurrentVideoId();
+    if (!videoId) return;
+
+    if (!current || current.videoId !== videoId) {
+      finish();
+      begin(videoId);
+      return;
+    }
+
+    const delta = video.currentTime - lastTime;
+    if (delta > 0 && delta < MAX_TICK_SECONDS) {
+      current.playedSeconds += delta;
+    }
+    lastTime = video.currentTime;
+
+    // Title and byline can update a moment after the track changes
+    if (!current.title) {
+      Object.assign(current, readPlayerBar());
+    }
+    if (!current.thumbnail && current.title) {
+      current.thumbnail = readPlayerThumbnail(current.title);
+    }
+    if (!current.duration && isFinite(video.duration)) {
+      current.duration = video.duration;
+    }
+  };
+
+  const onSeeked = () => {
+    lastTime = video?.currentTime ?? 0;
+  };
+
+  const onEnded = () => {
+    if (current) {
+      current.ended = true;
+    }
+    finish();
+  };
+
+  const attach = () => {
+    const element = document.querySelector('video');
+    if (!element) return false;
+
+    video = element;
+    video.addEventListener('timeupdate', onTimeUpdate);
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('ended', onEnded);
+    return true;
+  };
+
+  const start = () => {
+    if (attach()) return;
+
+    // The video element only exists once something has been played
+    attachTimer = setInterval(() => {
+      if (attach() && attachTimer) {
+        clearInterval(attachTimer);
+        attachTimer = null;
+      }
+    }, 2000);
+  };
+
+  const stop = () => {
+    finish();
+    if (attachTimer) {
+      clearInterval(attachTimer);
+      attachTimer = null;
+    }
+    video?.removeEventListener('timeupdate', onTimeUpdate);
+    video?.removeEventListener('seeked', onSeeked);
+    video?.removeEventListener('ended', onEnded);
+    video = null;
+  };
+
+  // Remember which local playlist was just queued so its plays are
+  // attributed to it
+  const setSource = (playlistId: string | null, songs: Song[] = []) => {
+    source = playlistId
+      ? { playlistId, videoIds: new Set(songs.map(song => song.videoId).filter(Boolean)) }
+      : null;
+  };
+
+  return { start, stop, setSource };
+};
@@ -0,0 +1,177 @@
+import { songKey } from './smart-playlists';
+import type { Playlist, Song } from './types';
+
+export interface PlaylistDiff {
+  nameChanged: boolean;
+  // In the newer playlist but not in the older one, and the other way round
+  added: Song[];
+  removed: Song[];
+  unchanged: number;
+  // Songs kept in both but in a different order
+  reordered: boolean;
+}
+
+// Compare two versions of a playlist. Songs are matched by video ID (or
+// artist and title), and a song listed twice has to be listed twice in the
+// other version as well to count as unchanged.
+export const diffPlaylists = (older: Playlist, newer: Playlist): PlaylistDiff => {
+  const remaining = new Map<string, number>();
+  for (const song of older.songs ?? []) {
+    const key = songKey(song);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const added: Song[] = [];
+  const keptInNewer: string[] = [];
+  for (const song of newer.songs ?? []) {
+    const key = songKey(song);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      keptInNewer.push(key);
+    } else {
+      added.push(song);
+    }
+  }
+
+  const removed: Song[] = [];
+  const keptInOlder: string[] = [];
+  const removedCounts = new Map(remaining);
+  for (const song of older.songs ?? []) {
+    const key = songKey(song);
+    const count = removedCounts.get(key) ?? 0;
+    if (count > 0) {
+      removedCounts.set(key, count - 1);
+      removed.push(song);
+    } else {
+      keptInOlder.push(key);
+    }
+  }
+
+  return {
+    nameChanged: older.name !== newer.name,
+    added,
+    removed,
+    unchanged: keptInNewer.length,
+    reordered: keptInOlder.some((key, index) => key !== keptInNewer[index]),
+  };
+};
+
+export type DiffCellStatus = 'same' | 'removed' | 'added' | 'moved';
+
+export interface DiffCell {
+  song: Song;
+  index: number;
+  // 'moved' songs are on both sides but can't be lined up without crossing
+  // other matches
+  status: DiffCellStatus;
+}
+
+export interface DiffRow {
+  left?: DiffCell;
+  right?: DiffCell;
+}
+
+// Bigger differences aren't lined up, their songs show as moved, removed
+// or added instead
+const MAX_ALIGN_CELLS = 4_000_000;
+
+// Longest common subsequence of two key lists, as pairs of matching indexes
+const commonSubsequence = (left: string[], right: string[]): [number, number][] => {
+  const n = left.length;
+  const m = right.length;
+  if (n === 0 || m === 0 || n * m > MAX_ALIGN_CELLS) return [];
+
+  // lengths[i * (m + 1) + j] is the LCS of left[i..] and right[j..]
+  const lengths = new Uint16Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = left[i] === right[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (left[i] === right[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Line two song lists up for showing side by side. Songs in both lists in
+// the same order share a row; runs that differ are shown next to each other.
+export const alignPlaylists = (left: Song[], right: Song[]): DiffRow[] => {
+  const leftKeys = left.map(songKey);
+  const rightKeys = right.map(songKey);
+
+  // Most edits touch a small part of the list, so only the middle needs the
+  // expensive matching
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && leftKeys[prefix] === rightKeys[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < left.length - prefix && suffix < right.length - prefix
+    && leftKeys[left.length - 1 - suffix] === rightKeys[right.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const middle = commonSubsequence(
+    leftKeys.slice(prefix, left.length - suffix),
+    rightKeys.slice(prefix, right.length - suffix)
+  ).map(([i, j]): [number, number] => [i + prefix, j + prefix]);
+
+  const matches: [number, number][] = [
+    ...Array.from({ length: prefix }, (_, i): [number, number] => [i, i]),
+    ...middle,
+    ...Array.from({ length: suffix }, (_, k): [number, number] =>
+      [left.length - suffix + k, right.length - suffix + k]),
+  ];
+
+  // Songs left out of the matching that still appear on the other side
+  const matchedLeft = new Set(matches.map(([i]) => i));
+  const matchedRight = new Set(matches.map(([, j]) => j));
+  const unmatchedLeftKeys = new Set(leftKeys.filter((_, i) => !matchedLeft.has(i)));
+  const unmatchedRightKeys = new Set(rightKeys.filter((_, j) => !matchedRight.has(j)));
+
+  const rows: DiffRow[] = [];
+  const addRun = (leftStart: number, leftEnd: number, rightStart: number, rightEnd: number) => {
+    const length = Math.max(leftEnd - leftStart, rightEnd - rightStart);
+    for (let k = 0; k < length; k++) {
+      const i = leftStart + k;
+      const j = rightStart + k;
+      rows.push({
+        left: i < leftEnd
+          ? { song: left[i], index: i, status: unmatchedRightKeys.has(leftKeys[i]) ? 'moved' : 'removed' }
+          : undefined,
+        right: j < rightEnd
+          ? { song: right[j], index: j, status: unmatchedLeftKeys.has(rightKeys[j]) ? 'moved' : 'added' }
+          : undefined,
+      });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchLeft, matchRight] of matches) {
+    addRun(i, matchLeft, j, matchRight);
+    rows.push({
+      left: { song: left[matchLeft], index: matchLeft, status: 'same' },
+      right: { song: right[matchRight], index: matchRight, status: 'same' },
+    });
+    i = matchLeft + 1;
+    j = matchRight + 1;
+  }
+  addRun(i, left.length, j, right.length);
+
+  return rows;
+};
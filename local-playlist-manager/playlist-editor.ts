@@ -0,0 +1,48 @@
+import type { Song } from './types';
+
+// Edits never mutate the array they are given so the previous version can be
+// kept around for undo
+export const moveSong = (songs: Song[], from: number, to: number): Song[] => {
+  if (from === to || from < 0 || from >= songs.length) return songs;
+
+  const result = [...songs];
+  const [song] = result.splice(from, 1);
+  result.splice(Math.max(0, Math.min(to, result.length)), 0, song);
+  return result;
+};
+
+export const removeSongs = (songs: Song[], indices: Iterable<number>): Song[] => {
+  const toRemove = new Set(indices);
+  return songs.filter((_, index) => !toRemove.has(index));
+};
+
+export const addSong = (songs: Song[], song: Song): Song[] => [
+  ...songs,
+  { ...song, addedAt: song.addedAt || new Date().toISOString() },
+];
+
+export const createEditHistory = (limit: number = 50) => {
+  let playlistId: string | null = null;
+  let stack: Song[][] = [];
+
+  // History only applies to one playlist at a time
+  const reset = (id: string | null) => {
+    if (id !== playlistId) {
+      playlistId = id;
+      stack = [];
+    }
+  };
+
+  const push = (songs: Song[]) => {
+    stack.push(songs);
+    if (stack.length > limit) {
+      stack.shift();
+    }
+  };
+
+  const undo = (): Song[] | undefined => stack.pop();
+
+  const canUndo = () => stack.length > 0;
+
+  return { reset, push, undo, canUndo };
+};
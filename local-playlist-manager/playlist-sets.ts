@@ -0,0 +1,30 @@
+import { createSongLookup } from './duplicates';
+import type { Song } from './types';
+
+export type SetOperation = 'merge' | 'intersect' | 'subtract';
+
+// Songs count as the same by video ID or normalised artist and title, like
+// duplicate detection. The result keeps the order of the first playlist.
+export const combineSongs = (operation: SetOperation, first: Song[], second: Song[]): Song[] => {
+  if (operation === 'merge') {
+    const lookup = createSongLookup(first);
+    const added: Song[] = [];
+    for (const song of second) {
+      if (lookup.has(song)) continue;
+      lookup.add(song);
+      added.push(song);
+    }
+    return [...first, ...added];
+  }
+
+  const lookup = createSongLookup(second);
+  return operation === 'intersect'
+    ? first.filter(song => lookup.has(song))
+    : first.filter(song => !lookup.has(song));
+};
+
+export const combinedPlaylistName = (operation: SetOperation, first: string, second: string) => {
+  if (operation === 'merge') return `${first} + ${second}`;
+  if (operation === 'intersect') return `${first} ∩ ${second}`;
+  return `${first} − ${second}`;
+};
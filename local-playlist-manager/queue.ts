@@ -0,0 +1,215 @@
+import type { Song } from './types';
+
+// Minimal shapes of the YouTube Music elements we talk to. The app keeps its
+// queue in a redux-like store on the #queue element and exposes its own
+// authenticated fetch on ytmusic-app, which is what the app itself uses to
+// resolve video IDs into queue entries.
+interface QueueStoreState {
+  queue: {
+    items: unknown[];
+    nextQueueItemId: number;
+    queueContextParams?: string;
+  };
+}
+
+interface QueueElement extends HTMLElement {
+  dispatch(action: { type: string; payload?: unknown }): void;
+  queue: {
+    store: {
+      store: {
+        getState(): QueueStoreState;
+        dispatch(action: { type: string; payload?: unknown }): void;
+      };
+    };
+  };
+}
+
+interface YouTubeMusicAppElement extends HTMLElement {
+  networkManager: {
+    fetch<T>(url: string, data: Record<string, unknown>): Promise<T>;
+  };
+}
+
+interface QueueRenderer {
+  videoId?: string;
+}
+
+interface QueueData {
+  content?: {
+    playlistPanelVideoRenderer?: QueueRenderer;
+    playlistPanelVideoWrapperRenderer?: {
+      primaryRenderer?: {
+        playlistPanelVideoRenderer?: QueueRenderer;
+      };
+    };
+  };
+}
+
+export interface QueueProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface QueueResult {
+  success: boolean;
+  message: string;
+  added: number;
+  failed: Song[];
+}
+
+export interface QueueOptions {
+  shuffle?: boolean;
+  // Append after the current queue instead of replacing it
+  append?: boolean;
+  onProgress?: (progress: QueueProgress) => void;
+}
+
+// Songs are resolved in batches so long playlists start playing as soon as the
+// first batch is in, instead of waiting for every request to finish
+const BATCH_SIZE = 25;
+
+export const shuffleSongs = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const getQueueDataVideoId = (data: QueueData): string | undefined => {
+  const content = data.content;
+  return content?.playlistPanelVideoRenderer?.videoId ??
+    content?.playlistPanelVideoWrapperRenderer?.primaryRenderer?.playlistPanelVideoRenderer?.videoId;
+};
+
+export const createQueueService = () => {
+  const getQueue = () => document.querySelector<QueueElement>('#queue');
+  const getApp = () => document.querySelector<YouTubeMusicAppElement>('ytmusic-app');
+
+  const isAvailable = () => {
+    const queue = getQueue();
+    return !!(getApp()?.networkManager && queue?.queue?.store?.store);
+  };
+
+  // Ask YouTube Music to turn a batch of video IDs into queue entries. IDs the
+  // app can't resolve (removed, region-locked, typos) are simply missing from
+  // the response, so they are reported back as failures.
+  const fetchQueueItems = async (videoIds: string[]) => {
+    const app = getApp()!;
+    const store = getQueue()!.queue.store.store;
+
+    const response = await app.networkManager.fetch<{ queueDatas?: QueueData[] }>('/music/get_queue', {
+      queueContextParams: store.getState().queue.queueContextParams,
+      queueInsertPosition: 'INSERT_AT_END',
+      videoIds,
+    });
+
+    const items: NonNullable<QueueData['content']>[] = [];
+    const resolved = new Set<string>();
+
+    for (const data of response?.queueDatas ?? []) {
+      const videoId = getQueueDataVideoId(data);
+      if (data.content && videoId) {
+        items.push(data.content);
+        resolved.add(videoId);
+      }
+    }
+
+    return { items, resolved };
+  };
+
+  const addItems = (items: unknown[]) => {
+    const queue = getQueue()!;
+    const state = queue.queue.store.store.getState();
+
+    queue.dispatch({
+      type: 'ADD_ITEMS',
+      payload: {
+        nextQueueItemId: state.queue.nextQueueItemId,
+        index: state.queue.items.length,
+        items,
+        shuffleEnabled: false,
+        shouldAssignIds: true,
+      },
+    });
+  };
+
+  const clear = () => {
+    const queue = getQueue();
+    if (!queue) return;
+    queue.queue.store.store.dispatch({ type: 'SET_PLAYER_PAGE_INFO', payload: { open: false } });
+    queue.dispatch({ type: 'CLEAR' });
+  };
+
+  // Add songs to the YouTube Music queue in order (or shuffled). Unless
+  // appending, the current queue is replaced and playback starts with the
+  // first song as soon as its batch has been resolved.
+  const enqueueSongs = async (songs: Song[], options: QueueOptions = {}): Promise<QueueResult> => {
+    const failed: Song[] = songs.filter(song => !song.videoId);
+    let ordered = songs.filter(song => song.videoId);
+
+    if (ordered.length === 0) {
+      return { success: false, message: 'No songs with valid video IDs found in this playlist', added: 0, failed };
+    }
+
+    if (!isAvailable()) {
+      return { success: false, message: 'YouTube Music queue is not available yet', added: 0, failed };
+    }
+
+    if (options.shuffle) {
+      ordered = shuffleSongs(ordered);
+    }
+
+    const total = ordered.length;
+    let added = 0;
+    let started = !!options.append;
+
+    options.onProgress?.({ done: 0, total, failed: failed.length });
+
+    for (let i = 0; i < ordered.length; i += BATCH_SIZE) {
+      const batch = ordered.slice(i, i + BATCH_SIZE);
+
+      try {
+        const { items, resolved } = await fetchQueueItems(batch.map(song => song.videoId));
+        failed.push(...batch.filter(song => !resolved.has(song.videoId)));
+
+        if (items.length > 0) {
+          if (!started) {
+            clear();
+            addItems(items);
+            getQueue()?.dispatch({ type: 'SET_INDEX', payload: 0 });
+            started = true;
+          } else {
+            addItems(items);
+          }
+          added += items.length;
+        }
+      } catch (error) {
+        console.error('Local Playlists: Failed to queue batch:', error);
+        failed.push(...batch);
+      }
+
+      options.onProgress?.({ done: Math.min(i + batch.length, total), total, failed: failed.length });
+    }
+
+    if (added === 0) {
+      return { success: false, message: 'None of the songs could be added to the queue', added, failed };
+    }
+
+    const message = failed.length > 0
+      ? `Queued ${added} songs, ${failed.length} could not be added`
+      : `Queued ${added} songs`;
+
+    return { success: true, message, added, failed };
+  };
+
+  return {
+    isAvailable,
+    enqueueSongs,
+    clear,
+  };
+};
+
+export type QueueService = ReturnType<typeof createQueueService>;
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { validatePlaylist } from './schema';
+import { isConflictCopy } from './sync-conflicts';
+import type { Playlist, PlaylistSource } from './types';
+
+const sourceKey = (dir: string) => createHash('sha1').update(path.resolve(dir)).digest('hex').slice(0, 8);
+
+// Playlists in a shared or synced folder the plugin never writes to. Their
+// ids are made from the folder and the file name, so they can't clash with
+// the main library even when a file was copied from there.
+export const createReadOnlySource = (dir: string) => {
+  const key = sourceKey(dir);
+  const source: PlaylistSource = { dir, label: path.basename(dir) || dir, readOnly: true };
+
+  const list = (): Playlist[] => {
+    if (!fs.existsSync(dir)) {
+      console.error(`Local Playlists: Read-only folder not found: ${dir}`);
+      return [];
+    }
+
+    const playlists: Playlist[] = [];
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json') || isConflictCopy(file)) continue;
+
+      try {
+        const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+        const { errors } = validatePlaylist(data);
+        if (errors.length > 0) {
+          console.error(`Error reading playlist file ${path.join(dir, file)}: ${errors.join('; ')}`);
+          continue;
+        }
+        playlists.push({ ...data, id: `${key}-${file.slice(0, -'.json'.length)}`, source });
+      } catch (error) {
+        console.error(`Error reading playlist file ${path.join(dir, file)}:`, error);
+      }
+    }
+    return playlists;
+  };
+
+  return { dir, source, list };
+};
+
+export type ReadOnlySource = ReturnType<typeof createReadOnlySource>;
@@ -0,0 +1,151 @@
+import { applyMatches } from './matcher';
+import type { MatchCandidate, MatchResult, Matcher } from './matcher';
+import type { Playlist, Song } from './types';
+
+export interface ResolutionProgress {
+  playlistName: string;
+  done: number;
+  total: number;
+  // Playlists waiting after this one
+  waiting: number;
+}
+
+export interface ResolvedPlaylist {
+  playlistId: string;
+  playlistName: string;
+  matched: number;
+  notFound: number;
+  // More than one likely match, for the user to pick from
+  ambiguous: MatchResult[];
+}
+
+export interface ResolutionQueueHooks {
+  load(playlistId: string): Promise<Playlist | undefined>;
+  save(playlist: Playlist): Promise<{ success: boolean; message: string }>;
+  // null once the queue is empty
+  onProgress(progress: ResolutionProgress | null): void;
+  onResolved(resolved: ResolvedPlaylist): void;
+}
+
+// The song may have been edited, moved or removed while the search ran
+const isUnchanged = (current: Song | undefined, searched: Song) =>
+  !!current && !current.videoId && current.title === searched.title && current.artist === searched.artist;
+
+// Imported playlists from other services have no video IDs at all. This
+// looks them up in the background, one song at a time, and saves confident
+// matches as it finishes each playlist. Imports add to the end of the queue.
+export const createResolutionQueue = (matcher: Matcher, hooks: ResolutionQueueHooks) => {
+  const waiting: string[] = [];
+  let running = false;
+  let stopped = false;
+
+  // Write accepted matches into the latest copy of the playlist, skipping
+  // songs that changed since they were searched for. Returns how many stuck.
+  const apply = async (playlistId: string, accepted: Map<number, { song: Song; candidate: MatchCandidate }>) => {
+    const playlist = await hooks.load(playlistId);
+    if (!playlist || accepted.size === 0) return 0;
+
+    const matches = new Map<number, MatchCandidate>();
+    accepted.forEach(({ song, candidate }, index) => {
+      if (isUnchanged(playlist.songs[index], song)) matches.set(index, candidate);
+    });
+    if (matches.size === 0) return 0;
+
+    const result = await hooks.save(applyMatches(playlist, matches));
+    if (!result.success) {
+      console.error('Local Playlists: Could not save matches:', result.message);
+      return 0;
+    }
+    return matches.size;
+  };
+
+  const resolve = async (playlistId: string) => {
+    const playlist = await hooks.load(playlistId);
+    if (!playlist || playlist.smart) return;
+
+    const unresolved = playlist.songs
+      .map((song, index) => ({ song, index }))
+      .filter(({ song }) => !song.videoId);
+
+    const results: MatchResult[] = [];
+    for (const { song, index } of unresolved) {
+      if (stopped) break;
+      hooks.onProgress({ playlistName: playlist.name, done: results.length, total: unresolved.length, waiting: waiting.length });
+      try {
+        results.push(await matcher.matchSong(song, index));
+      } catch (error) {
+        console.error('Local Playlists: Search failed for', song.title, error);
+        results.push({ index, song, status: 'not-found', candidates: [] });
+      }
+    }
+
+    // Whatever was found before a stop is still worth keeping
+    const confident = new Map(results
+      .filter(result => result.status === 'matched' && result.best)
+      .map(result => [result.index, { song: result.song, candidate: result.best!.candidate }]));
+    const matched = await apply(playlistId, confident);
+
+    hooks.onResolved({
+      playlistId,
+      playlistName: playlist.name,
+      matched,
+      notFound: results.filter(result => result.status === 'not-found').length,
+      ambiguous: results.filter(result => result.status === 'ambiguous'),
+    });
+  };
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    stopped = false;
+
+    while (waiting.length > 0 && !stopped) {
+      try {
+        await resolve(waiting.shift()!);
+      } catch (error) {
+        console.error('Local Playlists: Could not resolve playlist:', error);
+      }
+    }
+
+    running = false;
+    // Imported again while a stop was winding down
+    if (waiting.length > 0) {
+      run();
+    } else {
+      hooks.onProgress(null);
+    }
+  };
+
+  const add = (playlistIds: string[]) => {
+    const fresh = playlistIds.filter(id => !waiting.includes(id));
+    if (fresh.length === 0) return;
+    waiting.push(...fresh);
+    run();
+  };
+
+  // Drops everything still waiting. The playlist being searched keeps what
+  // it found so far.
+  const stop = () => {
+    stopped = true;
+    waiting.length = 0;
+  };
+
+  // After the user picked candidates for the ambiguous songs
+  const applyReviewed = (resolved: ResolvedPlaylist, chosen: Map<number, MatchCandidate>) => {
+    const accepted = new Map<number, { song: Song; candidate: MatchCandidate }>();
+    for (const result of resolved.ambiguous) {
+      const candidate = chosen.get(result.index);
+      if (candidate) accepted.set(result.index, { song: result.song, candidate });
+    }
+    return apply(resolved.playlistId, accepted);
+  };
+
+  return {
+    add,
+    stop,
+    applyReviewed,
+    isRunning: () => running,
+  };
+};
+
+export type ResolutionQueue = ReturnType<typeof createResolutionQueue>;
@@ -0,0 +1,130 @@
+// The Local Playlists pages live in the URL hash, on top of whatever page
+// YouTube Music itself has open: #local-playlists, #local-playlists/stats
+// and #local-playlists/<playlist id>. That puts them in the browser history
+// next to YouTube Music's own pages, so back, forward and reloads work, and
+// leaving for another page and pressing back returns to where the user was.
+
+export type LocalRoute =
+  | { page: 'list' }
+  | { page: 'stats' }
+  | { page: 'playlist'; playlistId: string };
+
+const ROUTE_PREFIX = '#local-playlists';
+
+// Set on <body> while one of our pages is open, the stylesheet hides
+// YouTube Music's own page underneath. A class rather than inline styles,
+// because YouTube Music replaces its page elements as it navigates.
+const OPEN_CLASS = 'local-playlists-open';
+
+// Clicking these makes YouTube Music navigate to one of its own pages
+const APP_NAVIGATION = 'ytmusic-guide-entry-renderer, ytmusic-pivot-bar-item-renderer';
+
+export const parseRoute = (hash: string): LocalRoute | null => {
+  if (hash !== ROUTE_PREFIX && !hash.startsWith(`${ROUTE_PREFIX}/`)) return null;
+
+  const rest = hash.slice(ROUTE_PREFIX.length + 1);
+  if (!rest) return { page: 'list' };
+  if (rest === 'stats') return { page: 'stats' };
+
+  try {
+    return { page: 'playlist', playlistId: decodeURIComponent(rest) };
+  } catch {
+    // A hand-edited URL with broken escapes
+    return { page: 'list' };
+  }
+};
+
+export const routeToHash = (route: LocalRoute): string => {
+  switch (route.page) {
+    case 'list':
+      return ROUTE_PREFIX;
+    case 'stats':
+      return `${ROUTE_PREFIX}/stats`;
+    case 'playlist':
+      return `${ROUTE_PREFIX}/${encodeURIComponent(route.playlistId)}`;
+  }
+};
+
+// show draws the page for a route the user went to through the history or
+// a link. leave runs when the user goes to one of YouTube Music's pages.
+export const createRouter = (
+  show: (route: LocalRoute) => void,
+  leave: () => void
+) => {
+  // Hash of the page on screen, null while YouTube Music's page is showing
+  let shown: string | null = null;
+
+  const current = (): LocalRoute | null => parseRoute(location.hash);
+
+  // Called by every page as it opens. Adds a history entry unless the
+  // route is already the current one, e.g. when a page redraws itself or
+  // was opened through back/forward.
+  const enter = (route: LocalRoute, replace: boolean = false) => {
+    const hash = routeToHash(route);
+    shown = hash;
+    document.body.classList.add(OPEN_CLASS);
+
+    if (location.hash === hash) return;
+
+    // YouTube Music's router keeps its page in history.state. Sharing it
+    // means going back to this entry leaves its page intact underneath.
+    const url = `${location.pathname}${location.search}${hash}`;
+    if (replace) {
+      history.replaceState(history.state, '', url);
+    } else {
+      history.pushState(history.state, '', url);
+    }
+  };
+
+  const close = () => {
+    if (shown === null) return;
+    shown = null;
+    document.body.classList.remove(OPEN_CLASS);
+    leave();
+  };
+
+  // Bring the screen in line with the URL
+  const sync = () => {
+    const route = current();
+    if (!route) {
+      close();
+      return;
+    }
+    // YouTube Music re-announces the page after back/forward, which must
+    // not redraw a page that's already showing
+    if (location.hash !== shown) {
+      show(route);
+    }
+  };
+
+  const onNavigationClick = (e: Event) => {
+    const target = e.target as HTMLElement | null;
+    if (target?.closest(APP_NAVIGATION) && !target.closest('.local-playlists-nav')) {
+      close();
+    }
+  };
+
+  const start = () => {
+    window.addEventListener('popstate', sync);
+    // Fired by YouTube Music once it has moved to another of its pages,
+    // which drops our hash from the URL
+    document.addEventListener('yt-navigate-finish', sync);
+    // Closing straight away instead of waiting for the new page to load
+    document.addEventListener('click', onNavigationClick, true);
+
+    // Opened with one of our routes, e.g. after a reload
+    if (current()) sync();
+  };
+
+  const stop = () => {
+    window.removeEventListener('popstate', sync);
+    document.removeEventListener('yt-navigate-finish', sync);
+    document.removeEventListener('click', onNavigationClick, true);
+    shown = null;
+    document.body.classList.remove(OPEN_CLASS);
+  };
+
+  return { current, enter, start, stop };
+};
+
+export type Router = ReturnType<typeof createRouter>;
@@ -0,0 +1,302 @@
+import { normalizeDuration } from './formats/csv';
+import { songKey } from './smart-playlists';
+import type { Playlist, SmartPlaylistDefinition, Song } from './types';
+
+// Bump when the stored shape of Playlist or Song changes in a way older
+// versions of the plugin can't read
+export const PLAYLIST_SCHEMA_VERSION = 1;
+
+export interface ValidationResult {
+  // The playlist can't be used as it is
+  errors: string[];
+  // Usable, but worth fixing with a repair
+  warnings: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+
+const isSecondsString = (value: unknown) => typeof value === 'string' && /^\d+$/.test(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const SMART_MATCHES = ['all', 'any'];
+const AVAILABILITIES = ['available', 'unavailable', 'region-locked', 'changed'];
+const SMART_SORTS = ['added', 'title', 'artist', 'random'];
+
+const validateSong = (song: unknown, label: string, result: ValidationResult) => {
+  if (!isObject(song)) {
+    result.errors.push(`${label} is not a song`);
+    return;
+  }
+
+  if (typeof song.title !== 'string') result.errors.push(`${label} has no title`);
+  if (typeof song.artist !== 'string') result.errors.push(`${label} has no artist`);
+  if (song.videoId !== undefined && typeof song.videoId !== 'string') {
+    result.errors.push(`${label} has an invalid video ID`);
+  }
+  if (song.album !== undefined && typeof song.album !== 'string') {
+    result.errors.push(`${label} has an invalid album`);
+  }
+  if (song.duration !== undefined && !isSecondsString(song.duration)) {
+    result.warnings.push(`${label} has a duration that isn't whole seconds`);
+  }
+  if (song.addedAt !== undefined && !isDate(song.addedAt)) {
+    result.warnings.push(`${label} has an invalid added date`);
+  }
+  if (song.thumbnail !== undefined && typeof song.thumbnail !== 'string') {
+    result.warnings.push(`${label} has an invalid thumbnail`);
+  }
+  if (song.artists !== undefined && !isStringArray(song.artists)) {
+    result.warnings.push(`${label} has an invalid artist list`);
+  }
+  if (song.explicit !== undefined && typeof song.explicit !== 'boolean') {
+    result.warnings.push(`${label} has an invalid explicit flag`);
+  }
+  if (song.availability !== undefined && !AVAILABILITIES.includes(song.availability as string)) {
+    result.warnings.push(`${label} has an invalid availability`);
+  }
+  if (song.checkedAt !== undefined && !isDate(song.checkedAt)) {
+    result.warnings.push(`${label} has an invalid check date`);
+  }
+};
+
+// Check parsed JSON against the Playlist shape the plugin relies on
+export const validatePlaylist = (data: unknown): ValidationResult => {
+  const result: ValidationResult = { errors: [], warnings: [] };
+
+  if (!isObject(data)) {
+    result.errors.push('File does not contain a playlist');
+    return result;
+  }
+
+  if (typeof data.schemaVersion === 'number' && data.schemaVersion > PLAYLIST_SCHEMA_VERSION) {
+    result.errors.push(`Saved by a newer version of the plugin (schema ${data.schemaVersion})`);
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    result.errors.push('Playlist has no name');
+  }
+  if (data.id !== undefined && typeof data.id !== 'string') {
+    result.errors.push('Playlist id is not a string');
+  }
+
+  if (!Array.isArray(data.songs)) {
+    result.errors.push('Playlist has no song list');
+  } else {
+    data.songs.forEach((song, index) => validateSong(song, `Song ${index + 1}`, result));
+
+    const keys = data.songs
+      .filter(song => isObject(song) && typeof song.title === 'string' && typeof song.artist === 'string')
+      .map(song => songKey(song as unknown as Song));
+    const duplicates = keys.length - new Set(keys).size;
+    if (duplicates > 0) {
+      result.warnings.push(`${duplicates} duplicate ${duplicates === 1 ? 'song' : 'songs'}`);
+    }
+  }
+
+  if (data.smart !== undefined) {
+    const smart = data.smart;
+    if (!isObject(smart) || !Array.isArray(smart.rules) || !SMART_MATCHES.includes(smart.match as string)) {
+      result.errors.push('Smart playlist rules are invalid');
+    } else if (smart.sort !== undefined && !SMART_SORTS.includes(smart.sort as string)) {
+      result.warnings.push('Smart playlist has an unknown sort order');
+    }
+  }
+
+  if (data.folder !== undefined && typeof data.folder !== 'string') {
+    result.warnings.push('Folder is not text');
+  }
+  if (data.tags !== undefined && !isStringArray(data.tags)) {
+    result.warnings.push('Tags are not a list of text');
+  }
+  if (data.pinned !== undefined && typeof data.pinned !== 'boolean') {
+    result.warnings.push('Pinned is not true or false');
+  }
+  if (data.cover !== undefined && typeof data.cover !== 'string') {
+    result.warnings.push('Cover image is not a file name');
+  }
+
+  if (!isDate(data.created)) result.warnings.push('Missing creation date');
+  if (!isDate(data.modified)) result.warnings.push('Missing modification date');
+
+  return result;
+};
+
+const repairSong = (value: unknown, fixes: Set<string>): Song | null => {
+  if (!isObject(value)) {
+    fixes.add('Removed entries that are not songs');
+    return null;
+  }
+
+  const title = typeof value.title === 'string' ? value.title : '';
+  const artist = typeof value.artist === 'string' ? value.artist : '';
+  const videoId = typeof value.videoId === 'string' ? value.videoId : '';
+
+  if (!title && !artist && !videoId) {
+    fixes.add('Removed songs without a title, artist or video ID');
+    return null;
+  }
+  if (typeof value.title !== 'string' || typeof value.artist !== 'string') {
+    fixes.add('Filled in missing titles and artists');
+  }
+  if (value.videoId !== undefined && typeof value.videoId !== 'string') {
+    fixes.add('Cleared invalid video IDs');
+  }
+
+  // Fields this version doesn't know about are kept as they are
+  const song = { ...value, videoId, title: title || 'Unknown', artist: artist || 'Unknown' } as Song;
+
+  if (typeof value.album !== 'string' || !value.album) {
+    delete song.album;
+  }
+
+  if (value.duration !== undefined) {
+    const duration = isSecondsString(value.duration)
+      ? value.duration as string
+      : normalizeDuration(String(value.duration));
+    if (duration !== value.duration) {
+      fixes.add('Converted durations to whole seconds');
+    }
+    if (duration) {
+      song.duration = duration;
+    } else {
+      delete song.duration;
+    }
+  }
+
+  if (value.addedAt !== undefined && !isDate(value.addedAt)) {
+    delete song.addedAt;
+    fixes.add('Removed invalid added dates');
+  }
+
+  if (value.thumbnail !== undefined && typeof value.thumbnail !== 'string') {
+    delete song.thumbnail;
+    fixes.add('Removed invalid thumbnails');
+  }
+
+  if (value.artists !== undefined && !isStringArray(value.artists)) {
+    delete song.artists;
+    fixes.add('Removed invalid artist lists');
+  }
+
+  if (value.explicit !== undefined && typeof value.explicit !== 'boolean') {
+    delete song.explicit;
+    fixes.add('Removed invalid explicit flags');
+  }
+
+  // A check result means nothing without a valid status and date
+  if ((value.availability !== undefined && !AVAILABILITIES.includes(value.availability as string)) ||
+      (value.checkedAt !== undefined && !isDate(value.checkedAt))) {
+    delete song.availability;
+    delete song.checkedAt;
+    fixes.add('Removed invalid availability checks');
+  }
+
+  return song;
+};
+
+// Fix what can be fixed without guessing at the user's intent: fill in
+// missing dates and names, normalise durations, drop entries that aren't
+// songs and remove duplicate songs (keeping the first). Returns null when
+// there is nothing playlist-like to work with.
+export const repairPlaylist = (
+  data: unknown,
+  fallbackName: string,
+  fallbackDate: string = new Date().toISOString()
+): { playlist: Playlist; fixes: string[] } | null => {
+  if (!isObject(data)) return null;
+
+  const fixes = new Set<string>();
+
+  let name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) {
+    name = fallbackName;
+    fixes.add('Named the playlist after its file');
+  }
+
+  let rawSongs: unknown[] = [];
+  if (Array.isArray(data.songs)) {
+    rawSongs = data.songs;
+  } else {
+    fixes.add('Added a missing song list');
+  }
+
+  const seen = new Set<string>();
+  const songs: Song[] = [];
+  let duplicates = 0;
+  for (const raw of rawSongs) {
+    const song = repairSong(raw, fixes);
+    if (!song) continue;
+
+    const key = songKey(song);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    songs.push(song);
+  }
+  if (duplicates > 0) {
+    fixes.add(`Removed ${duplicates} duplicate ${duplicates === 1 ? 'song' : 'songs'}`);
+  }
+
+  const created = isDate(data.created) ? data.created as string : fallbackDate;
+  const modified = isDate(data.modified) ? data.modified as string : created;
+  if (!isDate(data.created)) fixes.add('Added a missing creation date');
+  if (!isDate(data.modified)) fixes.add('Added a missing modification date');
+
+  const playlist = {
+    ...data,
+    id: typeof data.id === 'string' ? data.id : '',
+    name,
+    songs,
+    created,
+    modified,
+    schemaVersion: PLAYLIST_SCHEMA_VERSION,
+  } as Playlist;
+
+  if (data.folder !== undefined && typeof data.folder !== 'string') {
+    delete playlist.folder;
+    fixes.add('Removed an invalid folder');
+  }
+  if (data.tags !== undefined && !isStringArray(data.tags)) {
+    const tags = Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    if (tags.length > 0) {
+      playlist.tags = tags;
+    } else {
+      delete playlist.tags;
+    }
+    fixes.add('Removed invalid tags');
+  }
+  if (data.pinned !== undefined && typeof data.pinned !== 'boolean') {
+    playlist.pinned = data.pinned === 'true';
+    fixes.add('Fixed the pinned setting');
+  }
+  if (data.cover !== undefined && typeof data.cover !== 'string') {
+    delete playlist.cover;
+    fixes.add('Removed an invalid cover image');
+  }
+
+  if (data.smart !== undefined) {
+    const smart = data.smart;
+    if (isObject(smart) && Array.isArray(smart.rules)) {
+      playlist.smart = {
+        match: smart.match === 'any' ? 'any' : 'all',
+        rules: smart.rules as SmartPlaylistDefinition['rules'],
+        sort: SMART_SORTS.includes(smart.sort as string) ? smart.sort as SmartPlaylistDefinition['sort'] : undefined,
+        limit: typeof smart.limit === 'number' ? smart.limit : undefined,
+      };
+      if (smart.match !== playlist.smart.match || smart.sort !== playlist.smart.sort) {
+        fixes.add('Fixed smart playlist settings');
+      }
+    } else {
+      delete playlist.smart;
+      fixes.add('Turned a smart playlist with unreadable rules into a regular playlist');
+    }
+  }
+
+  return { playlist, fixes: [...fixes] };
+};
@@ -0,0 +1,247 @@
+import { createElement } from './dom';
+import { showToast } from './dialogs';
+import type { Playlist, SmartPlaylistDefinition, SmartRule } from './types';
+
+export interface SmartPlaylistEditorResult {
+  name: string;
+  definition: SmartPlaylistDefinition;
+}
+
+type RuleField = SmartRule['field'];
+
+const FIELD_OPTIONS: { value: RuleField; label: string }[] = [
+  { value: 'artist', label: 'Artist' },
+  { value: 'title', label: 'Title' },
+  { value: 'album', label: 'Album' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'addedAt', label: 'Date added' },
+  { value: 'playlist', label: 'Playlist' },
+  { value: 'plays', label: 'Play count' },
+  { value: 'lastPlayed', label: 'Last played' },
+];
+
+const OPERATOR_OPTIONS: Record<RuleField, { value: string; label: string }[]> = {
+  artist: [
+    { value: 'is', label: 'is' },
+    { value: 'is-not', label: 'is not' },
+    { value: 'contains', label: 'contains' },
+    { value: 'not-contains', label: 'does not contain' },
+  ],
+  title: [],
+  album: [],
+  duration: [
+    { value: 'under', label: 'is under' },
+    { value: 'over', label: 'is over' },
+  ],
+  addedAt: [
+    { value: 'within-days', label: 'in the last (days)' },
+    { value: 'older-than-days', label: 'more than (days) ago' },
+  ],
+  playlist: [
+    { value: 'in', label: 'includes the song' },
+    { value: 'not-in', label: 'does not include the song' },
+  ],
+  plays: [
+    { value: 'at-least', label: 'is at least' },
+    { value: 'fewer-than', label: 'is fewer than' },
+  ],
+  lastPlayed: [
+    { value: 'within-days', label: 'in the last (days)' },
+    { value: 'not-within-days', label: 'not in the last (days)' },
+  ],
+};
+OPERATOR_OPTIONS.title = OPERATOR_OPTIONS.artist;
+OPERATOR_OPTIONS.album = OPERATOR_OPTIONS.artist;
+
+const defaultRule = (field: RuleField, playlists: Playlist[]): SmartRule => {
+  switch (field) {
+    case 'duration':
+      return { field, operator: 'under', value: 240 };
+    case 'addedAt':
+      return { field, operator: 'within-days', value: 30 };
+    case 'playlist':
+      return { field, operator: 'in', value: playlists[0]?.id ?? '' };
+    case 'plays':
+      return { field, operator: 'at-least', value: 5 };
+    case 'lastPlayed':
+      return { field, operator: 'not-within-days', value: 90 };
+    default:
+      return { field, operator: 'contains', value: '' };
+  }
+};
+
+// "4:00" -> 240, plain numbers are taken as seconds
+const parseDurationInput = (value: string): number => {
+  if (value.includes(':')) {
+    const [minutes, seconds] = value.split(':').map(part => parseInt(part, 10) || 0);
+    return minutes * 60 + seconds;
+  }
+  return parseInt(value, 10) || 0;
+};
+
+const formatDurationInput = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Create or edit the rules of a smart playlist. Resolves with null when
+// cancelled.
+export const showSmartPlaylistEditor = (
+  playlists: Playlist[],
+  existing?: Playlist
+): Promise<SmartPlaylistEditorResult | null> =>
+  new Promise(resolve => {
+    // Smart playlists can't reference each other, that could loop
+    const sources = playlists.filter(p => !p.smart);
+    const definition: SmartPlaylistDefinition = existing?.smart
+      ? { ...existing.smart, rules: existing.smart.rules.map(rule => ({ ...rule })) }
+      : { match: 'all', rules: [defaultRule('artist', sources)], sort: 'added' };
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog smart-editor-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', existing ? 'Edit smart playlist' : 'New smart playlist');
+
+    dialog.append(createElement('h2', undefined, existing ? 'Edit smart playlist' : 'New smart playlist'));
+
+    const nameInput = createElement('input', 'smart-editor-name');
+    nameInput.type = 'text';
+    nameInput.placeholder = 'Playlist name';
+    nameInput.value = existing?.name ?? '';
+
+    const matchSelect = createElement('select');
+    matchSelect.append(new Option('all rules', 'all'), new Option('any rule', 'any'));
+    matchSelect.value = definition.match;
+    matchSelect.addEventListener('change', () => {
+      definition.match = matchSelect.value as SmartPlaylistDefinition['match'];
+    });
+
+    const matchRow = createElement('div', 'smart-editor-row');
+    matchRow.append(createElement('span', undefined, 'Include songs matching'), matchSelect);
+
+    const rulesList = createElement('div', 'smart-editor-rules');
+
+    const renderRules = () => {
+      rulesList.replaceChildren();
+
+      definition.rules.forEach((rule, index) => {
+        const row = createElement('div', 'smart-editor-rule');
+
+        const fieldSelect = createElement('select');
+        FIELD_OPTIONS.forEach(option => fieldSelect.append(new Option(option.label, option.value)));
+        fieldSelect.value = rule.field;
+        fieldSelect.addEventListener('change', () => {
+          definition.rules[index] = defaultRule(fieldSelect.value as RuleField, sources);
+          renderRules();
+        });
+
+        const operatorSelect = createElement('select');
+        OPERATOR_OPTIONS[rule.field].forEach(option => operatorSelect.append(new Option(option.label, option.value)));
+        operatorSelect.value = rule.operator;
+        operatorSelect.addEventListener('change', () => {
+          (rule as { operator: string }).operator = operatorSelect.value;
+        });
+
+        let valueInput: HTMLInputElement | HTMLSelectElement;
+        if (rule.field === 'playlist') {
+          const select = createElement('select');
+          sources.forEach(p => select.append(new Option(p.name, p.id)));
+          select.value = rule.value;
+          select.addEventListener('change', () => {
+            rule.value = select.value;
+          });
+          valueInput = select;
+        } else {
+          const input = createElement('input');
+          input.type = 'text';
+          if (rule.field === 'duration') {
+            input.placeholder = 'm:ss';
+            input.value = formatDurationInput(rule.value);
+            input.addEventListener('input', () => {
+              rule.value = parseDurationInput(input.value);
+            });
+          } else if (rule.field === 'addedAt' || rule.field === 'plays' || rule.field === 'lastPlayed') {
+            input.inputMode = 'numeric';
+            input.value = String(rule.value);
+            input.addEventListener('input', () => {
+              rule.value = parseInt(input.value, 10) || 0;
+            });
+          } else {
+            input.value = rule.value;
+            input.addEventListener('input', () => {
+              rule.value = input.value;
+            });
+          }
+          valueInput = input;
+        }
+
+        const removeBtn = createElement('button', 'action-btn smart-editor-remove', '✕');
+        removeBtn.title = 'Remove rule';
+        removeBtn.addEventListener('click', () => {
+          definition.rules.splice(index, 1);
+          renderRules();
+        });
+
+        row.append(fieldSelect, operatorSelect, valueInput, removeBtn);
+        rulesList.append(row);
+      });
+    };
+
+    const addRuleBtn = createElement('button', 'action-btn', '+ Add rule');
+    addRuleBtn.addEventListener('click', () => {
+      definition.rules.push(defaultRule('artist', sources));
+      renderRules();
+    });
+
+    const sortSelect = createElement('select');
+    sortSelect.append(
+      new Option('Recently added', 'added'),
+      new Option('Title', 'title'),
+      new Option('Artist', 'artist'),
+      new Option('Random', 'random')
+    );
+    sortSelect.value = definition.sort ?? 'added';
+    sortSelect.addEventListener('change', () => {
+      definition.sort = sortSelect.value as SmartPlaylistDefinition['sort'];
+    });
+
+    const limitInput = createElement('input');
+    limitInput.type = 'text';
+    limitInput.inputMode = 'numeric';
+    limitInput.placeholder = 'No limit';
+    limitInput.value = definition.limit ? String(definition.limit) : '';
+    limitInput.addEventListener('input', () => {
+      definition.limit = parseInt(limitInput.value, 10) || undefined;
+    });
+
+    const optionsRow = createElement('div', 'smart-editor-row');
+    optionsRow.append(createElement('span', undefined, 'Sort by'), sortSelect, createElement('span', undefined, 'Limit'), limitInput);
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const cancelBtn = createElement('button', 'action-btn', 'Cancel');
+    const saveBtn = createElement('button', 'action-btn primary', 'Save');
+    actions.append(cancelBtn, saveBtn);
+
+    dialog.append(nameInput, matchRow, rulesList, addRuleBtn, optionsRow, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+    renderRules();
+    nameInput.focus();
+
+    const close = (result: SmartPlaylistEditorResult | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    cancelBtn.addEventListener('click', () => close(null));
+    saveBtn.addEventListener('click', () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        showToast('Enter a name for the smart playlist', { type: 'error' });
+        nameInput.focus();
+        return;
+      }
+      // Drop rules that can't match anything meaningful
+      definition.rules = definition.rules.filter(rule =>
+        rule.field === 'playlist' ? !!rule.value : typeof rule.value === 'number' || rule.value.trim() !== '');
+      close({ name, definition });
+    });
+  });
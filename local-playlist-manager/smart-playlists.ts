@@ -0,0 +1,157 @@
+import type { SongPlayStats } from './history';
+import type { Playlist, SmartPlaylistDefinition, SmartRule, Song } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LibrarySong {
+  song: Song;
+  playlistIds: Set<string>;
+  addedAt: number;
+}
+
+// Same track in several playlists counts once. Songs without a video ID are
+// matched on artist and title instead.
+export const songKey = (song: Song): string =>
+  song.videoId || `${song.artist.trim().toLowerCase()}\u0000${song.title.trim().toLowerCase()}`;
+
+const buildLibrary = (playlists: Playlist[]): LibrarySong[] => {
+  const library = new Map<string, LibrarySong>();
+
+  for (const playlist of playlists) {
+    if (playlist.smart) continue;
+
+    for (const song of playlist.songs ?? []) {
+      const key = songKey(song);
+      const addedAt = Date.parse(song.addedAt || playlist.created) || 0;
+      const entry = library.get(key);
+
+      if (entry) {
+        entry.playlistIds.add(playlist.id);
+        entry.addedAt = Math.min(entry.addedAt, addedAt);
+      } else {
+        library.set(key, { song, playlistIds: new Set([playlist.id]), addedAt });
+      }
+    }
+  }
+
+  return [...library.values()];
+};
+
+// Play counts by video ID, from the listening history
+export type PlayStats = Record<string, SongPlayStats>;
+
+const matchesRule = (entry: LibrarySong, rule: SmartRule, now: number, playStats: PlayStats): boolean => {
+  switch (rule.field) {
+    case 'title':
+    case 'artist':
+    case 'album': {
+      const actual = (entry.song[rule.field] || '').toLowerCase();
+      const expected = rule.value.trim().toLowerCase();
+      if (rule.operator === 'is') return actual === expected;
+      if (rule.operator === 'is-not') return actual !== expected;
+      if (rule.operator === 'contains') return actual.includes(expected);
+      return !actual.includes(expected);
+    }
+    case 'duration': {
+      const seconds = parseInt(entry.song.duration || '', 10);
+      if (isNaN(seconds)) return false;
+      return rule.operator === 'under' ? seconds < rule.value : seconds > rule.value;
+    }
+    case 'addedAt': {
+      const cutoff = now - rule.value * DAY_MS;
+      return rule.operator === 'within-days' ? entry.addedAt >= cutoff : entry.addedAt < cutoff;
+    }
+    case 'playlist':
+      return rule.operator === 'in' ? entry.playlistIds.has(rule.value) : !entry.playlistIds.has(rule.value);
+    case 'plays': {
+      const plays = playStats[entry.song.videoId]?.plays ?? 0;
+      return rule.operator === 'at-least' ? plays >= rule.value : plays < rule.value;
+    }
+    case 'lastPlayed': {
+      const lastPlayed = Date.parse(playStats[entry.song.videoId]?.lastPlayed ?? '') || 0;
+      const recent = lastPlayed >= now - rule.value * DAY_MS;
+      return rule.operator === 'within-days' ? recent : !recent;
+    }
+    default:
+      return false;
+  }
+};
+
+const sortEntries = (entries: LibrarySong[], sort: SmartPlaylistDefinition['sort']) => {
+  if (sort === 'title' || sort === 'artist') {
+    return [...entries].sort((a, b) => a.song[sort].localeCompare(b.song[sort]));
+  }
+  if (sort === 'random') {
+    const result = [...entries];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+  // Newest first
+  return [...entries].sort((a, b) => b.addedAt - a.addedAt);
+};
+
+export const evaluateSmartPlaylist = (
+  definition: SmartPlaylistDefinition,
+  playlists: Playlist[],
+  now: number = Date.now(),
+  playStats: PlayStats = {}
+): Song[] => {
+  const rules = definition.rules ?? [];
+  const matches = buildLibrary(playlists).filter(entry => {
+    if (rules.length === 0) return true;
+    return definition.match === 'any'
+      ? rules.some(rule => matchesRule(entry, rule, now, playStats))
+      : rules.every(rule => matchesRule(entry, rule, now, playStats));
+  });
+
+  const sorted = sortEntries(matches, definition.sort);
+  const limited = definition.limit && definition.limit > 0 ? sorted.slice(0, definition.limit) : sorted;
+  return limited.map(entry => entry.song);
+};
+
+// Reading the history means reading the whole file, only worth it when a
+// rule asks for it
+export const usesPlayHistory = (playlists: Playlist[]): boolean =>
+  playlists.some(playlist => playlist.smart?.rules?.some(rule => rule.field === 'plays' || rule.field === 'lastPlayed'));
+
+// Fill in the songs of every smart playlist in a freshly loaded list
+export const evaluateSmartPlaylists = (playlists: Playlist[], playStats: PlayStats = {}): Playlist[] =>
+  playlists.map(playlist => playlist.smart
+    ? { ...playlist, songs: evaluateSmartPlaylist(playlist.smart, playlists, Date.now(), playStats) }
+    : playlist);
+
+const TEXT_OPERATOR_LABELS = {
+  'is': 'is',
+  'is-not': 'is not',
+  'contains': 'contains',
+  'not-contains': 'does not contain',
+};
+
+export const describeRule = (rule: SmartRule, playlists: Playlist[] = []): string => {
+  switch (rule.field) {
+    case 'duration': {
+      const minutes = Math.floor(rule.value / 60);
+      const seconds = String(rule.value % 60).padStart(2, '0');
+      return `Duration ${rule.operator} ${minutes}:${seconds}`;
+    }
+    case 'addedAt':
+      return rule.operator === 'within-days'
+        ? `Added in the last ${rule.value} days`
+        : `Added more than ${rule.value} days ago`;
+    case 'playlist': {
+      const name = playlists.find(p => p.id === rule.value)?.name ?? 'a deleted playlist';
+      return `${rule.operator === 'in' ? 'In' : 'Not in'} "${name}"`;
+    }
+    case 'plays':
+      return `Played ${rule.operator === 'at-least' ? 'at least' : 'fewer than'} ${rule.value} ${rule.value === 1 ? 'time' : 'times'}`;
+    case 'lastPlayed':
+      return `${rule.operator === 'within-days' ? 'Played' : 'Not played'} in the last ${rule.value} days`;
+    default: {
+      const field = rule.field[0].toUpperCase() + rule.field.slice(1);
+      return `${field} ${TEXT_OPERATOR_LABELS[rule.operator]} "${rule.value}"`;
+    }
+  }
+};
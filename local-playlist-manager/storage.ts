@@ -0,0 +1,610 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { writeFileAtomic } from './backups';
+import type { BackupStore } from './backups';
+import { PLAYLIST_SCHEMA_VERSION, repairPlaylist, validatePlaylist } from './schema';
+import { conflictOriginalFile, isConflictCopy } from './sync-conflicts';
+import { folderName, isInFolder, normalizeFolder, normalizeTags } from './library-folders';
+import type { Playlist } from './types';
+
+export interface StoreResult {
+  success: boolean;
+  message: string;
+  playlist?: Playlist;
+  // The playlist as it is on disk, when it changed since the caller loaded it
+  conflict?: Playlist;
+}
+
+export interface QuarantinedFile {
+  file: string;
+  errors: string[];
+  quarantinedAt: string;
+}
+
+export interface PlaylistIssues {
+  id: string;
+  name: string;
+  warnings: string[];
+}
+
+export interface SyncConflict {
+  file: string;
+  // The playlist the copy conflicts with, when it's still in the library
+  originalId?: string;
+  originalName?: string;
+  name: string;
+  songCount: number;
+  modified: string;
+  errors: string[];
+}
+
+export type SyncConflictResolution = 'keep-both' | 'use-copy' | 'discard';
+
+// Where a playlist is shown in the library. Fields left out stay as they are.
+export interface PlaylistOrganization {
+  folder?: string;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+export interface PlaylistStoreOptions {
+  backups?: BackupStore;
+  // Called with the playlist id after every write or delete
+  onWrite?: (id: string) => void;
+}
+
+export const ID_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.json$/i;
+
+export const generatePlaylistId = (): string => randomUUID();
+
+// Ids come from the renderer and from files, and end up in file paths
+export const isPlaylistId = (id: unknown): id is string =>
+  typeof id === 'string' && ID_FILE_PATTERN.test(`${id}.json`);
+
+const QUARANTINE_DIR = '.quarantine';
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Conflict copies left by sync clients are handled separately, loading them
+// as playlists would silently duplicate the original
+const isPlaylistFile = (file: string) => file.endsWith('.json') && !isConflictCopy(file);
+
+// Playlists are stored as <id>.json so renames never move files and names
+// with punctuation or non-Latin characters can't collide on disk. With a
+// backup store, every overwrite keeps the previous version and deletes go to
+// the trash.
+export const createPlaylistStore = (playlistsDir: string, options: PlaylistStoreOptions = {}) => {
+  const { backups, onWrite } = options;
+
+  const filePathFor = (id: string) => path.join(playlistsDir, `${id}.json`);
+  const quarantineDir = path.join(playlistsDir, QUARANTINE_DIR);
+
+  const parseFile = (filePath: string): { data?: unknown; errors: string[] } => {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return { data, errors: validatePlaylist(data).errors };
+    } catch (error) {
+      return { errors: [`Not valid JSON: ${error.message}`] };
+    }
+  };
+
+  // Only files that pass validation are handed out as playlists, so one
+  // broken file can't take the rest of the library (or the renderer) down
+  const readFile = (file: string): Playlist | null => {
+    const { data, errors } = parseFile(path.join(playlistsDir, file));
+    if (errors.length > 0) {
+      console.error(`Error reading playlist file ${file}: ${errors.join('; ')}`);
+      return null;
+    }
+    return data as Playlist;
+  };
+
+  // Smart playlist songs are computed on load, only their rules are stored
+  const writePlaylist = (playlist: Playlist, keepVersion = true) => {
+    const { source, ...stored } = playlist;
+    const data = { ...stored, songs: playlist.smart ? [] : playlist.songs, schemaVersion: PLAYLIST_SCHEMA_VERSION };
+    if (keepVersion) {
+      backups?.snapshot(playlist.id, filePathFor(playlist.id));
+    }
+    writeFileAtomic(filePathFor(playlist.id), JSON.stringify(data, null, 2));
+    onWrite?.(playlist.id);
+  };
+
+  const list = (): Playlist[] => {
+    const playlists: Playlist[] = [];
+
+    for (const file of fs.readdirSync(playlistsDir)) {
+      if (!isPlaylistFile(file)) continue;
+      const playlist = readFile(file);
+      if (playlist) {
+        playlists.push(playlist);
+      }
+    }
+
+    return playlists;
+  };
+
+  const get = (id: string): Playlist | null => {
+    if (!isPlaylistId(id) || !fs.existsSync(filePathFor(id))) return null;
+    return readFile(`${id}.json`);
+  };
+
+  const findByName = (name: string, excludeId?: string): Playlist | undefined => {
+    const wanted = normalizeName(name);
+    return list().find(p => p.id !== excludeId && normalizeName(p.name) === wanted);
+  };
+
+  // "Rock" -> "Rock (2)" -> "Rock (3)" ...
+  const uniqueName = (name: string): string => {
+    const taken = new Set(list().map(p => normalizeName(p.name)));
+    if (!taken.has(normalizeName(name))) return name;
+
+    let counter = 2;
+    while (taken.has(normalizeName(`${name} (${counter})`))) {
+      counter++;
+    }
+    return `${name} (${counter})`;
+  };
+
+  // The caller's copy carries the modified time it was loaded with. If the
+  // file has been written since (by hand, a sync tool or another instance),
+  // saving would silently drop those changes, so report a conflict instead
+  // unless the caller forces it.
+  const save = (playlist: Playlist, force = false): StoreResult => {
+    const name = playlist.name?.trim();
+    if (!name) {
+      return { success: false, message: 'Playlist name cannot be empty' };
+    }
+
+    const { errors } = validatePlaylist({ ...playlist, name });
+    if (errors.length > 0) {
+      return { success: false, message: `Invalid playlist: ${errors.slice(0, 3).join('; ')}` };
+    }
+    if (playlist.id && !isPlaylistId(playlist.id)) {
+      return { success: false, message: 'Invalid playlist id' };
+    }
+
+    const onDisk = playlist.id && !force ? get(playlist.id) : null;
+    if (onDisk && playlist.modified && onDisk.modified !== playlist.modified) {
+      return {
+        success: false,
+        message: `Playlist "${onDisk.name}" was changed outside the app`,
+        conflict: onDisk,
+      };
+    }
+
+    const existing = findByName(name, playlist.id);
+    if (existing) {
+      return { success: false, message: `A playlist named "${existing.name}" already exists` };
+    }
+
+    playlist.name = name;
+    playlist.id = playlist.id || generatePlaylistId();
+    playlist.modified = new Date().toISOString();
+    if (!playlist.created) {
+      playlist.created = playlist.modified;
+    }
+
+    writePlaylist(playlist);
+    return { success: true, message: 'Playlist saved successfully', playlist };
+  };
+
+  // Imports never fail on a name clash, the incoming playlist is renamed instead
+  const importPlaylist = (playlist: Playlist): StoreResult => {
+    const originalName = playlist.name?.trim() || 'Imported Playlist';
+    playlist.id = generatePlaylistId();
+    playlist.name = uniqueName(originalName);
+
+    const now = new Date().toISOString();
+    playlist.songs = playlist.songs.map(song => ({ ...song, addedAt: song.addedAt || now }));
+
+    const result = save(playlist);
+    if (!result.success) return result;
+
+    const renamed = playlist.name !== originalName ? ` as "${playlist.name}"` : '';
+    return {
+      success: true,
+      message: `Playlist "${originalName}" imported${renamed} with ${playlist.songs.length} songs`,
+      playlist,
+    };
+  };
+
+  const rename = (id: string, newName: string): StoreResult => {
+    const playlist = get(id);
+    if (!playlist) {
+      return { success: false, message: 'Playlist not found' };
+    }
+
+    const result = save({ ...playlist, name: newName });
+    if (!result.success) return result;
+    return { ...result, message: `Playlist renamed to "${result.playlist!.name}"` };
+  };
+
+  const organize = (id: string, changes: PlaylistOrganization): StoreResult => {
+    const playlist = get(id);
+    if (!playlist) {
+      return { success: false, message: 'Playlist not found' };
+    }
+
+    // Empty values are left out of the file rather than stored
+    const updated: Playlist = { ...playlist };
+    if (changes.folder !== undefined) {
+      updated.folder = normalizeFolder(changes.folder);
+      if (!updated.folder) delete updated.folder;
+    }
+    if (changes.tags !== undefined) {
+      updated.tags = normalizeTags(changes.tags);
+      if (updated.tags.length === 0) delete updated.tags;
+    }
+    if (changes.pinned !== undefined) {
+      updated.pinned = changes.pinned;
+      if (!updated.pinned) delete updated.pinned;
+    }
+
+    const result = save(updated);
+    if (!result.success) return result;
+
+    let message = `Playlist "${playlist.name}" updated`;
+    if (changes.folder !== undefined && updated.folder !== playlist.folder) {
+      message = updated.folder ? `Moved "${playlist.name}" to ${updated.folder}` : `Moved "${playlist.name}" out of its folder`;
+    } else if (changes.pinned !== undefined && !!updated.pinned !== !!playlist.pinned) {
+      message = updated.pinned ? `Pinned "${playlist.name}"` : `Unpinned "${playlist.name}"`;
+    }
+    return { ...result, message };
+  };
+
+  // Set or clear (with undefined) the custom cover image file
+  const setCover = (id: string, cover: string | undefined): StoreResult => {
+    const playlist = get(id);
+    if (!playlist) {
+      return { success: false, message: 'Playlist not found' };
+    }
+
+    const updated: Playlist = { ...playlist, cover };
+    if (!cover) delete updated.cover;
+
+    const result = save(updated);
+    if (!result.success) return result;
+    return { ...result, message: cover ? `Cover of "${playlist.name}" updated` : `Cover of "${playlist.name}" removed` };
+  };
+
+  // Rename or move a folder along with everything nested in it. Moving to
+  // the parent folder is how a folder is removed without losing playlists.
+  const moveFolder = (from: string, to: string): StoreResult => {
+    const source = normalizeFolder(from);
+    const target = normalizeFolder(to);
+    if (!source) {
+      return { success: false, message: 'No folder given' };
+    }
+    if (target === source) {
+      return { success: true, message: 'Folder not changed' };
+    }
+    if (isInFolder(target, source)) {
+      return { success: false, message: 'A folder cannot be moved into itself' };
+    }
+
+    const affected = list().filter(playlist => isInFolder(playlist.folder, source));
+    for (const playlist of affected) {
+      const nested = normalizeFolder(playlist.folder).slice(source.length);
+      const result = organize(playlist.id, { folder: `${target}${nested}` });
+      if (!result.success) return result;
+    }
+
+    return {
+      success: true,
+      message: target
+        ? `Moved folder "${folderName(source)}" to ${target}`
+        : `Removed folder "${folderName(source)}", its playlists are now at the top of the library`,
+    };
+  };
+
+  const remove = (id: string): StoreResult => {
+    if (!isPlaylistId(id) || !fs.existsSync(filePathFor(id))) {
+      return { success: false, message: 'Playlist not found' };
+    }
+    const filePath = filePathFor(id);
+
+    const playlist = get(id);
+    if (backups && playlist) {
+      backups.moveToTrash(playlist);
+    }
+
+    fs.unlinkSync(filePath);
+    onWrite?.(id);
+    return {
+      success: true,
+      message: backups ? 'Playlist moved to trash' : 'Playlist deleted successfully',
+    };
+  };
+
+  // Saving the old version over the current one keeps the current one in
+  // history too, so a restore can itself be undone
+  const restoreVersion = (id: string, versionId: string): StoreResult => {
+    const current = get(id);
+    const version = backups?.getVersion(id, versionId);
+    if (!current || !version) {
+      return { success: false, message: 'Version not found' };
+    }
+
+    const name = findByName(version.name, id) ? uniqueName(version.name) : version.name;
+    const result = save({ ...version, id, name, created: current.created }, true);
+    if (!result.success) return result;
+    return { ...result, message: `Playlist "${result.playlist!.name}" restored` };
+  };
+
+  const restoreFromTrash = (id: string): StoreResult => {
+    if (!isPlaylistId(id)) {
+      return { success: false, message: 'Playlist not found in trash' };
+    }
+    if (fs.existsSync(filePathFor(id))) {
+      return { success: false, message: 'A playlist with this id already exists' };
+    }
+
+    const playlist = backups?.takeFromTrash(id);
+    if (!playlist) {
+      return { success: false, message: 'Playlist not found in trash' };
+    }
+
+    const originalName = playlist.name;
+    playlist.name = uniqueName(originalName);
+    const result = save(playlist);
+    if (!result.success) return result;
+
+    const renamed = playlist.name !== originalName ? ` as "${playlist.name}"` : '';
+    return { ...result, message: `Playlist "${originalName}" restored${renamed}` };
+  };
+
+  // Older versions stored playlists as <sanitized name>.json without an id.
+  // Give each of those an id and move it to <id>.json; name clashes between
+  // migrated files are resolved the same way as imports.
+  const migrate = () => {
+    let migrated = 0;
+
+    for (const file of fs.readdirSync(playlistsDir)) {
+      if (!isPlaylistFile(file)) continue;
+
+      const playlist = readFile(file);
+      if (!playlist) continue;
+      if (isPlaylistId(playlist.id) && file === `${playlist.id}.json`) continue;
+
+      // Hand-written ids that aren't UUIDs are replaced too
+      playlist.id = isPlaylistId(playlist.id) ? playlist.id : generatePlaylistId();
+      if (fs.existsSync(filePathFor(playlist.id))) {
+        playlist.id = generatePlaylistId();
+      }
+
+      writePlaylist(playlist, false);
+      fs.unlinkSync(path.join(playlistsDir, file));
+
+      if (findByName(playlist.name, playlist.id)) {
+        playlist.name = uniqueName(playlist.name);
+        writePlaylist(playlist, false);
+      }
+      migrated++;
+    }
+
+    if (migrated > 0) {
+      console.log(`Local Playlists: Migrated ${migrated} playlist files to id-based storage`);
+    }
+  };
+
+  // Move files that can't be loaded out of the library, where the user can
+  // repair or delete them. Returns how many were moved.
+  const quarantineInvalid = (): number => {
+    let moved = 0;
+
+    for (const file of fs.readdirSync(playlistsDir)) {
+      if (!isPlaylistFile(file)) continue;
+      if (parseFile(path.join(playlistsDir, file)).errors.length === 0) continue;
+
+      fs.mkdirSync(quarantineDir, { recursive: true });
+      const target = fs.existsSync(path.join(quarantineDir, file)) ? `${Date.now()}-${file}` : file;
+      fs.renameSync(path.join(playlistsDir, file), path.join(quarantineDir, target));
+      moved++;
+    }
+
+    if (moved > 0) {
+      console.warn(`Local Playlists: Moved ${moved} unreadable playlist files to ${quarantineDir}`);
+    }
+    return moved;
+  };
+
+  const listQuarantine = (): QuarantinedFile[] => {
+    if (!fs.existsSync(quarantineDir)) return [];
+
+    return fs.readdirSync(quarantineDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => ({
+        file,
+        errors: parseFile(path.join(quarantineDir, file)).errors,
+        quarantinedAt: fs.statSync(path.join(quarantineDir, file)).mtime.toISOString(),
+      }));
+  };
+
+  const isSafeFileName = (file: string) => !!file && !/[\\/]|\.\./.test(file);
+
+  const quarantinedPath = (file: string) => isSafeFileName(file) ? path.join(quarantineDir, file) : null;
+
+  // Repair a quarantined file and move it back into the library
+  const repairQuarantined = (file: string): StoreResult => {
+    const filePath = quarantinedPath(file);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return { success: false, message: 'File not found' };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return { success: false, message: `${file} is not valid JSON and has to be fixed by hand` };
+    }
+
+    const repaired = repairPlaylist(data, path.basename(file, '.json'), fs.statSync(filePath).mtime.toISOString());
+    if (!repaired) {
+      return { success: false, message: `${file} does not contain a playlist` };
+    }
+
+    const { playlist, fixes } = repaired;
+    if (!isPlaylistId(playlist.id) || fs.existsSync(filePathFor(playlist.id))) {
+      playlist.id = generatePlaylistId();
+    }
+    playlist.name = uniqueName(playlist.name);
+
+    const result = save(playlist, true);
+    if (!result.success) return result;
+
+    fs.rmSync(filePath, { force: true });
+    return {
+      ...result,
+      message: `Restored "${playlist.name}"` + (fixes.length > 0 ? `: ${fixes.join('; ')}` : ''),
+    };
+  };
+
+  const deleteQuarantined = (file: string): StoreResult => {
+    const filePath = quarantinedPath(file);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return { success: false, message: 'File not found' };
+    }
+
+    fs.rmSync(filePath, { force: true });
+    return { success: true, message: `Deleted ${file}` };
+  };
+
+  // Playlists that load fine but have problems a repair would fix
+  const findIssues = (): PlaylistIssues[] =>
+    list()
+      .map(playlist => ({ id: playlist.id, name: playlist.name, warnings: validatePlaylist(playlist).warnings }))
+      .filter(issues => issues.warnings.length > 0);
+
+  const repair = (id: string): StoreResult => {
+    const playlist = get(id);
+    if (!playlist) {
+      return { success: false, message: 'Playlist not found' };
+    }
+
+    const repaired = repairPlaylist(playlist, playlist.name);
+    if (!repaired || repaired.fixes.length === 0) {
+      return { success: true, message: `Nothing to repair in "${playlist.name}"`, playlist };
+    }
+
+    const result = save({ ...repaired.playlist, id }, true);
+    if (!result.success) return result;
+    return { ...result, message: `Repaired "${playlist.name}": ${repaired.fixes.join('; ')}` };
+  };
+
+  // The playlist a conflict copy was made from: same id, the file it was
+  // named after, or (for old name-based files since migrated) the same name
+  const findConflictOriginal = (file: string, data: unknown): Playlist | null => {
+    const copy = data as Partial<Playlist> | undefined;
+    const originalFile = conflictOriginalFile(file)!;
+
+    return (typeof copy?.id === 'string' && get(copy.id))
+      || (fs.existsSync(path.join(playlistsDir, originalFile)) && readFile(originalFile))
+      || (typeof copy?.name === 'string' && findByName(copy.name))
+      || null;
+  };
+
+  const listSyncConflicts = (): SyncConflict[] =>
+    fs.readdirSync(playlistsDir)
+      .filter(isConflictCopy)
+      .map(file => {
+        const filePath = path.join(playlistsDir, file);
+        const { data, errors } = parseFile(filePath);
+        const copy = data as Partial<Playlist> | undefined;
+        const original = findConflictOriginal(file, data);
+
+        return {
+          file,
+          originalId: original?.id,
+          originalName: original?.name,
+          name: typeof copy?.name === 'string' ? copy.name : file,
+          songCount: Array.isArray(copy?.songs) ? copy.songs.length : 0,
+          modified: fs.statSync(filePath).mtime.toISOString(),
+          errors,
+        };
+      });
+
+  // Keep both as separate playlists, replace the original with the copy, or
+  // drop the copy. The side that loses stays in the original's version
+  // history, so nothing is lost either way.
+  const resolveSyncConflict = (file: string, resolution: SyncConflictResolution): StoreResult => {
+    const filePath = isSafeFileName(file) && isConflictCopy(file) ? path.join(playlistsDir, file) : null;
+    if (!filePath || !fs.existsSync(filePath)) {
+      return { success: false, message: 'File not found' };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      data = undefined;
+    }
+    const original = findConflictOriginal(file, data);
+
+    if (resolution === 'discard') {
+      if (original) {
+        backups?.snapshot(original.id, filePath);
+      }
+      fs.rmSync(filePath, { force: true });
+      return {
+        success: true,
+        message: original
+          ? `Discarded the conflicting copy of "${original.name}", it's kept in the version history`
+          : `Deleted ${file}`,
+      };
+    }
+
+    const repaired = repairPlaylist(data, path.basename(file, '.json'), fs.statSync(filePath).mtime.toISOString());
+    if (!repaired) {
+      return { success: false, message: `${file} is not a readable playlist` };
+    }
+
+    let result: StoreResult;
+    if (resolution === 'use-copy' && original) {
+      const name = findByName(repaired.playlist.name, original.id)
+        ? uniqueName(repaired.playlist.name)
+        : repaired.playlist.name;
+      result = save({ ...repaired.playlist, id: original.id, name, created: original.created }, true);
+      if (result.success) {
+        result = { ...result, message: `Replaced "${original.name}" with its conflicting copy` };
+      }
+    } else {
+      result = importPlaylist(repaired.playlist);
+      if (result.success && result.playlist) {
+        result = { ...result, message: `Kept the conflicting copy as "${result.playlist.name}"` };
+      }
+    }
+
+    if (result.success) {
+      fs.rmSync(filePath, { force: true });
+    }
+    return result;
+  };
+
+  return {
+    list,
+    get,
+    save,
+    importPlaylist,
+    rename,
+    organize,
+    setCover,
+    moveFolder,
+    remove,
+    restoreVersion,
+    restoreFromTrash,
+    migrate,
+    uniqueName,
+    quarantineInvalid,
+    listQuarantine,
+    repairQuarantined,
+    deleteQuarantined,
+    findIssues,
+    repair,
+    listSyncConflicts,
+    resolveSyncConflict,
+  };
+};
+
+export type PlaylistStore = ReturnType<typeof createPlaylistStore>;
@@ -0,0 +1,23 @@
+// File names sync clients give the losing side of a conflict, next to the
+// original file:
+//   Dropbox, Nextcloud, ownCloud  "abc (conflicted copy 2024-01-31).json",
+//                                 "abc (Jane's conflicted copy).json"
+//   Syncthing                     "abc.sync-conflict-20240131-101500-ABCDEFG.json"
+//   Resilio, pCloud and others    "abc (Conflict).json", "abc.conflict.json"
+const CONFLICT_PATTERNS = [
+  /^(.+?) \([^)]*conflicted copy[^)]*\)\.json$/i,
+  /^(.+?)\.sync-conflict-[^.]*\.json$/i,
+  /^(.+?) \(conflict[^)]*\)\.json$/i,
+  /^(.+?)\.conflict\.json$/i,
+];
+
+// The file a conflict copy belongs to, or null when it isn't one
+export const conflictOriginalFile = (file: string): string | null => {
+  for (const pattern of CONFLICT_PATTERNS) {
+    const match = file.match(pattern);
+    if (match) return `${match[1]}.json`;
+  }
+  return null;
+};
+
+export const isConflictCopy = (file: string) => conflictOriginalFile(file) !== null;
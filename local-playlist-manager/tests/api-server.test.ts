@@ -0,0 +1,310 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { createApiServer } from '../api-server';
+import type { ApiLibrary, ApiServer } from '../api-server';
+import { parsePlaylistContent } from '../converter';
+import type { ExportFormat } from '../formats/export';
+import { createReadOnlySource } from '../read-only-source';
+import { createPlaylistStore } from '../storage';
+import type { PlaylistStore } from '../storage';
+import type { Playlist } from '../types';
+
+const TOKEN = 'test-token';
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'm3u', 'm3u8', 'txt', 'pls', 'xspf'];
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  text: string;
+  // Parsed JSON, undefined for exports
+  body: unknown;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  token?: string | null;
+  host?: string;
+}
+
+let root: string;
+let libraryDir: string;
+let readOnlyDir: string;
+let store: PlaylistStore;
+let server: ApiServer;
+const played: { id: string; shuffle: boolean }[] = [];
+
+// The backend's library, minus the file watching
+const createTestLibrary = (): ApiLibrary => {
+  const readOnly = createReadOnlySource(readOnlyDir);
+  const all = () => [...store.list(), ...readOnly.list()];
+  return {
+    list: all,
+    get: id => all().find(playlist => playlist.id === id) ?? null,
+    isReadOnly: id => readOnly.list().some(playlist => playlist.id === id),
+    save: (playlist, force) => store.save(playlist, force),
+    remove: id => store.remove(id),
+    importContent: (content, format, fallbackName) => {
+      const parsed = parsePlaylistContent(content, format, fallbackName);
+      if ('needsMapping' in parsed) {
+        return { success: false, needsMapping: true, message: 'Could not tell the CSV columns apart' };
+      }
+      return store.importPlaylist(parsed.playlists[0]);
+    },
+    play: (playlist, shuffle) => played.push({ id: playlist.id, shuffle }),
+  };
+};
+
+const request = (method: string, urlPath: string, { body, token = TOKEN, host }: RequestOptions = {}): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body);
+    const req = http.request({
+      host: '127.0.0.1',
+      port: server.port(),
+      method,
+      path: urlPath,
+      headers: {
+        Host: host ?? `127.0.0.1:${server.port()}`,
+        ...(token !== null ? { Authorization: `Bearer ${token}` } : {}),
+        ...(payload !== undefined ? { 'Content-Length': Buffer.byteLength(payload) } : {}),
+      },
+    }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        const isJson = response.headers['content-type']?.startsWith('application/json');
+        resolve({ status: response.statusCode!, headers: response.headers, text, body: isJson ? JSON.parse(text) : undefined });
+      });
+    });
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+const playlistIn = (response: Response) => (response.body as { playlist: Playlist }).playlist;
+
+const playlistsIn = (response: Response) => response.body as Playlist[];
+
+const readFromDisk = (id: string): Playlist => JSON.parse(fs.readFileSync(path.join(libraryDir, `${id}.json`), 'utf-8'));
+
+const createOnServer = async (name: string) => {
+  const response = await request('POST', '/playlists', {
+    body: { name, songs: [{ videoId: 'dQw4w9WgXcQ', title: 'Never Gonna Give You Up', artist: 'Rick Astley', duration: '213' }] },
+  });
+  assert.equal(response.status, 201);
+  return playlistIn(response);
+};
+
+before(async () => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'local-playlists-api-'));
+  libraryDir = path.join(root, 'playlists');
+  readOnlyDir = path.join(root, 'shared');
+  fs.mkdirSync(libraryDir);
+  fs.mkdirSync(readOnlyDir);
+  fs.writeFileSync(path.join(readOnlyDir, 'Shared.json'), JSON.stringify({
+    name: 'Shared',
+    songs: [{ videoId: 'kXYiU_JCYtU', title: 'Numb', artist: 'Linkin Park' }],
+    created: '2024-01-01T00:00:00.000Z',
+    modified: '2024-01-01T00:00:00.000Z',
+  }));
+
+  store = createPlaylistStore(libraryDir);
+  server = createApiServer(createTestLibrary(), { port: 0, token: TOKEN, maxBodyBytes: 64 * 1024 });
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  for (const file of fs.readdirSync(libraryDir)) {
+    fs.rmSync(path.join(libraryDir, file), { recursive: true, force: true });
+  }
+  played.length = 0;
+});
+
+describe('access', () => {
+  it('rejects requests without a token', async () => {
+    const response = await request('GET', '/playlists', { token: null });
+    assert.equal(response.status, 401);
+    assert.equal(response.headers['www-authenticate'], 'Bearer');
+  });
+
+  it('rejects a wrong token', async () => {
+    assert.equal((await request('GET', '/playlists', { token: 'wrong-token' })).status, 401);
+    assert.equal((await request('GET', '/playlists', { token: `${TOKEN}x` })).status, 401);
+  });
+
+  it('rejects requests for another host', async () => {
+    const response = await request('GET', '/playlists', { host: `attacker.example:${server.port()}` });
+    assert.equal(response.status, 403);
+    assert.equal((await request('GET', '/openapi.json', { host: 'attacker.example', token: null })).status, 403);
+  });
+
+  it('accepts localhost as the host', async () => {
+    assert.equal((await request('GET', '/playlists', { host: `localhost:${server.port()}` })).status, 200);
+  });
+
+  it('serves the OpenAPI description without a token', async () => {
+    const response = await request('GET', '/openapi.json', { token: null });
+    assert.equal(response.status, 200);
+    const document = response.body as { servers: unknown[]; paths: Record<string, unknown> };
+    assert.deepEqual(document.servers, [{ url: `http://127.0.0.1:${server.port()}` }]);
+    assert.ok(document.paths['/playlists/{id}/export']);
+  });
+});
+
+describe('playlists', () => {
+  it('creates a playlist file', async () => {
+    const playlist = await createOnServer('Road Trip');
+    const onDisk = readFromDisk(playlist.id);
+    assert.equal(onDisk.name, 'Road Trip');
+    assert.equal(onDisk.songs[0].videoId, 'dQw4w9WgXcQ');
+    assert.ok(onDisk.songs[0].addedAt);
+  });
+
+  it('lists and gets what is on disk', async () => {
+    const playlist = await createOnServer('Road Trip');
+
+    const list = await request('GET', '/playlists');
+    assert.equal(list.status, 200);
+    assert.deepEqual(playlistsIn(list).map(p => p.name).sort(), ['Road Trip', 'Shared']);
+
+    const single = await request('GET', `/playlists/${playlist.id}`);
+    assert.equal(single.status, 200);
+    const fetched = single.body as Playlist;
+    assert.equal(fetched.name, 'Road Trip');
+    assert.equal(fetched.modified, readFromDisk(playlist.id).modified);
+
+    assert.equal((await request('GET', '/playlists/3f1c4a5e-0000-4000-8000-000000000000')).status, 404);
+  });
+
+  it('updates only the fields sent', async () => {
+    const playlist = await createOnServer('Road Trip');
+
+    const response = await request('PATCH', `/playlists/${playlist.id}`, { body: { name: 'Night Drive', tags: ['cars'] } });
+    assert.equal(response.status, 200);
+
+    const onDisk = readFromDisk(playlist.id);
+    assert.equal(onDisk.name, 'Night Drive');
+    assert.deepEqual(onDisk.tags, ['cars']);
+    assert.equal(onDisk.songs.length, 1);
+    assert.equal(onDisk.created, playlist.created);
+  });
+
+  it('reports a conflict when the file changed since it was read', async () => {
+    const playlist = await createOnServer('Road Trip');
+    store.save({ ...readFromDisk(playlist.id), name: 'Changed Elsewhere' }, true);
+
+    const response = await request('PATCH', `/playlists/${playlist.id}`, { body: { name: 'Night Drive', modified: playlist.modified } });
+    assert.equal(response.status, 409);
+    assert.equal(readFromDisk(playlist.id).name, 'Changed Elsewhere');
+  });
+
+  it('deletes the playlist file', async () => {
+    const playlist = await createOnServer('Road Trip');
+
+    assert.equal((await request('DELETE', `/playlists/${playlist.id}`)).status, 200);
+    assert.equal(fs.existsSync(path.join(libraryDir, `${playlist.id}.json`)), false);
+    assert.equal((await request('DELETE', `/playlists/${playlist.id}`)).status, 404);
+  });
+
+  it('refuses duplicate names', async () => {
+    await createOnServer('Road Trip');
+    const response = await request('POST', '/playlists', { body: { name: 'road trip', songs: [] } });
+    assert.equal(response.status, 400);
+    assert.equal(fs.readdirSync(libraryDir).length, 1);
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    assert.equal((await request('POST', '/playlists', { body: '{"name":' })).status, 400);
+  });
+
+  it('starts playback in the app', async () => {
+    const playlist = await createOnServer('Road Trip');
+    const response = await request('POST', `/playlists/${playlist.id}/play`, { body: { shuffle: true } });
+    assert.equal(response.status, 202);
+    assert.deepEqual(played, [{ id: playlist.id, shuffle: true }]);
+  });
+});
+
+describe('read-only playlists', () => {
+  const sharedId = async () => playlistsIn(await request('GET', '/playlists')).find(p => p.name === 'Shared')!.id;
+
+  it('can be read and exported', async () => {
+    const id = await sharedId();
+    assert.equal((await request('GET', `/playlists/${id}`)).status, 200);
+    assert.equal((await request('GET', `/playlists/${id}/export?format=m3u8`)).status, 200);
+  });
+
+  it('refuses updates and deletes', async () => {
+    const id = await sharedId();
+    assert.equal((await request('PATCH', `/playlists/${id}`, { body: { name: 'Mine Now' } })).status, 403);
+    assert.equal((await request('DELETE', `/playlists/${id}`)).status, 403);
+    assert.ok(fs.existsSync(path.join(readOnlyDir, 'Shared.json')));
+    assert.equal(fs.readdirSync(libraryDir).length, 0);
+  });
+});
+
+describe('import', () => {
+  it('imports the request body as a new playlist', async () => {
+    const m3u = '#EXTM3U\n#PLAYLIST:Imported Mix\n#EXTINF:187,Linkin Park - Numb\nhttps://music.youtube.com/watch?v=kXYiU_JCYtU\n';
+    const response = await request('POST', '/playlists/import?format=m3u', { body: m3u });
+    assert.equal(response.status, 201);
+
+    const onDisk = readFromDisk(playlistIn(response).id);
+    assert.equal(onDisk.name, 'Imported Mix');
+    assert.deepEqual(onDisk.songs.map(song => [song.videoId, song.artist, song.title]), [['kXYiU_JCYtU', 'Linkin Park', 'Numb']]);
+  });
+
+  it('names the playlist after the name parameter', async () => {
+    const response = await request('POST', '/playlists/import?format=txt&name=From%20Text', { body: 'Linkin Park - Numb\n' });
+    assert.equal(response.status, 201);
+    assert.equal(readFromDisk(playlistIn(response).id).name, 'From Text');
+  });
+
+  it('asks for a header when CSV columns are unclear', async () => {
+    const response = await request('POST', '/playlists/import?format=csv', { body: 'a,b\nc,d\n' });
+    assert.equal(response.status, 422);
+    assert.equal(fs.readdirSync(libraryDir).length, 0);
+  });
+
+  it('rejects unknown formats and broken files', async () => {
+    assert.equal((await request('POST', '/playlists/import?format=docx', { body: 'x' })).status, 400);
+    assert.equal((await request('POST', '/playlists/import?format=json', { body: '{' })).status, 400);
+  });
+
+  it('refuses bodies over the size limit', async () => {
+    const response = await request('POST', '/playlists/import?format=txt', { body: 'Linkin Park - Numb\n'.repeat(5000) });
+    assert.equal(response.status, 413);
+    assert.equal(fs.readdirSync(libraryDir).length, 0);
+  });
+});
+
+describe('export', () => {
+  for (const format of EXPORT_FORMATS) {
+    it(`exports ${format} that imports back`, async () => {
+      const playlist = await createOnServer('Road Trip');
+
+      const response = await request('GET', `/playlists/${playlist.id}/export?format=${format}`);
+      assert.equal(response.status, 200);
+      assert.match(response.headers['content-type']!, /charset=utf-8/);
+      assert.equal(response.headers['content-disposition'], `attachment; filename*=UTF-8''Road%20Trip.${format}`);
+
+      const parsed = parsePlaylistContent(response.text, format, 'Road Trip') as { playlists: Playlist[] };
+      const [song] = parsed.playlists[0].songs;
+      assert.equal(song.videoId, 'dQw4w9WgXcQ');
+      assert.equal(song.title, 'Never Gonna Give You Up');
+    });
+  }
+
+  it('rejects unknown formats', async () => {
+    const playlist = await createOnServer('Road Trip');
+    assert.equal((await request('GET', `/playlists/${playlist.id}/export?format=docx`)).status, 400);
+  });
+});
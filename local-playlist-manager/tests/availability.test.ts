@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyAvailability,
+  availabilityOf,
+  createAvailabilityChecker,
+  createFixtureLookup,
+  replaceVideo,
+} from '../availability';
+import type { AvailabilityLookup } from '../availability';
+import type { Playlist, Song } from '../types';
+
+const song = (videoId: string, title: string, artist: string = 'Linkin Park'): Song => ({ videoId, title, artist });
+
+const playlist: Playlist = {
+  id: '',
+  name: 'Checked',
+  songs: [
+    song('kXYiU_JCYtU', 'Numb'),
+    song('deleted0000', 'In the End'),
+    song('blocked0000', 'Faint'),
+    song('reused00000', 'Crawling'),
+    song('', 'Papercut'),
+    song('flaky000000', 'One Step Closer'),
+  ],
+  created: '2024-01-01T00:00:00.000Z',
+  modified: '2024-01-01T00:00:00.000Z',
+};
+
+const lookup = createFixtureLookup({
+  kXYiU_JCYtU: { playable: true, title: 'Numb (Official Music Video)', artist: 'Linkin Park' },
+  blocked0000: { playable: false, regionLocked: true, reason: 'The uploader has not made this video available in your country' },
+  reused00000: { playable: true, title: 'Top 10 Kitchen Gadgets', artist: 'Some Channel' },
+});
+
+// The fixture lookup, except that one video's lookup fails outright
+const flakyLookup: AvailabilityLookup = {
+  async lookup(videoId: string) {
+    if (videoId === 'flaky000000') throw new Error('Network error');
+    return lookup.lookup(videoId);
+  },
+};
+
+describe('availabilityOf', () => {
+  it('tells unavailable, region-locked, changed and available videos apart', () => {
+    const numb = song('kXYiU_JCYtU', 'Numb');
+    assert.equal(availabilityOf(numb, { playable: false }), 'unavailable');
+    assert.equal(availabilityOf(numb, { playable: false, regionLocked: true }), 'region-locked');
+    assert.equal(availabilityOf(numb, { playable: true, title: 'Cooking with Gas' }), 'changed');
+    assert.equal(availabilityOf(numb, { playable: true, title: 'Numb [Remastered 2023]' }), 'available');
+    assert.equal(availabilityOf(numb, { playable: true }), 'available');
+  });
+});
+
+describe('checkPlaylist', () => {
+  it('checks every song with a video ID', async () => {
+    const progress: [number, number][] = [];
+    const results = await createAvailabilityChecker(lookup).checkPlaylist(playlist, (done, total) => progress.push([done, total]));
+
+    assert.deepEqual(results.map(result => [result.index, result.availability]), [
+      [0, 'available'],
+      [1, 'unavailable'],
+      [2, 'region-locked'],
+      [3, 'changed'],
+      [5, 'unavailable'],
+    ]);
+    assert.equal(results[2].reason, 'The uploader has not made this video available in your country');
+    assert.deepEqual(progress[0], [0, 5]);
+    assert.deepEqual(progress[progress.length - 1], [5, 5]);
+  });
+
+  it('leaves out songs whose lookup failed', async () => {
+    const results = await createAvailabilityChecker(flakyLookup).checkPlaylist(playlist);
+    assert.deepEqual(results.map(result => result.index), [0, 1, 2, 3]);
+
+    const checked = applyAvailability(playlist, results, '2024-06-01T00:00:00.000Z');
+    assert.equal(checked.songs[5].availability, undefined);
+    assert.equal(checked.songs[5].checkedAt, undefined);
+  });
+});
+
+describe('applyAvailability', () => {
+  it('records the result and when it was checked', async () => {
+    const results = await createAvailabilityChecker(lookup).checkPlaylist(playlist);
+    const checked = applyAvailability(playlist, results, '2024-06-01T00:00:00.000Z');
+
+    assert.deepEqual(checked.songs.map(s => s.availability), ['available', 'unavailable', 'region-locked', 'changed', undefined, 'unavailable']);
+    assert.equal(checked.songs[1].checkedAt, '2024-06-01T00:00:00.000Z');
+    assert.equal(checked.songs[4], playlist.songs[4]);
+  });
+
+  it('skips songs whose video changed since the check', async () => {
+    const results = await createAvailabilityChecker(lookup).checkPlaylist(playlist);
+
+    // The song at index 1 was replaced while the check ran
+    const edited: Playlist = { ...playlist, songs: playlist.songs.map((s, i) => (i === 1 ? song('eVTXPUF4Oz4', 'In the End') : s)) };
+    const checked = applyAvailability(edited, results);
+
+    assert.equal(checked.songs[1].availability, undefined);
+    assert.equal(checked.songs[1].videoId, 'eVTXPUF4Oz4');
+    assert.equal(checked.songs[2].availability, 'region-locked');
+  });
+});
+
+describe('replaceVideo', () => {
+  it('clears the old check result', () => {
+    const checked: Song = { ...song('deleted0000', 'In the End'), album: 'Hybrid Theory', availability: 'unavailable', checkedAt: '2024-06-01T00:00:00.000Z' };
+    const replaced = replaceVideo(checked, 'eVTXPUF4Oz4');
+
+    assert.deepEqual(replaced, { videoId: 'eVTXPUF4Oz4', title: 'In the End', artist: 'Linkin Park', album: 'Hybrid Theory' });
+    assert.equal(checked.availability, 'unavailable');
+  });
+});
@@ -0,0 +1,15 @@
+import type { MatchCandidate } from '../../matcher';
+
+// A small stand-in for YouTube Music's search results, with the kinds of
+// uploads the matcher has to tell apart: official audio, featured artists,
+// live versions and covers
+export const CATALOG: MatchCandidate[] = [
+  { videoId: 'fJ9rUzIMcZQ', title: 'Bohemian Rhapsody', artist: 'Queen', album: 'A Night at the Opera', duration: '355' },
+  { videoId: 'lN1HHEkCILo', title: 'Bohemian Rhapsody (Live Aid 1985)', artist: 'Queen', duration: '357' },
+  { videoId: 'gGdGFtwCNBE', title: 'Mr. Brightside (Official Audio)', artist: 'The Killers', album: 'Hot Fuss', duration: '223' },
+  { videoId: 'w2Ov5jzm3j8', title: 'Old Town Road (feat. Billy Ray Cyrus)', artist: 'Lil Nas X', duration: '157' },
+  { videoId: '8AHCfZTRGiI', title: 'Hurt', artist: 'Johnny Cash', album: 'American IV', duration: '218' },
+  { videoId: 'vt1Pwfnh5pc', title: 'Hurt', artist: 'Nine Inch Nails', album: 'The Downward Spiral', duration: '373' },
+  { videoId: 'kXYiU_JCYtU', title: 'Numb', artist: 'Linkin Park', album: 'Meteora', duration: '187' },
+  { videoId: 'eVTXPUF4Oz4', title: 'In the End (Live)', artist: 'Linkin Park', duration: '296' },
+];
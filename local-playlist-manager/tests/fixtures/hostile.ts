@@ -0,0 +1,72 @@
+// Playlist files written to break out of the markup they're shown in: new
+// elements, closed attributes and event handler attributes
+
+export const PAYLOADS = {
+  element: '<img src=x onerror="window.injected=true">',
+  script: '"><script>window.injected=true</script>',
+  attribute: '" onmouseover="window.injected=true" data-x="',
+  singleQuote: '\' autofocus onfocus=\'window.injected=true\' x=\'',
+};
+
+const { element, script, attribute, singleQuote } = PAYLOADS;
+
+const xml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const HOSTILE_FILES: { format: 'json' | 'csv' | 'm3u' | 'xspf'; content: string }[] = [
+  {
+    format: 'json',
+    content: JSON.stringify({
+      id: '',
+      name: element,
+      folder: attribute,
+      tags: [script, singleQuote],
+      songs: [
+        { videoId: 'dQw4w9WgXcQ', title: script, artist: attribute, album: element, duration: '212' },
+        { videoId: '', title: singleQuote, artist: element },
+      ],
+      created: '2024-01-01T00:00:00.000Z',
+      modified: '2024-01-01T00:00:00.000Z',
+    }),
+  },
+  {
+    format: 'csv',
+    content: [
+      'Title,Artist,Album,Video ID',
+      [script, attribute, element, 'dQw4w9WgXcQ'].map(csvField).join(','),
+      [singleQuote, element, script, ''].map(csvField).join(','),
+    ].join('\r\n'),
+  },
+  {
+    format: 'm3u',
+    content: [
+      '#EXTM3U',
+      `#PLAYLIST:${element}`,
+      `#EXTINF:212,${attribute} - ${script}`,
+      'https://music.youtube.com/watch?v=dQw4w9WgXcQ',
+      `#EXTALB:${singleQuote}`,
+      `#EXTINF:-1,${element} - ${singleQuote}`,
+      'song.mp3',
+    ].join('\n'),
+  },
+  {
+    format: 'xspf',
+    content: `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>${xml(element)}</title>
+  <trackList>
+    <track>
+      <location>https://music.youtube.com/watch?v=dQw4w9WgXcQ</location>
+      <title><![CDATA[${script}]]></title>
+      <creator>${xml(attribute)}</creator>
+      <album>${xml(singleQuote)}</album>
+    </track>
+  </trackList>
+</playlist>`,
+  },
+];
@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePlaylistContent } from '../converter';
+import { html } from '../dom';
+import type { SafeHtml } from '../dom';
+import { normalizeTags } from '../library-folders';
+import { playlistCardHtml, playlistDetailInfoHtml, songItemHtml } from '../page-templates';
+import { repairPlaylist } from '../schema';
+import type { Playlist, Song } from '../types';
+import { HOSTILE_FILES, PAYLOADS } from './fixtures/hostile';
+
+// Just enough of an HTML reader for the templates. They quote every
+// attribute value and html`` escapes quotes and angle brackets, so markup a
+// payload broke out of doesn't read as the same elements here.
+const TAG = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'<>/=]+(?:="[^"]*"|='[^']*')?)*)\s*>/g;
+const ATTRIBUTE = /([^\s"'<>/=]+)(?:="([^"]*)"|='([^']*)')?/g;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'" };
+
+const decode = (text: string) => text.replace(/&(amp|lt|gt|quot|#39);/g, (_, name: string) => ENTITIES[name]);
+
+interface ParsedElement {
+  tag: string;
+  attributes: Map<string, string>;
+  // Text up to the next tag
+  text: string;
+}
+
+const render = (content: SafeHtml | SafeHtml[]): ParsedElement[] => {
+  const markup = (Array.isArray(content) ? content : [content]).map(part => part.html).join('');
+  assert.ok(!/[<>]/.test(markup.replace(TAG, '')), 'markup outside of tags');
+
+  return [...markup.matchAll(TAG)].filter(match => !match[1]).map(match => {
+    const end = match.index! + match[0].length;
+    const next = markup.indexOf('<', end);
+    return {
+      tag: match[2].toLowerCase(),
+      attributes: new Map([...match[3].matchAll(ATTRIBUTE)].map(([, name, double, single]) => [name, decode(double ?? single ?? '')])),
+      text: decode(markup.slice(end, next === -1 ? undefined : next)).trim(),
+    };
+  });
+};
+
+const withClass = (elements: ParsedElement[], className: string) =>
+  elements.filter(element => (element.attributes.get('class') ?? '').split(/\s+/).includes(className));
+
+const first = (elements: ParsedElement[], className: string) => withClass(elements, className)[0];
+
+// Tag and attribute names of every element, in document order
+const structure = (elements: ParsedElement[]) =>
+  elements.map(element => `${element.tag}[${[...element.attributes.keys()].sort().join(' ')}]`);
+
+// The same playlist with harmless text everywhere the file had a say
+const blandCopy = (playlist: Playlist): Playlist => ({
+  ...playlist,
+  id: 'playlist-id',
+  name: 'Name',
+  ...(playlist.folder ? { folder: 'Folder' } : {}),
+  ...(playlist.tags ? { tags: normalizeTags(playlist.tags).map((_, i) => `Tag ${i}`) } : {}),
+  ...(playlist.source ? { source: { ...playlist.source, dir: 'Dir', label: 'Label' } } : {}),
+  songs: playlist.songs.map((song): Song => ({
+    ...song,
+    title: 'Title',
+    artist: 'Artist',
+    ...(song.album ? { album: 'Album' } : {}),
+  })),
+});
+
+const renderAll = (playlist: Playlist) => render([
+  playlistCardHtml(playlist, true),
+  playlistDetailInfoHtml(playlist, [playlist]),
+  ...playlist.songs.map((song, index) => songItemHtml(song, index, { selected: index === 0, editable: true, plays: '' })),
+]);
+
+const parsed = HOSTILE_FILES.map(({ format, content }) => {
+  const { playlists } = parsePlaylistContent(content, format, 'Hostile') as { playlists: Playlist[] };
+  return { format, playlist: { ...playlists[0], id: PAYLOADS.attribute } };
+});
+
+describe('hostile playlist files', () => {
+  for (const { format, playlist } of parsed) {
+    describe(format, () => {
+      it('imports the markup as plain text', () => {
+        const text = [playlist.name, ...playlist.songs.flatMap(song => [song.title, song.artist, song.album ?? ''])];
+        assert.ok(text.some(value => value.includes('<')), 'payload should survive the import');
+      });
+
+      it('renders without adding elements or attributes', () => {
+        const hostile = renderAll(playlist);
+        assert.deepEqual(structure(hostile), structure(renderAll(blandCopy(playlist))));
+        assert.equal(hostile.filter(element => element.tag === 'script' || element.tag === 'img').length, 0);
+        for (const element of hostile) {
+          for (const name of element.attributes.keys()) {
+            assert.ok(!name.startsWith('on') && name !== 'autofocus' && name !== 'x' && name !== 'data-x', `${element.tag} has ${name}`);
+          }
+        }
+      });
+
+      it('keeps data and aria attributes as quoted text', () => {
+        const root = renderAll(playlist);
+        const card = first(root, 'playlist-card');
+        assert.equal(card.attributes.get('data-playlist-id'), playlist.id);
+        assert.equal(card.attributes.get('aria-label'), `${playlist.name}, ${playlist.songs.length} songs`);
+        assert.equal(first(root, 'play-btn').attributes.get('aria-label'), `Play ${playlist.name}`);
+        assert.equal(root.find(element => element.tag === 'h3')!.text, playlist.name);
+        assert.equal(root.find(element => element.attributes.get('id') === 'playlist-detail-title')!.text, playlist.name);
+
+        const items = withClass(root, 'song-item');
+        const checkboxes = withClass(root, 'song-select');
+        const titles = withClass(root, 'song-title');
+        assert.equal(items.length, playlist.songs.length);
+        playlist.songs.forEach((song, index) => {
+          assert.equal(items[index].attributes.get('data-index'), String(index));
+          assert.equal(items[index].attributes.get('aria-label'), `${index + 1}. ${song.title} by ${song.artist}`);
+          assert.equal(checkboxes[index].attributes.get('aria-label'), `Select ${song.title}`);
+          assert.equal(titles[index].text, song.title);
+        });
+      });
+    });
+  }
+
+  it('renders folders, tags, sources and smart rules as text', () => {
+    const { playlist } = repairPlaylist(JSON.parse(HOSTILE_FILES[0].content), 'Hostile')!;
+    const smart: Playlist = {
+      ...playlist,
+      id: PAYLOADS.script,
+      source: { dir: PAYLOADS.attribute, label: PAYLOADS.element, readOnly: true },
+      smart: { match: 'any', rules: [{ field: 'artist', operator: 'contains', value: PAYLOADS.singleQuote }] },
+    };
+
+    const root = renderAll(smart);
+    assert.deepEqual(structure(root), structure(renderAll(blandCopy(smart))));
+    assert.equal(first(root, 'source-tag').attributes.get('title'), PAYLOADS.attribute);
+    assert.ok(first(root, 'source-info').text.includes(PAYLOADS.attribute));
+    assert.ok(first(root, 'smart-rules').text.includes(PAYLOADS.singleQuote));
+    assert.deepEqual(
+      withClass(render(playlistCardHtml(smart, true)), 'playlist-tag').map(tag => tag.text),
+      normalizeTags(smart.tags)
+    );
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated text in content and attributes', () => {
+    const root = render(html`<p title="${PAYLOADS.attribute}" data-value='${PAYLOADS.singleQuote}'>${PAYLOADS.element}${PAYLOADS.script}</p>`);
+    assert.deepEqual(structure(root), ['p[data-value title]']);
+    assert.equal(root[0].attributes.get('title'), PAYLOADS.attribute);
+    assert.equal(root[0].attributes.get('data-value'), PAYLOADS.singleQuote);
+    assert.equal(root[0].text, PAYLOADS.element + PAYLOADS.script);
+  });
+
+  it('inserts nested templates and arrays of them as markup', () => {
+    const items = ['a', PAYLOADS.element].map(item => html`<li>${item}</li>`);
+    const root = render(html`<ul>${items}</ul>`);
+    assert.deepEqual(structure(root), ['ul[]', 'li[]', 'li[]']);
+    assert.equal(root[2].text, PAYLOADS.element);
+  });
+
+  it('escapes objects that only look like templates', () => {
+    const forged = { html: PAYLOADS.element };
+    const root = render(html`<p>${forged}</p>`);
+    assert.deepEqual(structure(root), ['p[]']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyMatches, createCatalogSearchBackend, createMatcher, normalizeForMatching, scoreCandidate } from '../matcher';
+import type { Playlist, Song } from '../types';
+import { CATALOG } from './fixtures/catalog';
+
+const matcher = createMatcher(createCatalogSearchBackend(CATALOG));
+
+const song = (title: string, artist: string, duration?: string): Song => ({
+  videoId: '',
+  title,
+  artist,
+  ...(duration ? { duration } : {}),
+});
+
+describe('normalizeForMatching', () => {
+  it('drops upload decorations and featured artists', () => {
+    assert.equal(normalizeForMatching('Mr. Brightside (Official Audio)'), 'mr brightside');
+    assert.equal(normalizeForMatching('Old Town Road (feat. Billy Ray Cyrus)'), 'old town road');
+    assert.equal(normalizeForMatching('Beyoncé [Remastered 2011]'), 'beyonce');
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('spreads the duration weight over title and artist when a duration is missing', () => {
+    const scored = scoreCandidate(song('Numb', 'Linkin Park'), CATALOG.find(c => c.title === 'Numb')!);
+    assert.equal(scored.durationScore, null);
+    assert.equal(scored.score, 1);
+  });
+});
+
+describe('matchSong', () => {
+  it('accepts an exact match', async () => {
+    const result = await matcher.matchSong(song('Bohemian Rhapsody', 'Queen', '354'), 3);
+    assert.equal(result.status, 'matched');
+    assert.equal(result.index, 3);
+    assert.equal(result.best?.candidate.videoId, 'fJ9rUzIMcZQ');
+  });
+
+  it('accepts an "(Official Audio)" upload of the song', async () => {
+    const result = await matcher.matchSong(song('Mr. Brightside', 'The Killers'));
+    assert.equal(result.status, 'matched');
+    assert.equal(result.best?.candidate.videoId, 'gGdGFtwCNBE');
+  });
+
+  it('accepts a title that credits a featured artist', async () => {
+    const result = await matcher.matchSong(song('Old Town Road', 'Lil Nas X', '157'));
+    assert.equal(result.status, 'matched');
+    assert.equal(result.best?.candidate.videoId, 'w2Ov5jzm3j8');
+  });
+
+  it('accepts a duration within the tolerance', async () => {
+    const result = await matcher.matchSong(song('Hurt', 'Johnny Cash', '225'));
+    assert.equal(result.status, 'matched');
+    assert.equal(result.best?.candidate.videoId, '8AHCfZTRGiI');
+  });
+
+  it('leaves a duration mismatch for review', async () => {
+    const result = await matcher.matchSong(song('Numb', 'Linkin Park', '300'));
+    assert.equal(result.status, 'ambiguous');
+    assert.equal(result.best?.candidate.videoId, 'kXYiU_JCYtU');
+    assert.equal(result.best?.durationScore, 0);
+  });
+
+  it('leaves equally good candidates for review', async () => {
+    const result = await matcher.matchSong(song('Hurt', 'Unknown'));
+    assert.equal(result.status, 'ambiguous');
+    assert.deepEqual(
+      result.candidates.slice(0, 2).map(scored => scored.candidate.videoId).sort(),
+      ['8AHCfZTRGiI', 'vt1Pwfnh5pc']
+    );
+  });
+
+  it('reports songs without candidates as not found', async () => {
+    const result = await matcher.matchSong(song('Unreleased Demo', 'Nobody Knows'));
+    assert.equal(result.status, 'not-found');
+    assert.deepEqual(result.candidates, []);
+    assert.equal(result.best, undefined);
+  });
+
+  it('honours custom thresholds', async () => {
+    const strict = createMatcher(createCatalogSearchBackend(CATALOG), { acceptThreshold: 1.01 });
+    const result = await strict.matchSong(song('Bohemian Rhapsody', 'Queen', '355'));
+    assert.equal(result.status, 'ambiguous');
+  });
+});
+
+describe('matchPlaylist', () => {
+  const playlist: Playlist = {
+    id: '',
+    name: 'Imported',
+    songs: [
+      { videoId: 'kXYiU_JCYtU', title: 'Numb', artist: 'Linkin Park' },
+      song('Bohemian Rhapsody', 'Queen'),
+      song('Unreleased Demo', 'Nobody Knows'),
+    ],
+    created: '2024-01-01T00:00:00.000Z',
+    modified: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('only searches for songs without a video ID, keeping their indexes', async () => {
+    const progress: number[] = [];
+    const results = await matcher.matchPlaylist(playlist, done => progress.push(done));
+    assert.deepEqual(results.map(result => [result.index, result.status]), [[1, 'matched'], [2, 'not-found']]);
+    assert.deepEqual(progress, [0, 1, 2]);
+  });
+
+  it('fills in only what the song was missing', () => {
+    const withAlbum: Playlist = { ...playlist, songs: playlist.songs.map((s, i) => (i === 1 ? { ...s, album: 'Greatest Hits' } : s)) };
+    const updated = applyMatches(withAlbum, new Map([[1, CATALOG[0]]]));
+    assert.equal(updated.songs[1].videoId, 'fJ9rUzIMcZQ');
+    assert.equal(updated.songs[1].album, 'Greatest Hits');
+    assert.equal(updated.songs[1].duration, '355');
+    assert.equal(updated.songs[0], playlist.songs[0]);
+  });
+});
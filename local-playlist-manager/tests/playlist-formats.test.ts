@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePlaylistContent } from '../converter';
+import type { ImportFormat } from '../formats/import';
+import type { Playlist } from '../types';
+
+const parse = (content: string, format: ImportFormat) =>
+  (parsePlaylistContent(content, format, 'Fallback') as { playlists: Playlist[] }).playlists[0];
+
+describe('m3u', () => {
+  it('reads artist and title from local file names', () => {
+    const playlist = parse([
+      '/home/me/Music/Crystal Waters - 100% Pure Love.mp3',
+      'C:\\Music\\Crystal Waters - 100% Pure Love (Remix).flac',
+      'file:///home/me/Music/Daft%20Punk%20-%20One%20More%20Time.mp3',
+    ].join('\n'), 'm3u');
+
+    assert.deepEqual(playlist.songs.map(song => [song.artist, song.title]), [
+      ['Crystal Waters', '100% Pure Love'],
+      ['Crystal Waters', '100% Pure Love (Remix)'],
+      ['Daft Punk', 'One More Time'],
+    ]);
+  });
+
+  it('prefers #EXTINF details and finds video IDs in URLs', () => {
+    const playlist = parse([
+      '#EXTM3U',
+      '#PLAYLIST:Mix',
+      '#EXTINF:187,Linkin Park - Numb',
+      'https://music.youtube.com/watch?v=kXYiU_JCYtU',
+    ].join('\n'), 'm3u8');
+
+    assert.equal(playlist.name, 'Mix');
+    assert.deepEqual(playlist.songs, [{ videoId: 'kXYiU_JCYtU', title: 'Numb', artist: 'Linkin Park', duration: '187' }]);
+  });
+});
+
+describe('xspf', () => {
+  const xspf = (title: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <trackList>
+    <track>
+      <location>https://music.youtube.com/watch?v=kXYiU_JCYtU</location>
+      <title>${title}</title>
+      <creator>Linkin Park</creator>
+    </track>
+  </trackList>
+</playlist>`;
+
+  it('decodes named and numeric entities', () => {
+    const playlist = parse(xspf('Numb &amp; Encore &#8212; Live &#x1F3B5;'), 'xspf');
+    assert.equal(playlist.songs[0].title, 'Numb & Encore — Live 🎵');
+  });
+
+  it('replaces numeric entities outside Unicode instead of failing', () => {
+    const playlist = parse(xspf('Numb &#99999999; &#x110000;'), 'xspf');
+    assert.equal(playlist.songs[0].title, 'Numb \ufffd \ufffd');
+    assert.equal(playlist.songs[0].videoId, 'kXYiU_JCYtU');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeRule, evaluateSmartPlaylist, usesPlayHistory } from '../smart-playlists';
+import type { PlayStats } from '../smart-playlists';
+import type { Playlist, SmartRule, Song } from '../types';
+
+const NOW = Date.parse('2024-06-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const song = (videoId: string, title: string): Song => ({ videoId, title, artist: 'Linkin Park' });
+
+const library: Playlist = {
+  id: 'library',
+  name: 'Library',
+  songs: [song('kXYiU_JCYtU', 'Numb'), song('eVTXPUF4Oz4', 'In the End'), song('4qlCC1GOwFw', 'Faint'), song('', 'Papercut')],
+  created: '2024-01-01T00:00:00.000Z',
+  modified: '2024-01-01T00:00:00.000Z',
+};
+
+const playStats: PlayStats = {
+  kXYiU_JCYtU: { plays: 12, skips: 0, lastPlayed: new Date(NOW - 2 * DAY_MS).toISOString() },
+  eVTXPUF4Oz4: { plays: 3, skips: 1, lastPlayed: new Date(NOW - 200 * DAY_MS).toISOString() },
+};
+
+const titles = (rule: SmartRule, stats: PlayStats = playStats) =>
+  evaluateSmartPlaylist({ match: 'all', rules: [rule] }, [library], NOW, stats).map(s => s.title);
+
+describe('play history rules', () => {
+  it('counts songs missing from the history as never played', () => {
+    assert.deepEqual(titles({ field: 'plays', operator: 'at-least', value: 3 }), ['Numb', 'In the End']);
+    assert.deepEqual(titles({ field: 'plays', operator: 'fewer-than', value: 5 }), ['In the End', 'Faint', 'Papercut']);
+    assert.deepEqual(titles({ field: 'plays', operator: 'at-least', value: 1 }, {}), []);
+  });
+
+  it('matches never played songs as not played recently', () => {
+    assert.deepEqual(titles({ field: 'lastPlayed', operator: 'within-days', value: 30 }), ['Numb']);
+    assert.deepEqual(titles({ field: 'lastPlayed', operator: 'not-within-days', value: 30 }), ['In the End', 'Faint', 'Papercut']);
+  });
+
+  it('only asks for the history when a rule needs it', () => {
+    const smart = (rules: SmartRule[]): Playlist => ({ ...library, id: 'smart', songs: [], smart: { match: 'all', rules } });
+    assert.equal(usesPlayHistory([library, smart([{ field: 'addedAt', operator: 'within-days', value: 30 }])]), false);
+    assert.equal(usesPlayHistory([library, smart([{ field: 'lastPlayed', operator: 'within-days', value: 30 }])]), true);
+  });
+
+  it('describes the rules', () => {
+    assert.equal(describeRule({ field: 'plays', operator: 'at-least', value: 1 }, []), 'Played at least 1 time');
+    assert.equal(describeRule({ field: 'plays', operator: 'fewer-than', value: 5 }, []), 'Played fewer than 5 times');
+    assert.equal(describeRule({ field: 'lastPlayed', operator: 'not-within-days', value: 90 }, []), 'Not played in the last 90 days');
+  });
+});
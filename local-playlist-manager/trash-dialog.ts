@@ -0,0 +1,113 @@
+import { createElement } from './dom';
+import { showConfirmDialog } from './dialogs';
+import type { TrashedPlaylist } from './backups';
+
+export interface TrashDialogRequest {
+  entries: TrashedPlaylist[];
+  restore: (id: string) => Promise<{ success: boolean; message: string }>;
+  purge: (id?: string) => Promise<{ success: boolean; message: string }>;
+}
+
+// List deleted playlists with restore and delete-forever actions. Resolves
+// with true when anything was restored, so the caller knows to reload.
+export const showTrashDialog = (request: TrashDialogRequest): Promise<boolean> =>
+  new Promise(resolve => {
+    let restoredAny = false;
+    let remaining = request.entries.length;
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog trash-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Trash');
+
+    const hint = createElement('p', 'lpm-dialog-hint');
+    const status = createElement('p', 'trash-status');
+    status.setAttribute('role', 'status');
+    const list = createElement('div', 'trash-list');
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const emptyBtn = createElement('button', 'action-btn danger', 'Empty trash');
+    const closeBtn = createElement('button', 'action-btn', 'Close');
+    actions.append(emptyBtn, closeBtn);
+
+    const updateHint = () => {
+      hint.textContent = remaining === 0
+        ? 'The trash is empty.'
+        : 'Deleted playlists stay here until you restore them or empty the trash.';
+      emptyBtn.disabled = remaining === 0;
+    };
+
+    for (const entry of request.entries) {
+      const row = createElement('div', 'trash-item');
+      const info = createElement('div', 'trash-item-info');
+      info.append(
+        createElement('span', 'trash-item-name', entry.name),
+        createElement('span', 'trash-item-detail',
+          `${entry.songCount} songs • deleted ${new Date(entry.deletedAt).toLocaleString()}`)
+      );
+
+      const restoreBtn = createElement('button', 'action-btn', 'Restore');
+      const purgeBtn = createElement('button', 'action-btn danger', 'Delete forever');
+
+      const run = async (action: () => Promise<{ success: boolean; message: string }>, restored: boolean) => {
+        restoreBtn.disabled = true;
+        purgeBtn.disabled = true;
+        const result = await action();
+        status.textContent = result.message;
+
+        if (result.success) {
+          row.remove();
+          remaining--;
+          restoredAny = restoredAny || restored;
+          updateHint();
+        } else {
+          restoreBtn.disabled = false;
+          purgeBtn.disabled = false;
+        }
+      };
+
+      restoreBtn.addEventListener('click', () => run(() => request.restore(entry.id), true));
+      purgeBtn.addEventListener('click', async () => {
+        const confirmed = await showConfirmDialog({
+          title: `Permanently delete "${entry.name}"?`,
+          message: 'This cannot be undone.',
+          confirmLabel: 'Delete forever',
+          danger: true,
+        });
+        if (confirmed) {
+          run(() => request.purge(entry.id), false);
+        }
+      });
+
+      row.append(info, restoreBtn, purgeBtn);
+      list.append(row);
+    }
+
+    updateHint();
+    dialog.append(createElement('h2', undefined, 'Trash'), hint, list, status, actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    emptyBtn.addEventListener('click', async () => {
+      const confirmed = await showConfirmDialog({
+        title: 'Empty the trash?',
+        message: 'Every playlist in the trash is deleted permanently. This cannot be undone.',
+        confirmLabel: 'Empty trash',
+        danger: true,
+      });
+      if (!confirmed) return;
+
+      const result = await request.purge();
+      status.textContent = result.message;
+      if (result.success) {
+        list.replaceChildren();
+        remaining = 0;
+        updateHint();
+      }
+    });
+
+    closeBtn.addEventListener('click', () => {
+      overlay.remove();
+      resolve(restoredAny);
+    });
+  });
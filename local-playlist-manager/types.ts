@@ -0,0 +1,79 @@
+// Outcome of the last availability check, see availability.ts. "changed"
+// means the video plays but is no longer the song that was saved.
+export type SongAvailability = 'available' | 'unavailable' | 'region-locked' | 'changed';
+
+export interface Song {
+  videoId: string;
+  title: string;
+  // Display name, every artist joined when there are several
+  artist: string;
+  // Each credited artist separately, when known
+  artists?: string[];
+  album?: string;
+  // Whole seconds
+  duration?: string;
+  explicit?: boolean;
+  // When the song was added to its playlist (ISO date). Missing on songs
+  // saved before this was tracked, those fall back to the playlist's date.
+  addedAt?: string;
+  // Artwork URL captured from the player. The image itself is cached in
+  // the library folder.
+  thumbnail?: string;
+  availability?: SongAvailability;
+  // When availability was last checked (ISO date)
+  checkedAt?: string;
+}
+
+export type SmartTextField = 'title' | 'artist' | 'album';
+
+export type SmartRule =
+  | { field: SmartTextField; operator: 'is' | 'is-not' | 'contains' | 'not-contains'; value: string }
+  // Seconds
+  | { field: 'duration'; operator: 'under' | 'over'; value: number }
+  // Days
+  | { field: 'addedAt'; operator: 'within-days' | 'older-than-days'; value: number }
+  // Playlist id
+  | { field: 'playlist'; operator: 'in' | 'not-in'; value: string }
+  // Completed plays in the listening history
+  | { field: 'plays'; operator: 'at-least' | 'fewer-than'; value: number }
+  // Days. Songs never played are not played within any number of days.
+  | { field: 'lastPlayed'; operator: 'within-days' | 'not-within-days'; value: number };
+
+export interface SmartPlaylistDefinition {
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  sort?: 'added' | 'title' | 'artist' | 'random';
+  limit?: number;
+}
+
+// Library directory a playlist was loaded from
+export interface PlaylistSource {
+  dir: string;
+  label: string;
+  readOnly: boolean;
+}
+
+export interface Playlist {
+  // Stable identifier, also the file name on disk (<id>.json)
+  id: string;
+  name: string;
+  songs: Song[];
+  created: string;
+  modified: string;
+  // Version of the file format, see PLAYLIST_SCHEMA_VERSION
+  schemaVersion?: number;
+  // Present on smart playlists. Their songs are computed from the rest of
+  // the library when playlists are loaded and never written to disk.
+  smart?: SmartPlaylistDefinition;
+  // Folder in the library view. Nested folders are separated by "/", and a
+  // folder exists for as long as a playlist is in it.
+  folder?: string;
+  tags?: string[];
+  // Pinned playlists come first in the library and show up in the sidebar
+  pinned?: boolean;
+  // File name of a custom cover image in the library's .covers folder.
+  // Without one the cover is a mosaic of the first tracks.
+  cover?: string;
+  // Set when the library is loaded, never written to disk
+  source?: PlaylistSource;
+}
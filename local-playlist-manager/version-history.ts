@@ -0,0 +1,169 @@
+import { renderSideBySide } from './diff-view';
+import { createElement } from './dom';
+import { diffPlaylists } from './playlist-diff';
+import { describeRule } from './smart-playlists';
+import type { PlaylistVersion } from './backups';
+import type { Playlist } from './types';
+
+export interface VersionHistoryRequest {
+  playlist: Playlist;
+  playlists: Playlist[];
+  versions: PlaylistVersion[];
+  loadVersion: (versionId: string) => Promise<Playlist | null>;
+}
+
+const describeRules = (playlist: Playlist, playlists: Playlist[]) => {
+  if (!playlist.smart) return '';
+  if (playlist.smart.rules.length === 0) return 'every song in your library';
+  return playlist.smart.rules
+    .map(rule => describeRule(rule, playlists))
+    .join(playlist.smart.match === 'any' ? ' or ' : ' and ');
+};
+
+// How a version differs from another one, by default from the playlist as
+// it is now, which is what restoring it would change
+const renderDiff = (version: Playlist, base: Playlist, baseLabel: string, baseHeading: string, playlists: Playlist[]) => {
+  const container = createElement('div', 'version-diff');
+
+  if (version.name !== base.name) {
+    container.append(createElement('p', 'version-diff-line', `Name: "${base.name}" → "${version.name}"`));
+  }
+
+  // Smart playlists only store their rules, the songs are computed
+  if (base.smart || version.smart) {
+    const before = describeRules(base, playlists) || 'not a smart playlist';
+    const after = describeRules(version, playlists) || 'not a smart playlist';
+    container.append(createElement('p', 'version-diff-line', before === after
+      ? `Rules are the same as in ${baseLabel}`
+      : `Rules: ${before} → ${after}`));
+    return container;
+  }
+
+  const diff = diffPlaylists(base, version);
+  if (diff.added.length === 0 && diff.removed.length === 0 && !diff.reordered) {
+    container.append(createElement('p', 'version-diff-line', `Same songs as ${baseLabel}`));
+    return container;
+  }
+
+  container.append(renderSideBySide(baseHeading, base.songs, 'This version', version.songs));
+  return container;
+};
+
+// Browse the saved versions of a playlist and compare each with the current
+// one. Resolves with the version to restore, or null when closed.
+export const showVersionHistoryDialog = (request: VersionHistoryRequest): Promise<string | null> =>
+  new Promise(resolve => {
+    const { playlist, playlists, versions, loadVersion } = request;
+    let selectedId: string | null = null;
+    // Empty for the playlist as it is now
+    let baseId = '';
+
+    const loaded = new Map<string, Promise<Playlist | null>>();
+    const load = (versionId: string) => {
+      if (!loaded.has(versionId)) {
+        loaded.set(versionId, loadVersion(versionId));
+      }
+      return loaded.get(versionId)!;
+    };
+
+    const overlay = createElement('div', 'lpm-overlay');
+    const dialog = createElement('div', 'lpm-dialog version-history-dialog');
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', 'Version history');
+
+    dialog.append(
+      createElement('h2', undefined, `Version history: ${playlist.name}`),
+      createElement('p', 'lpm-dialog-hint', versions.length === 0
+        ? 'No earlier versions yet. A version is kept every time this playlist changes.'
+        : 'Pick a version to see how it differs from the current playlist or from another version.')
+    );
+
+    const body = createElement('div', 'version-history-body');
+    const list = createElement('div', 'version-history-list');
+    const preview = createElement('div', 'version-history-preview');
+    const diffArea = createElement('div');
+
+    const versionLabel = (version: PlaylistVersion) => new Date(version.savedAt).toLocaleString();
+
+    const baseSelect = createElement('select', 'library-select');
+    baseSelect.setAttribute('aria-label', 'Compare with');
+    const currentOption = createElement('option', undefined, 'the current playlist');
+    currentOption.value = '';
+    baseSelect.append(currentOption);
+    for (const version of versions) {
+      const option = createElement('option', undefined, versionLabel(version));
+      option.value = version.versionId;
+      baseSelect.append(option);
+    }
+
+    const basePicker = createElement('label', 'compare-picker', 'Compare with ');
+    basePicker.append(baseSelect);
+    preview.append(basePicker, diffArea);
+
+    const actions = createElement('div', 'lpm-dialog-actions');
+    const closeBtn = createElement('button', 'action-btn', 'Close');
+    const restoreBtn = createElement('button', 'action-btn primary', 'Restore this version');
+    restoreBtn.disabled = true;
+    actions.append(closeBtn, restoreBtn);
+
+    const showDiff = async () => {
+      if (!selectedId) return;
+      const versionId = selectedId;
+      const base = baseId;
+      diffArea.replaceChildren(createElement('p', 'version-diff-line', 'Loading…'));
+
+      const [version, baseVersion] = await Promise.all([load(versionId), base ? load(base) : playlist]);
+      // Something else was picked while these loaded
+      if (selectedId !== versionId || baseId !== base) return;
+
+      if (!version || !baseVersion) {
+        diffArea.replaceChildren(createElement('p', 'version-diff-line', 'This version could not be read'));
+        return;
+      }
+
+      const baseVersionInfo = versions.find(v => v.versionId === base);
+      diffArea.replaceChildren(baseVersionInfo
+        ? renderDiff(version, baseVersion, `the version from ${versionLabel(baseVersionInfo)}`, versionLabel(baseVersionInfo), playlists)
+        : renderDiff(version, baseVersion, 'the current playlist', 'Current playlist', playlists));
+      restoreBtn.disabled = false;
+    };
+
+    const select = (version: PlaylistVersion, item: HTMLElement) => {
+      selectedId = version.versionId;
+      restoreBtn.disabled = true;
+      list.querySelectorAll('.version-history-item').forEach(other => other.classList.remove('selected'));
+      item.classList.add('selected');
+      showDiff();
+    };
+
+    baseSelect.addEventListener('change', () => {
+      baseId = baseSelect.value;
+      showDiff();
+    });
+
+    for (const version of versions) {
+      const item = createElement('button', 'version-history-item');
+      item.append(
+        createElement('span', 'version-history-date', versionLabel(version)),
+        createElement('span', 'version-history-detail', `${version.name} • ${version.songCount} songs`)
+      );
+      item.addEventListener('click', () => select(version, item));
+      list.append(item);
+    }
+
+    body.append(list, preview);
+    if (versions.length > 0) {
+      dialog.append(body);
+    }
+    dialog.append(actions);
+    overlay.append(dialog);
+    document.body.append(overlay);
+
+    const close = (result: string | null) => {
+      overlay.remove();
+      resolve(result);
+    };
+
+    closeBtn.addEventListener('click', () => close(null));
+    restoreBtn.addEventListener('click', () => close(selectedId));
+  });
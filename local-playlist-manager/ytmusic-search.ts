@@ -0,0 +1,132 @@
+import type { AvailabilityLookup } from './availability';
+import type { MatchCandidate, SearchBackend } from './matcher';
+
+interface TextRun {
+  text: string;
+  navigationEndpoint?: {
+    watchEndpoint?: { videoId?: string };
+    browseEndpoint?: {
+      browseEndpointContextSupportedConfigs?: {
+        browseEndpointContextMusicConfig?: { pageType?: string };
+      };
+    };
+  };
+}
+
+interface ResponsiveListItem {
+  playlistItemData?: { videoId?: string };
+  flexColumns?: {
+    musicResponsiveListItemFlexColumnRenderer?: { text?: { runs?: TextRun[] } };
+  }[];
+}
+
+interface PlayerResponse {
+  playabilityStatus?: {
+    // OK, UNPLAYABLE, ERROR, LOGIN_REQUIRED, ...
+    status?: string;
+    reason?: string;
+  };
+  videoDetails?: { title?: string; author?: string };
+}
+
+interface YouTubeMusicAppElement extends HTMLElement {
+  networkManager: {
+    fetch<T>(url: string, data: Record<string, unknown>): Promise<T>;
+  };
+}
+
+const getApp = () => {
+  const app = document.querySelector<YouTubeMusicAppElement>('ytmusic-app');
+  if (!app?.networkManager) {
+    throw new Error('YouTube Music is not ready yet');
+  }
+  return app;
+};
+
+// Search params for the "Songs" filter, so we get tracks rather than videos,
+// albums or artists
+const SONGS_FILTER_PARAMS = 'EgWKAQIIAWoMEA4QChADEAQQCRAF';
+
+const DURATION_PATTERN = /^\d+:\d{2}(?::\d{2})?$/;
+
+const pageTypeOf = (run: TextRun) =>
+  run.navigationEndpoint?.browseEndpoint?.browseEndpointContextSupportedConfigs?.browseEndpointContextMusicConfig?.pageType;
+
+const toSeconds = (text: string) =>
+  String(text.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0));
+
+// Collect every musicResponsiveListItemRenderer in the response, wherever the
+// current layout happens to nest them
+const findListItems = (node: unknown, found: ResponsiveListItem[] = []): ResponsiveListItem[] => {
+  if (Array.isArray(node)) {
+    node.forEach(child => findListItems(child, found));
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'musicResponsiveListItemRenderer') {
+        found.push(value as ResponsiveListItem);
+      } else {
+        findListItems(value, found);
+      }
+    }
+  }
+  return found;
+};
+
+const toCandidate = (item: ResponsiveListItem): MatchCandidate | null => {
+  const columns = item.flexColumns ?? [];
+  const titleRuns = columns[0]?.musicResponsiveListItemFlexColumnRenderer?.text?.runs ?? [];
+  const detailRuns = (columns[1]?.musicResponsiveListItemFlexColumnRenderer?.text?.runs ?? [])
+    .filter(run => run.text.trim() && run.text.trim() !== '•');
+
+  const videoId = item.playlistItemData?.videoId ?? titleRuns[0]?.navigationEndpoint?.watchEndpoint?.videoId;
+  const title = titleRuns.map(run => run.text).join('').trim();
+  if (!videoId || !title) return null;
+
+  const artists = detailRuns.filter(run => pageTypeOf(run) === 'MUSIC_PAGE_TYPE_ARTIST').map(run => run.text);
+  const album = detailRuns.find(run => pageTypeOf(run) === 'MUSIC_PAGE_TYPE_ALBUM')?.text;
+  const duration = detailRuns.map(run => run.text.trim()).find(text => DURATION_PATTERN.test(text));
+
+  return {
+    videoId,
+    title,
+    artist: artists.length > 0 ? artists.join(', ') : detailRuns[0]?.text ?? 'Unknown',
+    album,
+    duration: duration ? toSeconds(duration) : undefined,
+  };
+};
+
+// Search backend that goes through the app's own API client, so requests are
+// authenticated and localized exactly like the app's search page
+export const createYouTubeMusicSearchBackend = (): SearchBackend => ({
+  async search(query: string) {
+    const response = await getApp().networkManager.fetch<unknown>('/search', {
+      query,
+      params: SONGS_FILTER_PARAMS,
+    });
+
+    return findListItems(response)
+      .map(toCandidate)
+      .filter((candidate): candidate is MatchCandidate => candidate !== null);
+  },
+});
+
+// Age-restricted and members-only videos still exist, only the player knows
+// whether a signed-in user can watch them
+const PLAYABLE_STATUSES = ['OK', 'LOGIN_REQUIRED', 'CONTENT_CHECK_REQUIRED', 'AGE_CHECK_REQUIRED'];
+
+// Availability through the same player endpoint the app asks before playing
+export const createYouTubeMusicAvailabilityLookup = (): AvailabilityLookup => ({
+  async lookup(videoId: string) {
+    const response = await getApp().networkManager.fetch<PlayerResponse>('/player', { videoId });
+    const status = response.playabilityStatus?.status ?? 'ERROR';
+    const reason = response.playabilityStatus?.reason;
+
+    return {
+      playable: PLAYABLE_STATUSES.includes(status),
+      regionLocked: /country|region/i.test(reason ?? ''),
+      title: response.videoDetails?.title,
+      artist: response.videoDetails?.author,
+      reason,
+    };
+  },
+});